@@ -12,19 +12,27 @@ import * as dotenv from 'dotenv';
 
 dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
-import { ConfigManager } from '../lib/config';
-import { getProjectPaths } from '../../src/lib/paths';
+import { ConfigManager, MusicConfig, SfxLibrary } from '../lib/config';
+import { getProjectPaths, getSfxLibraryDir } from '../../src/lib/paths';
+import { assertUpstreamFresh, markStageCompleted, markStageFailed } from '../lib/pipeline-state';
 import {
   BackgroundElement,
+  BackgroundTransitionType,
   TextElement,
   AudioElement,
   BackgroundMusicElement,
+  VideoClipElement,
+  SoundEffectElement,
+  ElementAnimation,
+  PanDirection,
   Timeline,
 } from '../../src/lib/types';
 import { FPS, INTRO_DURATION_MS } from '../../src/lib/constants';
 import { removeStageDirections, splitIntoSentences, calculateSpeakingVelocity } from '../../src/lib/utils';
 import { holdBufferPrompt, HoldBufferSchema } from '../../config/prompts/hold-buffer.prompt';
 import { AIProviderFactory } from '../services/ai';
+import { snapToBeat } from '../services/audio/beats';
+import { getCaptionExportOptions, writeCaptionFiles } from '../services/captions';
 
 // Intro offset constant (matches INTRO_DURATION in src/lib/constants.ts)
 // This offset is BAKED INTO timeline data during assembly.
@@ -49,6 +57,20 @@ function stripExtension(filename: string): string {
   return filename.replace(/\.(mp4|jpg|jpeg|png|webp)$/i, '');
 }
 
+// Helper function to turn a manifest video path into a timeline videoUrl
+function toVideoUrl(videoPath: string): string {
+  let videoUrl = videoPath;
+  if (videoUrl.includes('/public/')) {
+    videoUrl = videoUrl.split('/public/')[1];
+  }
+  if (videoUrl.includes('assets/videos/')) {
+    videoUrl = videoUrl.split('assets/videos/')[1];
+  }
+
+  // Strip extension to prevent double .mp4.mp4
+  return stripExtension(videoUrl);
+}
+
 // Helper function to generate audio elements
 export function generateAudioElements(
   audioManifest: any[],
@@ -80,25 +102,99 @@ export function generateAudioElements(
   return elements;
 }
 
-// Helper function to generate background music elements
-function generateBackgroundMusicElements(
+// Helper function to find where script chapters start (ms), skipping chapters
+// shorter than minChapterMs so beds don't flip every few segments
+export function getChapterStarts(
+  segments: any[],
+  audioElements: AudioElement[],
+  minChapterMs: number,
+): number[] {
+  const count = Math.min(segments.length, audioElements.length);
+  if (count === 0) {
+    return [];
+  }
+
+  const endMs = audioElements[count - 1].endMs;
+  const starts: number[] = [];
+  let lastStartMs = 0;
+
+  for (let i = 1; i < count; i++) {
+    const chapter = segments[i].chapter;
+    if (!chapter || chapter === segments[i - 1].chapter) continue;
+
+    const startMs = audioElements[i].startMs;
+    if (startMs - lastStartMs >= minChapterMs && endMs - startMs >= minChapterMs) {
+      starts.push(startMs);
+      lastStartMs = startMs;
+    }
+  }
+
+  return starts;
+}
+
+// Helper function to generate background music elements. Tracks shorter than a
+// section are looped (or chained with the next track when looping is off), each
+// piece overlapping the next by crossfadeMs. With more than one track, each
+// chapter gets its own bed, crossfading at the chapter start.
+export function generateBackgroundMusicElements(
   manifest: any,
-  durationMs: number
+  durationMs: number,
+  musicConfig: MusicConfig | undefined,
+  toFrame: (ms: number) => number,
+  chapterStartsMs: number[] = [],
 ): BackgroundMusicElement[] | undefined {
-  if (!manifest.music || manifest.music.length === 0) {
+  const tracks: any[] = manifest.music || [];
+  if (tracks.length === 0) {
     return undefined;
   }
 
-  // Use first music track, loop if needed
-  const musicTrack = manifest.music[0];
+  const ducking = musicConfig?.audio?.volumeDucking;
+  const durationMatching = musicConfig?.selection?.durationMatching;
+  const allowLooping = durationMatching?.allowLooping ?? true;
+  const crossfadeMs = durationMatching?.crossfadeMs ?? 3000;
+
+  // One section per chapter (a single track can't switch beds)
+  const boundaries = tracks.length > 1
+    ? chapterStartsMs.filter((ms) => ms > 0 && ms < durationMs)
+    : [];
+  const sections = [0, ...boundaries].map((boundary, k) => ({
+    trackIndex: k % tracks.length,
+    startMs: k === 0 ? 0 : Math.max(0, boundary - crossfadeMs / 2),
+    endMs: k === boundaries.length ? durationMs : Math.min(durationMs, boundaries[k] + crossfadeMs / 2),
+  }));
+
+  const pieces: Array<{ track: any; startMs: number; endMs: number }> = [];
+  for (const section of sections) {
+    let trackIndex = section.trackIndex;
+    let cursor = section.startMs;
+
+    while (cursor < section.endMs) {
+      const track = tracks[trackIndex];
+      const trackMs = track.durationMs || Infinity;
+      const endMs = Math.min(section.endMs, cursor + trackMs);
+      pieces.push({ track, startMs: cursor, endMs });
+
+      if (endMs >= section.endMs) break;
+      cursor = Math.max(endMs - crossfadeMs, cursor + trackMs / 2);
+      if (!allowLooping) {
+        trackIndex = (trackIndex + 1) % tracks.length;
+      }
+    }
+  }
 
-  return [{
-    type: 'backgroundMusic' as const,
-    src: musicTrack.path,
-    startMs: 0,
-    endMs: durationMs,
-    volume: 0.15, // 15% volume to not overpower narration
-  }];
+  return pieces.map(({ track, startMs, endMs }) => ({
+    musicUrl: path.basename(track.path),
+    startMs,
+    endMs,
+    startFrame: toFrame(startMs),
+    endFrame: toFrame(endMs),
+    volume: musicConfig?.audio?.defaultVolume ?? 0.15, // low enough not to overpower narration
+    fadeInMs: startMs === 0 ? durationMatching?.fadeInMs : crossfadeMs,
+    fadeOutMs: endMs === durationMs ? durationMatching?.fadeOutMs : crossfadeMs,
+    ducking: ducking && ducking.enabled
+      ? { volume: ducking.duckVolumePercent / 100, fadeMs: ducking.fadeMs }
+      : undefined,
+  }));
 }
 
 // Helper function to generate background elements (video or image)
@@ -143,23 +239,13 @@ export function generateBackgroundElements(
       if (videosToUse.length > 0) {
         const video = videosToUse[i % videosToUse.length];
 
-        // Extract filename from path
-        let videoUrl = video.path;
-        if (videoUrl.includes('/public/')) {
-          videoUrl = videoUrl.split('/public/')[1];
-        }
-        if (videoUrl.includes('assets/videos/')) {
-          videoUrl = videoUrl.split('assets/videos/')[1];
-        }
-
-        // Strip extension to prevent double .mp4.mp4
-        videoUrl = stripExtension(videoUrl);
+        const videoUrl = toVideoUrl(video.path);
 
         const startMs = audio.startMs;
         const endMs = audio.endMs;
 
         elements.push({
-          videoUrl: videoUrl,
+          videoUrl,
           startMs,
           endMs,
           startFrame: toFrame(startMs),
@@ -229,6 +315,352 @@ export function generateBackgroundElements(
   return elements;
 }
 
+// Helper function to pick a cross transition for every cut between touching
+// backgrounds, cycling through transitions.cuts.types per cut, or per segment
+// (all cuts into a segment's backgrounds share its transition). The outgoing
+// element's exit and the incoming element's enter both carry it.
+export function assignCutTransitions(
+  elements: BackgroundElement[],
+  audioElements: AudioElement[],
+  videoConfig: any,
+): BackgroundElement[] {
+  const cutConfig = videoConfig.transitions?.cuts || {};
+  const types: BackgroundTransitionType[] = cutConfig.types || ['crossfade', 'slide', 'wipe', 'zoom'];
+  if (!cutConfig.enabled || types.length === 0) {
+    return elements;
+  }
+
+  const segmentIndex = (element: BackgroundElement) =>
+    Math.max(0, audioElements.findIndex((audio) => element.startMs >= audio.startMs && element.startMs < audio.endMs));
+
+  const assigned = elements.map((element) => ({ ...element }));
+  let cutCount = 0;
+  for (let i = 1; i < assigned.length; i++) {
+    const previous = assigned[i - 1];
+    const current = assigned[i];
+    if (Math.abs(previous.endMs - current.startMs) > 1) continue;
+
+    const type = types[(cutConfig.mode === 'per-segment' ? segmentIndex(current) : cutCount) % types.length];
+    previous.exitTransition = type;
+    current.enterTransition = type;
+    cutCount++;
+  }
+
+  return assigned;
+}
+
+// Helper function to lay each music piece's beat grid onto the timeline. In a
+// crossfade the outgoing piece keeps the beat until the next piece starts.
+export function getTimelineBeats(musicElements: BackgroundMusicElement[], tracks: any[]): number[] {
+  const pieces = [...musicElements].sort((a, b) => a.startMs - b.startMs);
+  const beatsMs: number[] = [];
+
+  pieces.forEach((piece, index) => {
+    const track = tracks.find((t: any) => path.basename(t.path) === piece.musicUrl);
+    if (!track?.beats?.beatsMs) return;
+
+    const untilMs = index + 1 < pieces.length ? pieces[index + 1].startMs : piece.endMs;
+    for (const beatMs of track.beats.beatsMs) {
+      const atMs = piece.startMs + beatMs;
+      if (atMs >= untilMs) break;
+      beatsMs.push(atMs);
+    }
+  });
+
+  return beatsMs;
+}
+
+// Helper function to move background cuts onto nearby beats. Only cuts between
+// touching elements move (the first start and last end stay put, as does the
+// narration), and no element shrinks below the tolerance.
+export function snapBackgroundsToBeats(
+  elements: BackgroundElement[],
+  beatsMs: number[],
+  toleranceMs: number,
+  toFrame: (ms: number) => number,
+): BackgroundElement[] {
+  if (beatsMs.length === 0 || toleranceMs <= 0) {
+    return elements;
+  }
+
+  const snapped = elements.map((element) => ({ ...element }));
+  for (let i = 1; i < snapped.length; i++) {
+    const previous = snapped[i - 1];
+    const current = snapped[i];
+    if (Math.abs(previous.endMs - current.startMs) > 1) continue;
+
+    const cutMs = snapToBeat(current.startMs, beatsMs, toleranceMs);
+    if (cutMs - previous.startMs < toleranceMs || current.endMs - cutMs < toleranceMs) continue;
+
+    previous.endMs = cutMs;
+    previous.endFrame = toFrame(cutMs);
+    current.startMs = cutMs;
+    current.startFrame = toFrame(cutMs);
+  }
+
+  return snapped;
+}
+
+// Helper function to give each background a camera motion across its whole
+// duration. Motions cycle through the enabled types, starting with defaultType;
+// alternateDirection swaps zoom in/out and walks the pan directions in turn,
+// otherwise every element repeats the first motion of its type.
+export function assignBackgroundMotions(
+  elements: BackgroundElement[],
+  videoConfig: any,
+): BackgroundElement[] {
+  const backgroundConfig = videoConfig.animations?.background || {};
+  const zoomConfig = backgroundConfig.types?.zoom || {};
+  const panConfig = backgroundConfig.types?.pan || {};
+  const alternate = backgroundConfig.alternateDirection ?? true;
+
+  type Motion = (durationMs: number) => ElementAnimation;
+  const zoomMotions: Motion[] = [];
+  const panMotions: Motion[] = [];
+
+  if (zoomConfig.enabled !== false) {
+    const scaleFrom = zoomConfig.scaleFrom ?? 1.0;
+    const scaleTo = zoomConfig.scaleTo ?? 1.2;
+    const easing = zoomConfig.easingFunction || 'easeInOut';
+    zoomMotions.push((durationMs) => ({ type: 'scale', startMs: 0, endMs: durationMs, from: scaleFrom, to: scaleTo, easing }));
+    if (alternate) {
+      zoomMotions.push((durationMs) => ({ type: 'scale', startMs: 0, endMs: durationMs, from: scaleTo, to: scaleFrom, easing }));
+    }
+  }
+
+  if (panConfig.enabled) {
+    const directions: PanDirection[] = panConfig.directions || ['left', 'right', 'up', 'down'];
+    const distance = panConfig.distance ?? 0.1;
+    const easing = panConfig.easingFunction || 'easeInOut';
+    for (const direction of alternate ? directions : directions.slice(0, 1)) {
+      panMotions.push((durationMs) => ({
+        type: 'pan',
+        startMs: 0,
+        endMs: durationMs,
+        direction,
+        distance,
+        ...(panConfig.scale !== undefined && { scale: panConfig.scale }),
+        easing,
+      }));
+    }
+  }
+
+  const [primary, secondary] = backgroundConfig.defaultType === 'pan' && panMotions.length > 0
+    ? [panMotions, zoomMotions]
+    : [zoomMotions, panMotions];
+  const motions: Motion[] = [];
+  for (let i = 0; i < Math.max(primary.length, secondary.length); i++) {
+    if (i < primary.length) motions.push(primary[i]);
+    if (i < secondary.length) motions.push(secondary[i]);
+  }
+
+  if (motions.length === 0) {
+    return elements;
+  }
+
+  return elements.map((element, index) => ({
+    ...element,
+    animations: [motions[index % motions.length](element.endMs - element.startMs)],
+  }));
+}
+
+// Helper function to find sentence time ranges (ms, relative to the segment audio)
+function getSentenceRanges(
+  segmentText: string,
+  wordTimestamps: Array<{ startMs: number; endMs: number }>,
+): Array<{ startMs: number; endMs: number }> {
+  const cleanedText = removeStageDirections(segmentText);
+  const sentences = splitIntoSentences(cleanedText);
+  const ranges: Array<{ startMs: number; endMs: number }> = [];
+
+  let wordIndex = 0;
+  for (const sentence of sentences) {
+    const wordCount = sentence.split(/\s+/).filter(w => w.length > 0).length;
+    const sentenceWords = wordTimestamps.slice(wordIndex, wordIndex + wordCount);
+    if (sentenceWords.length === 0) break;
+
+    ranges.push({
+      startMs: sentenceWords[0].startMs,
+      endMs: sentenceWords[sentenceWords.length - 1].endMs,
+    });
+    wordIndex += sentenceWords.length;
+  }
+
+  return ranges;
+}
+
+// Helper function to generate B-roll video clips placed at sentence boundaries
+export function generateVideoClipElements(
+  segments: any[],
+  audioElements: AudioElement[],
+  audioManifest: any[],
+  videos: any[],
+  tags: any[],
+  backgroundElements: BackgroundElement[],
+  videoConfig: any,
+  toFrame: (ms: number) => number,
+): VideoClipElement[] {
+  const clipConfig = videoConfig.videoClips || {};
+  if (!clipConfig.enabled || !videos || videos.length === 0) {
+    return [];
+  }
+
+  const everyNthSentence = clipConfig.everyNthSentence || 2;
+  const minDurationMs = clipConfig.minDurationMs || 2000;
+  const maxDurationMs = clipConfig.maxDurationMs || 6000;
+  const scaleFrom = clipConfig.scaleFrom ?? 1.0;
+  const scaleTo = clipConfig.scaleTo ?? 1.1;
+  const transitions = videoConfig.transitions || {};
+
+  const elements: VideoClipElement[] = [];
+  let clipCount = 0;
+
+  for (let i = 0; i < segments.length; i++) {
+    if (i >= audioElements.length || i >= audioManifest.length) continue;
+    const audio = audioElements[i];
+    const wordTimestamps = audioManifest[i].wordTimestamps;
+    if (!wordTimestamps || wordTimestamps.length === 0) continue;
+
+    // Prefer videos tagged for this segment, never the one already in the background
+    const segmentTags = tags
+      .filter((tag: any) => tag.segmentId === audio.audioUrl)
+      .map((tag: any) => tag.tag.toLowerCase());
+    const backgroundVideos = new Set(
+      backgroundElements
+        .filter((bg) => bg.videoUrl && bg.startMs < audio.endMs && bg.endMs > audio.startMs)
+        .map((bg) => bg.videoUrl)
+    );
+    const candidates = videos.filter((vid: any) => !backgroundVideos.has(toVideoUrl(vid.path)));
+    const matching = candidates.filter((vid: any) => {
+      const vidTags = (vid.tags || []).map((t: string) => t.toLowerCase());
+      return segmentTags.some((tag: string) => vidTags.some((vidTag: string) => vidTag.includes(tag) || tag.includes(vidTag)));
+    });
+    const clipsToUse = matching.length > 0 ? matching : candidates;
+    if (clipsToUse.length === 0) continue;
+
+    const sentenceRanges = getSentenceRanges(segments[i].text, wordTimestamps);
+
+    // The first sentence belongs to the background; clips start at later boundaries
+    for (let s = Math.max(1, everyNthSentence - 1); s < sentenceRanges.length; s += everyNthSentence) {
+      const video = clipsToUse[clipCount % clipsToUse.length];
+      const sentence = sentenceRanges[s];
+      const videoDurationMs = video.duration ? video.duration * 1000 : Infinity;
+
+      const startMs = audio.startMs + sentence.startMs;
+      const durationMs = Math.min(
+        Math.max(sentence.endMs - sentence.startMs, minDurationMs),
+        maxDurationMs,
+        videoDurationMs,
+        audio.endMs - startMs,
+      );
+      if (durationMs < minDurationMs) continue;
+
+      const endMs = startMs + durationMs;
+      elements.push({
+        videoUrl: toVideoUrl(video.path),
+        startMs,
+        endMs,
+        startFrame: toFrame(startMs),
+        endFrame: toFrame(endMs),
+        enterTransition: clipConfig.enterTransition || transitions.defaultEnter || 'fade',
+        exitTransition: clipConfig.exitTransition || transitions.defaultExit || 'fade',
+        animations: [{ type: 'scale', startMs: 0, endMs: durationMs, from: scaleFrom, to: scaleTo }],
+      });
+      clipCount++;
+    }
+  }
+
+  return elements;
+}
+
+// Helper function to place sound effects at background cuts and high-emphasis words
+export function generateSoundEffectElements(
+  backgroundElements: BackgroundElement[],
+  textElements: TextElement[],
+  library: SfxLibrary,
+  videoConfig: any,
+  toFrame: (ms: number) => number,
+): SoundEffectElement[] {
+  const sfxConfig = videoConfig.soundEffects || {};
+  if (!sfxConfig.enabled || library.effects.length === 0) {
+    return [];
+  }
+
+  const trackVolume = sfxConfig.volume ?? 0.5;
+  const transitionRules = sfxConfig.transitions || {};
+  const emphasisRules = sfxConfig.emphasis || {};
+  const elements: SoundEffectElement[] = [];
+
+  // Rotate through the effects carrying a tag so repeats are spread out
+  const usage = new Map<string, number>();
+  const pickEffect = (tags: string[]) => {
+    const matching = library.effects.filter((effect) => effect.tags.some((tag) => tags.includes(tag)));
+    if (matching.length === 0) return undefined;
+    const key = tags.join(',');
+    const count = usage.get(key) || 0;
+    usage.set(key, count + 1);
+    return matching[count % matching.length];
+  };
+
+  const place = (effect: SfxLibrary['effects'][number], tag: string, atMs: number) => {
+    const startMs = Math.max(0, atMs);
+    const endMs = startMs + effect.durationMs;
+    elements.push({
+      sfxUrl: effect.file,
+      tag,
+      startMs,
+      endMs,
+      startFrame: toFrame(startMs),
+      endFrame: toFrame(endMs),
+      volume: Math.round(trackVolume * effect.volume * 100) / 100,
+    });
+  };
+
+  // 1. Whoosh into every background cut that has a visible transition
+  const cutsMs: number[] = [];
+  if (transitionRules.enabled !== false) {
+    const tags: string[] = transitionRules.tags || ['whoosh'];
+    const leadMs = transitionRules.leadMs ?? 250;
+    for (let i = 1; i < backgroundElements.length; i++) {
+      const background = backgroundElements[i];
+      if (background.enterTransition === 'none') continue;
+      const effect = pickEffect(tags);
+      if (!effect) break;
+      place(effect, tags[0], background.startMs - leadMs);
+      cutsMs.push(background.startMs);
+    }
+  }
+
+  // 2. Pop on high-emphasis words (risers build up to intense ones), spaced
+  // apart from each other and from the cut whooshes
+  if (emphasisRules.enabled !== false) {
+    const tags: string[] = emphasisRules.tags || ['pop'];
+    const intenseTags: string[] = emphasisRules.intenseTags || ['riser'];
+    const minGapMs = emphasisRules.minGapMs ?? 4000;
+    let lastEmphasisMs = -Infinity;
+
+    for (const text of textElements) {
+      for (const word of text.words || []) {
+        if (word.emphasis?.level !== 'high') continue;
+        if (word.startMs - lastEmphasisMs < minGapMs) continue;
+        if (cutsMs.some((cutMs) => Math.abs(cutMs - word.startMs) < minGapMs / 2)) continue;
+
+        const riser = word.emphasis.tone === 'intense' ? pickEffect(intenseTags) : undefined;
+        if (riser) {
+          place(riser, intenseTags[0], word.startMs - riser.durationMs);
+        } else {
+          const effect = pickEffect(tags);
+          if (!effect) continue;
+          place(effect, tags[0], word.startMs);
+        }
+        lastEmphasisMs = word.startMs;
+      }
+    }
+  }
+
+  return elements.sort((a, b) => a.startMs - b.startMs);
+}
+
 // Helper function to chunk text into readable segments
 function chunkText(text: string, maxCharsPerLine: number, maxLines: number): string[] {
   const words = text.split(' ');
@@ -452,14 +884,13 @@ export async function generateTextElements(
   return elements;
 }
 
-async function main(projectId?: string) {
+async function main(projectId?: string, options: { force?: boolean } = {}): Promise<void> {
   try {
     console.log('[BUILD] Starting timeline assembly...');
 
     if (!projectId) {
-      console.error('[BUILD] ✗ Error: Missing required argument --project <id>');
-      console.log('[BUILD] Usage: npm run build:timeline -- --project <project-id>');
-      process.exit(1);
+      console.log('[BUILD] Usage: npm run build:timeline -- --project <project-id> [--force]');
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -467,17 +898,27 @@ async function main(projectId?: string) {
     // Check if tags.json exists
     const tagsExists = await fs.access(paths.tags).then(() => true).catch(() => false);
     if (!tagsExists) {
-      console.error(`[BUILD] ✗ Error: tags.json not found at ${paths.tags}`);
       console.log('[BUILD] Please run: npm run gather');
-      process.exit(1);
+      throw new Error(`tags.json not found at ${paths.tags}`);
     }
 
+    // Refuse to assemble from out-of-date gathered assets
+    await assertUpstreamFresh(projectId, 'build', options.force);
+
     // Load configuration
     const videoConfig = await ConfigManager.loadVideoConfig();
     const fps = videoConfig.aspectRatios?.[videoConfig.defaultAspectRatio]?.fps ?? FPS;
     const subtitleLeadMs = videoConfig.text?.subtitleLeadMs ?? 0;
     const toFrame = (ms: number) => Math.round((ms / 1000) * fps);
 
+    // Music settings are optional; fall back to built-in defaults
+    let musicConfig: MusicConfig | undefined;
+    try {
+      musicConfig = await ConfigManager.loadMusicConfig();
+    } catch (error: any) {
+      console.log(`[BUILD] ⚠ Could not load music config, using defaults: ${error.message}`);
+    }
+
     console.log(`[BUILD] Aspect ratio: ${videoConfig.defaultAspectRatio}`);
     console.log(`[BUILD] Target duration: ${videoConfig.duration?.targetSeconds || 720}s`);
 
@@ -493,8 +934,33 @@ async function main(projectId?: string) {
     const audioElements = generateAudioElements(tagsData.manifest.audio, projectId, toFrame);
     console.log(`[BUILD]   ✓ Generated ${audioElements.length} audio element(s)`);
 
+    // Calculate total duration from audio elements
+    const durationSeconds = audioElements.length > 0
+      ? Math.ceil(audioElements[audioElements.length - 1].endMs / 1000)
+      : 720;
+    const totalDurationMs = audioElements.length > 0
+      ? audioElements[audioElements.length - 1].endMs
+      : 720000;
+
+    // Chapter beds switch music tracks at script chapter boundaries
+    const chapterBeds = musicConfig?.selection?.chapterBeds;
+    const chapterStartsMs = chapterBeds?.enabled
+      ? getChapterStarts(scriptData.segments, audioElements, chapterBeds.minChapterMs)
+      : [];
+    if (chapterStartsMs.length > 0) {
+      console.log(`[BUILD]   → Music beds switch at ${chapterStartsMs.length} chapter boundar${chapterStartsMs.length === 1 ? 'y' : 'ies'}`);
+    }
+
+    const backgroundMusicElements = generateBackgroundMusicElements(
+      tagsData.manifest,
+      totalDurationMs,
+      musicConfig,
+      toFrame,
+      chapterStartsMs,
+    );
+
     console.log('[BUILD]   → Generating background elements...');
-    const backgroundElements = generateBackgroundElements(
+    let backgroundElements = generateBackgroundElements(
       tagsData.manifest.images,
       tagsData.manifest.videos || [],
       tagsData.tags,
@@ -504,6 +970,37 @@ async function main(projectId?: string) {
     );
     console.log(`[BUILD]   ✓ Generated ${backgroundElements.length} background element(s)`);
 
+    if (videoConfig.transitions?.cuts?.enabled) {
+      backgroundElements = assignCutTransitions(backgroundElements, audioElements, videoConfig);
+      console.log(`[BUILD]   ✓ Assigned ${videoConfig.transitions.cuts.mode || 'per-cut'} cross transitions`);
+    }
+
+    // Cut backgrounds on the music's beat grid (detected during gather)
+    const beatSync = musicConfig?.beatSync;
+    if (beatSync?.enabled && backgroundMusicElements) {
+      const beatsMs = getTimelineBeats(backgroundMusicElements, tagsData.manifest.music || []);
+      if (beatsMs.length > 0) {
+        backgroundElements = snapBackgroundsToBeats(backgroundElements, beatsMs, beatSync.toleranceMs, toFrame);
+        console.log(`[BUILD]   ✓ Snapped background cuts to ${beatsMs.length} beat(s) within ${beatSync.toleranceMs}ms`);
+      }
+    }
+
+    backgroundElements = assignBackgroundMotions(backgroundElements, videoConfig);
+    console.log('[BUILD]   ✓ Assigned background camera motion');
+
+    console.log('[BUILD]   → Generating video clip elements...');
+    const videoClipElements = generateVideoClipElements(
+      scriptData.segments,
+      audioElements,
+      tagsData.manifest.audio,
+      tagsData.manifest.videos || [],
+      tagsData.tags,
+      backgroundElements,
+      videoConfig,
+      toFrame,
+    );
+    console.log(`[BUILD]   ✓ Generated ${videoClipElements.length} video clip element(s)`);
+
     console.log('[BUILD]   → Generating text elements...');
     const textElements = await generateTextElements(
       scriptData.segments,
@@ -515,13 +1012,17 @@ async function main(projectId?: string) {
     );
     console.log(`[BUILD]   ✓ Generated ${textElements.length} text element(s)`);
 
-    // Calculate total duration from audio elements
-    const durationSeconds = audioElements.length > 0
-      ? Math.ceil(audioElements[audioElements.length - 1].endMs / 1000)
-      : 720;
-    const totalDurationMs = audioElements.length > 0
-      ? audioElements[audioElements.length - 1].endMs
-      : 720000;
+    const sfxLibrary = await ConfigManager.loadSfxLibrary(path.join(getSfxLibraryDir(), 'library.json'));
+    const soundEffectElements = generateSoundEffectElements(
+      backgroundElements,
+      textElements,
+      sfxLibrary,
+      videoConfig,
+      toFrame,
+    );
+    if (soundEffectElements.length > 0) {
+      console.log(`[BUILD]   ✓ Placed ${soundEffectElements.length} sound effect(s)`);
+    }
 
     const timeline: Timeline = {
       shortTitle: scriptData.title,
@@ -530,7 +1031,9 @@ async function main(projectId?: string) {
       elements: backgroundElements,
       text: textElements,
       audio: audioElements,
-      backgroundMusic: generateBackgroundMusicElements(tagsData.manifest, totalDurationMs),
+      videoClips: videoClipElements,
+      backgroundMusic: backgroundMusicElements,
+      soundEffects: soundEffectElements,
     };
 
     // Write timeline.json
@@ -545,10 +1048,29 @@ async function main(projectId?: string) {
     console.log(`[BUILD] ✓ Aspect ratio: ${timeline.aspectRatio}`);
     console.log(`[BUILD] ✓ Output: ${paths.timeline}`);
 
-    process.exit(0);
+    // Sidecar captions from the same sentence and word timings
+    if (videoConfig.captions?.enabled) {
+      try {
+        const written = await writeCaptionFiles(
+          textElements,
+          { srt: paths.captionsSrt, vtt: paths.captionsVtt, ass: paths.captionsAss },
+          getCaptionExportOptions(videoConfig, timeline.aspectRatio || videoConfig.defaultAspectRatio, {
+            title: timeline.shortTitle,
+          })
+        );
+        console.log(`[BUILD] ✓ Captions: ${Object.keys(written).join(', ')}`);
+      } catch (error: any) {
+        console.warn(`[BUILD] ⚠ Could not write captions: ${error.message}`);
+      }
+    }
+
+    await markStageCompleted(projectId, 'build');
   } catch (error: any) {
     console.error('[BUILD] ✗ Error:', error.message);
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'build', error);
+    }
+    throw error;
   }
 }
 
@@ -556,10 +1078,11 @@ async function main(projectId?: string) {
 const args = process.argv.slice(2);
 const projectIdIndex = args.indexOf('--project');
 const projectId = projectIdIndex !== -1 ? args[projectIdIndex + 1] : undefined;
+const force = args.includes('--force');
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId);
+  main(projectId, { force }).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
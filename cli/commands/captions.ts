@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/**
+ * Caption Export
+ *
+ * Writes sidecar captions from the timeline's sentence and word timings.
+ * Build writes them too when captions.enabled is set in video.config.json;
+ * this command re-exports them (e.g. in another format or with karaoke).
+ * Outputs: captions.srt, captions.vtt, captions.ass
+ */
+
+import * as fs from 'fs/promises';
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+dotenv.config(); // Fallback to .env
+import { ConfigManager } from '../lib/config';
+import { getProjectPaths } from '../../src/lib/paths';
+import { Timeline } from '../../src/lib/types';
+import { CaptionFormat, getCaptionExportOptions, writeCaptionFiles } from '../services/captions';
+
+const FORMATS: CaptionFormat[] = ['srt', 'vtt', 'ass'];
+
+async function main(projectId?: string, formats?: CaptionFormat[], karaoke?: boolean): Promise<void> {
+  try {
+    console.log('[CAPTIONS] Exporting captions...');
+
+    if (!projectId) {
+      console.log('[CAPTIONS] Usage: npm run captions -- --project <project-id> [--format srt,vtt,ass] [--karaoke]');
+      throw new Error('Missing required argument --project <id>');
+    }
+
+    const invalid = (formats || []).filter((format) => !FORMATS.includes(format));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown caption format(s): ${invalid.join(', ')} (use ${FORMATS.join(', ')})`);
+    }
+
+    const paths = getProjectPaths(projectId);
+    const timelineExists = await fs.access(paths.timeline).then(() => true).catch(() => false);
+    if (!timelineExists) {
+      console.log('[CAPTIONS] Please run: npm run build:timeline');
+      throw new Error(`timeline.json not found at ${paths.timeline}`);
+    }
+
+    const timeline: Timeline = JSON.parse(await fs.readFile(paths.timeline, 'utf-8'));
+    const videoConfig = await ConfigManager.loadVideoConfig();
+    const options = getCaptionExportOptions(videoConfig, timeline.aspectRatio || videoConfig.defaultAspectRatio, {
+      formats,
+      karaoke,
+      title: timeline.shortTitle,
+    });
+
+    const written = await writeCaptionFiles(
+      timeline.text,
+      { srt: paths.captionsSrt, vtt: paths.captionsVtt, ass: paths.captionsAss },
+      options
+    );
+
+    for (const [format, file] of Object.entries(written)) {
+      console.log(`[CAPTIONS] ✓ ${format.toUpperCase()}: ${file}`);
+    }
+    if (options.karaoke) {
+      console.log('[CAPTIONS] ✓ Karaoke word timing in VTT/ASS');
+    }
+  } catch (error: any) {
+    console.error('[CAPTIONS] ✗ Error:', error.message);
+    throw error;
+  }
+}
+
+// Parse CLI args
+const args = process.argv.slice(2);
+const projectIdIndex = args.indexOf('--project');
+const projectId = projectIdIndex !== -1 ? args[projectIdIndex + 1] : undefined;
+
+const formatIndex = args.indexOf('--format');
+const formats = formatIndex !== -1
+  ? args[formatIndex + 1]?.split(',').map((format) => format.trim().toLowerCase() as CaptionFormat)
+  : undefined;
+
+const karaoke = args.includes('--karaoke') ? true : undefined;
+
+// Run if called directly
+if (require.main === module) {
+  main(projectId, formats, karaoke).then(() => process.exit(0), () => process.exit(1));
+}
+
+export default main;
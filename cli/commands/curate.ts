@@ -13,6 +13,7 @@ import * as dotenv from 'dotenv';
 dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
 import { getProjectPaths } from '../../src/lib/paths';
+import { markStageCompleted, markStageFailed } from '../lib/pipeline-state';
 
 export interface SelectedTopic {
   id: string;
@@ -28,17 +29,16 @@ export interface SelectedTopicOutput {
   selectedAt: string;
 }
 
-async function main(projectId?: string, options?: { auto?: boolean; index?: number }) {
+async function main(projectId?: string, options?: { auto?: boolean; index?: number }): Promise<void> {
   try {
     console.log('[CURATE] Starting topic curation...');
 
     if (!projectId) {
-      console.error('[CURATE] ✗ Error: Missing required argument --project <id>');
       console.log('[CURATE] Usage: npm run curate -- --project <project-id> [--auto] [--index <n>]');
       console.log('[CURATE] Options:');
       console.log('[CURATE]   --auto       Automatically select the top-scored topic');
       console.log('[CURATE]   --index <n>  Select topic at index n (0-based, requires --auto)');
-      process.exit(1);
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -46,9 +46,8 @@ async function main(projectId?: string, options?: { auto?: boolean; index?: numb
     // Check if discovered.json exists
     const discoveredExists = await fs.access(paths.discovered).then(() => true).catch(() => false);
     if (!discoveredExists) {
-      console.error(`[CURATE] ✗ Error: discovered.json not found at ${paths.discovered}`);
       console.log('[CURATE] Please run: npm run discover');
-      process.exit(1);
+      throw new Error(`discovered.json not found at ${paths.discovered}`);
     }
 
     // Read discovered topics
@@ -116,22 +115,26 @@ async function main(projectId?: string, options?: { auto?: boolean; index?: numb
       console.log('[CURATE] Waiting for topic selection via web UI...');
       console.log('[CURATE] Press Ctrl+C to cancel');
 
-      // Wait until a topic is selected
-      await new Promise<void>((resolve) => {
+      // Wait until a topic is selected. Ctrl+C rejects rather than exiting, so
+      // the stage is marked failed (and an in-process pipeline stops cleanly)
+      await new Promise<void>((resolve, reject) => {
+        const onSigint = async () => {
+          console.log('\n[CURATE] Selection cancelled by user');
+          clearInterval(checkInterval);
+          process.removeListener('SIGINT', onSigint);
+          await server.stop().catch(() => undefined);
+          reject(new Error('Topic selection cancelled by user'));
+        };
+
         const checkInterval = setInterval(() => {
           if (selectedTopicId) {
             clearInterval(checkInterval);
+            process.removeListener('SIGINT', onSigint);
             resolve();
           }
         }, 500);
 
-        // Handle Ctrl+C gracefully
-        process.on('SIGINT', async () => {
-          console.log('\n[CURATE] Selection cancelled by user');
-          clearInterval(checkInterval);
-          await server.stop();
-          process.exit(0);
-        });
+        process.on('SIGINT', onSigint);
       });
 
       // Find selected topic
@@ -167,10 +170,13 @@ async function main(projectId?: string, options?: { auto?: boolean; index?: numb
     }
     console.log(`[CURATE] ✓ Output: ${paths.selected}`);
 
-    process.exit(0);
+    await markStageCompleted(projectId, 'curate');
   } catch (error: any) {
     console.error('[CURATE] ✗ Error:', error.message);
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'curate', error);
+    }
+    throw error;
   }
 }
 
@@ -199,7 +205,7 @@ const index = indexArg !== -1 ? parseInt(args[indexArg + 1], 10) : topicIndexVal
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId, { auto: autoMode, index });
+  main(projectId, { auto: autoMode, index }).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
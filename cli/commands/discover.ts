@@ -14,6 +14,7 @@ dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
 import { ConfigManager } from '../lib/config';
 import { ensureProjectDirs } from '../../src/lib/paths';
+import { markStageCompleted, markStageFailed } from '../lib/pipeline-state';
 import { GoogleTrendsService } from '../services/trends';
 import { AIProviderFactory } from '../services/ai';
 import { logger } from '../utils/logger';
@@ -46,7 +47,9 @@ const FilteredTopicsSchema = z.object({
   })),
 });
 
-async function main(options: { projectId?: string; geo?: string; limit?: number } = {}) {
+async function main(options: { projectId?: string; geo?: string; limit?: number } = {}): Promise<string> {
+  let projectId: string | undefined;
+
   try {
     console.log('[DISCOVER] Starting topic discovery...');
 
@@ -58,7 +61,7 @@ async function main(options: { projectId?: string; geo?: string; limit?: number
     console.log(`[DISCOVER] Target region: ${geo}`);
 
     // Use provided project ID or create new one
-    const projectId = options.projectId || `project-${Date.now()}`;
+    projectId = options.projectId || `project-${Date.now()}`;
     const paths = ensureProjectDirs(projectId);
 
     console.log(`[DISCOVER] ${options.projectId ? 'Using' : 'Created'} project: ${projectId}`);
@@ -126,13 +129,18 @@ async function main(options: { projectId?: string; geo?: string; limit?: number
     console.log(`[DISCOVER] ✓ Output: ${paths.discovered}`);
     console.log(`[DISCOVER] ✓ Project ID: ${projectId}`);
 
-    process.exit(0);
+    await markStageCompleted(projectId, 'discover');
+
+    return projectId;
   } catch (error: any) {
     console.error('[DISCOVER] ✗ Error:', error.message);
     if (error.stack) {
       logger.error(error.stack);
     }
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'discover', error);
+    }
+    throw error;
   }
 }
 
@@ -152,7 +160,7 @@ const options = {
 
 // Run if called directly
 if (require.main === module) {
-  main(options);
+  main(options).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
@@ -2,8 +2,12 @@
 /**
  * Stage 5: Asset Gathering
  *
- * Extracts tags, searches stock media, downloads music, generates TTS.
- * Outputs: tags.json, assets/images/*, assets/videos/*, assets/audio/*, assets/music/*
+ * Extracts tags, searches stock media, downloads music, generates TTS and
+ * normalizes narration loudness.
+ * Each finished segment is checkpointed to gather-checkpoint.json; re-runs skip
+ * completed segments unless --force is given. --segment <id> (repeatable)
+ * regathers only those segments and replaces their entries in tags.json.
+ * Outputs: tags.json, gather-checkpoint.json, assets/images/*, assets/videos/*, assets/audio/*, assets/music/*
  */
 
 import * as fs from 'fs/promises';
@@ -13,14 +17,28 @@ import * as dotenv from 'dotenv';
 dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
 import { ConfigManager } from '../lib/config';
+import { markStageCompleted, markStageFailed } from '../lib/pipeline-state';
+import {
+  assembleGatherOutput,
+  createGatherCheckpoint,
+  findCompletedSegment,
+  hashGatherConfig,
+  hashSegmentText,
+  loadGatherCheckpoint,
+  replaceSegmentAssets,
+  saveGatherCheckpoint,
+} from '../lib/gather-checkpoint';
 import { getProjectPaths, ensureProjectDirs } from '../../src/lib/paths';
 import { AIProviderFactory } from '../services/ai';
 import { MediaServiceFactory } from '../services/media';
-import { generateWithFallback } from '../services/tts';
-import { MusicServiceFactory } from '../services/music';
+import { generateWithFallback, loadLexicon } from '../services/tts';
+import { MusicServiceFactory, selectMusicMood } from '../services/music';
+import { masterNarration } from '../services/audio/loudness';
+import { detectBeats } from '../services/audio/beats';
 import { deduplicateImages, deduplicateVideos } from '../services/media/deduplication';
 import { rankByQuality } from '../services/media/quality';
 import { z } from 'zod';
+import { createLimiter, mapConcurrent } from '../utils/concurrency';
 import { extractVisualTagsPrompt, emphasisTaggingPrompt } from '../../config/prompts';
 import type { LocalMediaRepo } from '../services/media/local-repo';
 import { processAspectRatio, CropConfig } from '../services/media/aspect-processor';
@@ -46,6 +64,7 @@ export interface EmphasisData {
 export interface AssetManifest {
   images: Array<{
     id: string;
+    segmentId?: string;
     libraryId?: string;
     path: string;
     source: string;
@@ -56,6 +75,7 @@ export interface AssetManifest {
   }>;
   videos: Array<{
     id: string;
+    segmentId?: string;
     libraryId?: string;
     path: string;
     source: string;
@@ -74,8 +94,28 @@ export interface AssetManifest {
     durationMs: number;
     wordTimestamps?: Array<{ word: string; startMs: number; endMs: number }>;
     emphasis?: EmphasisData[];
+    loudness?: {
+      measuredLufs: number;
+      targetLufs: number;
+      trimmedLeadingMs: number;
+      trimmedTrailingMs: number;
+    };
+  }>;
+  music: Array<{
+    id: string;
+    path: string;
+    source: string;
+    genre: string;
+    durationMs?: number;
+    mood?: string;
+    moodReasoning?: string;
+    moodSource?: 'ai' | 'default';
+    beats?: {
+      bpm: number;
+      confidence: number;
+      beatsMs: number[];
+    };
   }>;
-  music: Array<{ id: string; path: string; source: string; genre: string }>;
 }
 
 export interface GatherOutput {
@@ -235,7 +275,13 @@ function mergeTags(...sources: string[][]): string[] {
   return Array.from(merged);
 }
 
-async function main(projectId?: string, preview = false, scrape = false) {
+async function main(
+  projectId?: string,
+  preview = false,
+  scrape = false,
+  force = false,
+  onlySegments: string[] = []
+): Promise<void> {
   let localRepo: LocalMediaRepo | null = null;
   try {
     console.log('[GATHER] Starting asset gathering...');
@@ -243,15 +289,16 @@ async function main(projectId?: string, preview = false, scrape = false) {
     const disableOnlineSearch = process.env.LOCAL_LIBRARY_DISABLE_ONLINE === '1';
 
     if (!projectId) {
-      console.error('[GATHER] ✗ Error: Missing required argument --project <id>');
-      console.log('[GATHER] Usage: npm run gather -- --project <project-id> [--preview] [--scrape]');
+      console.log('[GATHER] Usage: npm run gather -- --project <project-id> [--preview] [--scrape] [--force] [--segment <id>...]');
       console.log('[GATHER] ');
       console.log('[GATHER] Options:');
       console.log('[GATHER]   --project <id>  Project ID (required)');
       console.log('[GATHER]   --preview        Process only first 3 segments');
       console.log('[GATHER]   --scrape         Enable strict web scraping (no fallback to stock media)');
+      console.log('[GATHER]   --force          Ignore the checkpoint and regather every segment');
+      console.log('[GATHER]   --segment <id>   Regather only this segment (repeatable)');
       console.log('[GATHER] ');
-      process.exit(1);
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -261,15 +308,16 @@ async function main(projectId?: string, preview = false, scrape = false) {
     const scriptPath = path.join(paths.scripts, 'script-v1.json');
     const scriptExists = await fs.access(scriptPath).then(() => true).catch(() => false);
     if (!scriptExists) {
-      console.error(`[GATHER] ✗ Error: script not found at ${scriptPath}`);
       console.log('[GATHER] Please run: npm run script');
-      process.exit(1);
+      throw new Error(`script not found at ${scriptPath}`);
     }
 
     // Load configuration
     const videoConfig = await ConfigManager.loadVideoConfig();
     const stockConfig = await ConfigManager.loadStockAssetsConfig();
     const musicConfig = await ConfigManager.loadMusicConfig();
+    const ttsConfig = await ConfigManager.loadTTSConfig();
+    const lexicon = await loadLexicon(paths.lexicon);
     const localLibraryConfig = stockConfig.localLibrary;
     const cropConfig = getCropConfig(stockConfig);
     const desiredAspectRatio = getDesiredAspectRatio(
@@ -279,7 +327,14 @@ async function main(projectId?: string, preview = false, scrape = false) {
     );
 
     console.log(`[GATHER] Aspect ratio: ${videoConfig.defaultAspectRatio}`);
+    if (lexicon.length > 0) {
+      console.log(`[GATHER] Pronunciation lexicon: ${lexicon.length} entries`);
+    }
     console.log(`[GATHER] Music enabled: ${musicConfig.enabled}`);
+    const normalization = musicConfig.audio?.normalization;
+    if (normalization?.enabled) {
+      console.log(`[GATHER] Narration loudness target: ${normalization.targetLufs} LUFS`);
+    }
 
     // Validate --scrape requirements early
     if (scrape) {
@@ -305,8 +360,6 @@ async function main(projectId?: string, preview = false, scrape = false) {
       }
 
       if (missingRequirements.length > 0) {
-        console.error('[GATHER] ✗ Error: Missing required configuration for --scrape mode');
-        console.error('[GATHER] ');
         console.error('[GATHER] Missing:');
         for (const req of missingRequirements) {
           console.error(`[GATHER]   - ${req}`);
@@ -315,7 +368,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
         console.error('[GATHER] Please configure these settings before using --scrape.');
         console.error('[GATHER] See .env.example for configuration details.');
         console.error('[GATHER] ');
-        process.exit(1);
+        throw new Error('Missing required configuration for --scrape mode');
       }
     } else {
       console.log('[GATHER] Scrape mode: DISABLED (stock media APIs will be used)');
@@ -341,6 +394,36 @@ async function main(projectId?: string, preview = false, scrape = false) {
       throw new Error('Script has no segments');
     }
 
+    const segmentIds: string[] = scriptData.segments
+      .slice(0, segmentsToProcess)
+      .map((seg: any, idx: number) => seg.id || `segment-${idx + 1}`);
+
+    // Validate --segment targets before doing any work
+    const targetSegments = new Set(onlySegments);
+    let existingOutput: GatherOutput | null = null;
+    if (targetSegments.size > 0) {
+      const unknownIds = onlySegments.filter((id) => !segmentIds.includes(id));
+      if (unknownIds.length > 0) {
+        console.log(`[GATHER] Available segments: ${segmentIds.join(', ')}`);
+        throw new Error(`Unknown segment(s): ${unknownIds.join(', ')}`);
+      }
+
+      const tagsExists = await fs.access(paths.tags).then(() => true).catch(() => false);
+      if (!tagsExists) {
+        console.log('[GATHER] Run a full gather before regathering individual segments');
+        throw new Error(`tags.json not found at ${paths.tags}`);
+      }
+
+      existingOutput = JSON.parse(await fs.readFile(paths.tags, 'utf-8')) as GatherOutput;
+      const untracked = [...existingOutput.manifest.images, ...existingOutput.manifest.videos]
+        .filter((asset) => !asset.segmentId).length;
+      if (untracked > 0) {
+        console.warn(`[GATHER] ⚠ ${untracked} existing media item(s) have no segmentId and will be kept as-is`);
+      }
+
+      console.log(`[GATHER] Regathering segment(s): ${onlySegments.join(', ')}`);
+    }
+
     // Initialize services
     const aiProvider = isLibraryTestMode ? createMockAIProvider() : await AIProviderFactory.getProviderWithFallback();
     const stockSearch = disableOnlineSearch
@@ -421,31 +504,63 @@ async function main(projectId?: string, preview = false, scrape = false) {
         console.error('[GATHER]   - Internet connectivity is available');
         console.error('[GATHER] ');
 
-        if (error.stack) {
-          console.error('[GATHER] Stack trace:');
-          console.error(error.stack);
-        }
-
-        await localRepo?.dispose();
-        process.exit(1);
+        throw error;
       }
     }
 
-    const allTags: AssetTag[] = [];
-    const manifest: AssetManifest = {
-      images: [],
-      videos: [],
-      audio: [],
-      music: [],
+    // Resume from the per-segment checkpoint unless --force
+    const checkpointParams = {
+      preview,
+      scrape,
+      configHash: hashGatherConfig({
+        tts: ttsConfig,
+        stock: stockConfig,
+        music: musicConfig,
+        lexicon,
+        aspectRatio: videoConfig.defaultAspectRatio,
+      }),
     };
+    const checkpoint = force
+      ? createGatherCheckpoint(checkpointParams)
+      : await loadGatherCheckpoint(paths.gatherCheckpoint, checkpointParams);
+    if (force) {
+      console.log('[GATHER] Force mode: ignoring checkpoint, regathering all segments');
+    }
 
-    // Process each segment
-    for (let i = 0; i < segmentsToProcess; i++) {
+    // Bounded pools: segments run in parallel, each external resource has its own limit
+    const segmentConcurrency = stockConfig.concurrency.segments;
+    const aiPool = createLimiter(stockConfig.concurrency.aiCalls);
+    const searchPool = createLimiter(stockConfig.concurrency.searches);
+    const downloadPool = createLimiter(stockConfig.download?.maxConcurrent ?? 5);
+    const ttsPool = createLimiter(ttsConfig.concurrency.maxConcurrent);
+    const checkpointWriter = createLimiter(1);
+
+    console.log(
+      `[GATHER] Concurrency: segments=${segmentConcurrency}, ai=${stockConfig.concurrency.aiCalls}, ` +
+      `searches=${stockConfig.concurrency.searches}, downloads=${stockConfig.download?.maxConcurrent ?? 5}, ` +
+      `tts=${ttsConfig.concurrency.maxConcurrent}`
+    );
+
+    // Process a single segment and checkpoint it
+    const gatherSegment = async (i: number): Promise<void> => {
       const segment = scriptData.segments[i];
-      const segmentId = segment.id || `segment-${i + 1}`;
+      const segmentId = segmentIds[i];
+
+      if (targetSegments.size > 0 && !targetSegments.has(segmentId)) {
+        return;
+      }
+
+      if (targetSegments.size === 0 && await findCompletedSegment(checkpoint, segmentId, segment.text, segment.speakingNotes)) {
+        console.log(`[GATHER] Skipping segment ${i + 1}/${segmentsToProcess}: ${segmentId} (already gathered)`);
+        return;
+      }
 
       console.log(`[GATHER] Processing segment ${i + 1}/${segmentsToProcess}: ${segmentId}`);
 
+      const segmentAssetTags: AssetTag[] = [];
+      const segmentImages: AssetManifest['images'] = [];
+      const segmentVideos: AssetManifest['videos'] = [];
+
       // 1. Extract tags from segment text using AI
       const prompt = extractVisualTagsPrompt({
         segmentText: segment.text,
@@ -454,17 +569,17 @@ async function main(projectId?: string, preview = false, scrape = false) {
         mediaType: 'both',
       });
 
-      const tagResult = await aiProvider.structuredComplete(prompt, TagExtractionSchema);
+      const tagResult = await aiPool(() => aiProvider.structuredComplete(prompt, TagExtractionSchema));
 
       for (const tagItem of tagResult.tags) {
-        allTags.push({
+        segmentAssetTags.push({
           tag: tagItem.tag,
           segmentId,
           confidence: tagItem.confidence,
         });
       }
 
-      console.log(`[GATHER]   → Extracted ${tagResult.tags.length} tags: ${tagResult.tags.map(t => t.tag).join(', ')}`);
+      console.log(`[GATHER] [${segmentId}] → Extracted ${tagResult.tags.length} tags: ${tagResult.tags.map(t => t.tag).join(', ')}`);
 
       const segmentTags = tagResult.tags.map(t => t.tag);
 
@@ -477,16 +592,16 @@ async function main(projectId?: string, preview = false, scrape = false) {
 
       if (localRepo && localLibraryConfig.enabled) {
         try {
-          console.log('[GATHER]   → Checking local library for videos...');
+          console.log(`[GATHER] [${segmentId}] → Checking local library for videos...`);
           const maxVideos = preview ? PREVIEW_VIDEO_LIMIT : localLibraryConfig.limit.videos;
-          const localVideos = await localRepo.searchVideos(segmentTags, {
+          const localVideos = await searchPool(() => localRepo!.searchVideos(segmentTags, {
             minWidth: stockConfig.providers?.pexels?.videoDefaults?.minWidth,
             minHeight: stockConfig.providers?.pexels?.videoDefaults?.minHeight,
             minDurationMs,
             desiredAspectRatio,
             maxResults: maxVideos,
             preferRecencyBoost: localLibraryConfig.preferRecencyBoost,
-          });
+          }));
 
           const videosToUse = localVideos.slice(0, maxVideos);
           if (videosToUse.length > 0) {
@@ -496,8 +611,9 @@ async function main(projectId?: string, preview = false, scrape = false) {
                 const destPath = path.join(paths.assetsVideos, path.basename(video.path));
                 await fs.copyFile(video.path, destPath);
                 const durationSeconds = Number((video.durationMs / 1000).toFixed(2));
-                manifest.videos.push({
+                segmentVideos.push({
                   id: video.id,
+                  segmentId,
                   libraryId: video.id,
                   path: destPath,
                   source: 'local-library',
@@ -511,7 +627,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
                 });
                 usedIds.push(video.id);
               } catch (copyError: any) {
-                console.warn(`[GATHER]   ⚠ Failed to reuse local video ${video.id}: ${copyError.message}`);
+                console.warn(`[GATHER] [${segmentId}] ⚠ Failed to reuse local video ${video.id}: ${copyError.message}`);
               }
             }
 
@@ -519,14 +635,14 @@ async function main(projectId?: string, preview = false, scrape = false) {
               await localRepo.markUsed(usedIds, 'video');
               if (usedIds.length >= localLibraryConfig.minMatches.videos) {
                 videoAcquired = true;
-                console.log(`[GATHER]   ✓ Reused ${usedIds.length} video(s) from local library`);
+                console.log(`[GATHER] [${segmentId}] ✓ Reused ${usedIds.length} video(s) from local library`);
               } else {
-                console.log(`[GATHER]   → Reused ${usedIds.length} local video(s); searching online for more`);
+                console.log(`[GATHER] [${segmentId}] → Reused ${usedIds.length} local video(s); searching online for more`);
               }
             }
           }
         } catch (error: any) {
-          console.warn(`[GATHER]   ⚠ Local video search failed: ${error.message}`);
+          console.warn(`[GATHER] [${segmentId}] ⚠ Local video search failed: ${error.message}`);
         }
       }
 
@@ -536,15 +652,15 @@ async function main(projectId?: string, preview = false, scrape = false) {
           if (disableOnlineSearch) {
             throw new Error('Online video search disabled via LOCAL_LIBRARY_DISABLE_ONLINE');
           }
-          console.log(`[GATHER]   → Searching for videos...`);
-          const videoResults = await stockSearch.searchVideos(
+          console.log(`[GATHER] [${segmentId}] → Searching for videos...`);
+          const videoResults = await searchPool(() => stockSearch.searchVideos(
             segmentTags,
             {
               perTag: stockConfig.providers?.pexels?.videoDefaults?.perPage || 5,
               orientation: videoConfig.defaultAspectRatio as '16:9' | '9:16',
               minDuration: stockConfig.providers?.pexels?.videoDefaults?.minDuration || 5,
             }
-          );
+          ));
 
           // Deduplicate and rank by quality
           const maxVideos = preview ? PREVIEW_VIDEO_LIMIT : 3;
@@ -554,7 +670,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
             minQuality: stockConfig.qualityScoring?.minVideoQualityScore || 0.7,
           }).slice(0, maxVideos); // Top N videos per segment
 
-          console.log(`[GATHER]   → Found ${rankedVideos.length} videos (quality threshold: ${stockConfig.qualityScoring?.minVideoQualityScore || 0.7})`);
+          console.log(`[GATHER] [${segmentId}] → Found ${rankedVideos.length} videos (quality threshold: ${stockConfig.qualityScoring?.minVideoQualityScore || 0.7})`);
 
           // Download videos if quality threshold met
           if (rankedVideos.length > 0) {
@@ -567,14 +683,14 @@ async function main(projectId?: string, preview = false, scrape = false) {
             });
 
             if (qualityScore.length > 0) {
-              console.log(`[GATHER]   → Downloading top ${Math.min(maxVideos, rankedVideos.length)} video(s)...`);
+              console.log(`[GATHER] [${segmentId}] → Downloading top ${Math.min(maxVideos, rankedVideos.length)} video(s)...`);
 
               // Track videos added for THIS segment
-              const videosBeforeSegment = manifest.videos.length;
+              const videosBeforeSegment = segmentVideos.length;
 
               for (const video of rankedVideos) {
                 try {
-                  const { path: cachePath, metadata } = await downloader.downloadVideo(video);
+                  const { path: cachePath, metadata } = await downloadPool(() => downloader.downloadVideo(video));
                   const filename = path.basename(cachePath);
                   const projectVideoPath = path.join(paths.assetsVideos, filename);
                   await fs.copyFile(cachePath, projectVideoPath);
@@ -591,12 +707,13 @@ async function main(projectId?: string, preview = false, scrape = false) {
                       libraryId = ingested.id;
                       await localRepo.markUsed([ingested.id], 'video');
                     } catch (ingestError: any) {
-                      console.warn(`[GATHER]   ⚠ Failed to ingest video ${video.id} into local library: ${ingestError.message}`);
+                      console.warn(`[GATHER] [${segmentId}] ⚠ Failed to ingest video ${video.id} into local library: ${ingestError.message}`);
                     }
                   }
 
-                  manifest.videos.push({
+                  segmentVideos.push({
                     id: video.id,
+                    segmentId,
                     libraryId,
                     path: projectVideoPath,
                     source: video.source,
@@ -609,23 +726,23 @@ async function main(projectId?: string, preview = false, scrape = false) {
                     metadata: metadata,
                   });
 
-                  console.log(`[GATHER]   → Downloaded video: ${video.id} (${video.width}x${video.height}, ${video.duration}s)`);
+                  console.log(`[GATHER] [${segmentId}] → Downloaded video: ${video.id} (${video.width}x${video.height}, ${video.duration}s)`);
                 } catch (downloadError: any) {
-                  console.warn(`[GATHER]   ⚠ Failed to download video ${video.id}: ${downloadError.message}`);
+                  console.warn(`[GATHER] [${segmentId}] ⚠ Failed to download video ${video.id}: ${downloadError.message}`);
                 }
               }
 
-              // Check if THIS segment acquired videos (not global count)
-              const segmentVideoCount = manifest.videos.length - videosBeforeSegment;
+              // Check if THIS segment acquired videos (not local reuse)
+              const segmentVideoCount = segmentVideos.length - videosBeforeSegment;
               if (segmentVideoCount > 0) {
                 videoAcquired = true;
-                console.log(`[GATHER]   ✓ Acquired ${segmentVideoCount} video(s) for this segment, skipping image search`);
+                console.log(`[GATHER] [${segmentId}] ✓ Acquired ${segmentVideoCount} video(s) for this segment, skipping image search`);
               }
             }
           }
         } catch (videoError: any) {
-          console.warn(`[GATHER]   ⚠ Video search failed: ${videoError.message}`);
-          console.log(`[GATHER]   → Falling back to image search`);
+          console.warn(`[GATHER] [${segmentId}] ⚠ Video search failed: ${videoError.message}`);
+          console.log(`[GATHER] [${segmentId}] → Falling back to image search`);
         }
       }
 
@@ -633,15 +750,15 @@ async function main(projectId?: string, preview = false, scrape = false) {
       if (!videoAcquired) {
         if (localRepo && localLibraryConfig.enabled) {
           try {
-            console.log('[GATHER]   → Checking local library for images...');
+            console.log(`[GATHER] [${segmentId}] → Checking local library for images...`);
             const maxImages = preview ? PREVIEW_IMAGE_LIMIT : localLibraryConfig.limit.images;
-            const localImages = await localRepo.searchImages(segmentTags, {
+            const localImages = await searchPool(() => localRepo!.searchImages(segmentTags, {
               minWidth: stockConfig.providers?.pexels?.searchDefaults?.minWidth,
               minHeight: stockConfig.providers?.pexels?.searchDefaults?.minHeight,
               desiredAspectRatio,
               maxResults: maxImages,
               preferRecencyBoost: localLibraryConfig.preferRecencyBoost,
-            });
+            }));
 
             const imagesToUse = localImages.slice(0, maxImages);
             if (imagesToUse.length > 0) {
@@ -650,8 +767,9 @@ async function main(projectId?: string, preview = false, scrape = false) {
                 try {
                   const destPath = path.join(paths.assetsImages, path.basename(image.path));
                   await fs.copyFile(image.path, destPath);
-                  manifest.images.push({
+                  segmentImages.push({
                     id: image.id,
+                    segmentId,
                     libraryId: image.id,
                     path: destPath,
                     source: 'local-library',
@@ -662,7 +780,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
                   });
                   usedIds.push(image.id);
                 } catch (copyError: any) {
-                  console.warn(`[GATHER]   ⚠ Failed to reuse local image ${image.id}: ${copyError.message}`);
+                  console.warn(`[GATHER] [${segmentId}] ⚠ Failed to reuse local image ${image.id}: ${copyError.message}`);
                 }
               }
 
@@ -670,21 +788,21 @@ async function main(projectId?: string, preview = false, scrape = false) {
                 await localRepo.markUsed(usedIds, 'image');
                 if (usedIds.length >= localLibraryConfig.minMatches.images) {
                   imagesAcquired = true;
-                  console.log(`[GATHER]   ✓ Reused ${usedIds.length} image(s) from local library`);
+                  console.log(`[GATHER] [${segmentId}] ✓ Reused ${usedIds.length} image(s) from local library`);
                 } else {
-                  console.log(`[GATHER]   → Reused ${usedIds.length} local image(s); searching online for more`);
+                  console.log(`[GATHER] [${segmentId}] → Reused ${usedIds.length} local image(s); searching online for more`);
                 }
               }
             }
           } catch (error: any) {
-            console.warn(`[GATHER]   ⚠ Local image search failed: ${error.message}`);
+            console.warn(`[GATHER] [${segmentId}] ⚠ Local image search failed: ${error.message}`);
           }
         }
 
         if (!imagesAcquired) {
           // Web scraping path (STRICT MODE)
           if (scrape && webScraper) {
-            console.log('[GATHER]   → Searching web for images (strict scrape mode)...');
+            console.log(`[GATHER] [${segmentId}] → Searching web for images (strict scrape mode)...`);
 
             try {
               // Define search options
@@ -696,11 +814,11 @@ async function main(projectId?: string, preview = false, scrape = false) {
               };
 
               // Search returns already-downloaded and validated candidates
-              const candidates = await webScraper.searchImagesForScene(
+              const candidates = await searchPool(() => webScraper!.searchImagesForScene(
                 segment.text,
                 segmentTags,
                 imageSearchOptions
-              );
+              ));
 
               const minCandidatesForSuccess = webScrapeConfig?.search?.minCandidatesForSuccess || 3;
 
@@ -720,19 +838,20 @@ async function main(projectId?: string, preview = false, scrape = false) {
                 aspectRatioMatch: webScrapeConfig?.selection?.weights?.aspectRatioMatch || 0.1,
               };
 
-              const bestImage = await webScraper.selectBestImage(
+              const bestImage = await aiPool(() => webScraper!.selectBestImage(
                 candidates,
                 segment.text,
                 selectionCriteria
-              );
+              ));
 
               // Copy from cache to project (already downloaded during search)
               const projectImagePath = path.join(paths.assetsImages, path.basename(bestImage.downloadedPath!));
               await fs.copyFile(bestImage.downloadedPath!, projectImagePath);
 
               // Skip local library ingestion for scraped images (project-specific only)
-              manifest.images.push({
+              segmentImages.push({
                 id: bestImage.id,
+                segmentId,
                 path: projectImagePath,
                 source: 'web-scrape',
                 provider: 'gemini-search',
@@ -742,7 +861,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
               });
 
               imagesAcquired = true;
-              console.log(`[GATHER]   ✓ Downloaded scraped image: ${bestImage.url}`);
+              console.log(`[GATHER] [${segmentId}] ✓ Downloaded scraped image: ${bestImage.url}`);
             } catch (scrapeError: any) {
               // STRICT MODE: Fail immediately, no fallback
               console.error(`[GATHER] ✗ Fatal: Web scraping failed for segment ${i + 1}/${segmentsToProcess}`);
@@ -760,13 +879,7 @@ async function main(projectId?: string, preview = false, scrape = false) {
               console.error('[GATHER]   4. Run without --scrape to use stock media fallback');
               console.error('[GATHER] ');
 
-              if (scrapeError.stack) {
-                console.error('[GATHER] Stack trace:');
-                console.error(scrapeError.stack);
-              }
-
-              await localRepo?.dispose();
-              process.exit(1);
+              throw scrapeError;
             }
           }
 
@@ -775,14 +888,14 @@ async function main(projectId?: string, preview = false, scrape = false) {
             if (disableOnlineSearch) {
               throw new Error('Online image search disabled via LOCAL_LIBRARY_DISABLE_ONLINE');
             }
-            console.log(`[GATHER]   → Searching for images (video fallback)...`);
-            const imageResults = await stockSearch.searchImages(
+            console.log(`[GATHER] [${segmentId}] → Searching for images (video fallback)...`);
+            const imageResults = await searchPool(() => stockSearch.searchImages(
               segmentTags,
               {
                 perTag: stockConfig.providers?.pexels?.searchDefaults?.perPage || 10,
                 orientation: videoConfig.defaultAspectRatio as '16:9' | '9:16',
               }
-            );
+            ));
 
             // Deduplicate and rank
             const maxImages = preview ? PREVIEW_IMAGE_LIMIT : 5;
@@ -792,12 +905,12 @@ async function main(projectId?: string, preview = false, scrape = false) {
               minQuality: stockConfig.qualityScoring?.minQualityScore || 0.6,
             }).slice(0, maxImages); // Top N images per segment
 
-            console.log(`[GATHER]   → Found ${rankedImages.length} images`);
+            console.log(`[GATHER] [${segmentId}] → Found ${rankedImages.length} images`);
 
             // Download images
             for (const image of rankedImages) {
               try {
-                const { path: cachePath, metadata } = await downloader.downloadImage(image);
+                const { path: cachePath, metadata } = await downloadPool(() => downloader.downloadImage(image));
 
                 // Copy from cache to project assets directory
                 const filename = path.basename(cachePath);
@@ -816,12 +929,13 @@ async function main(projectId?: string, preview = false, scrape = false) {
                     libraryId = ingested.id;
                     await localRepo.markUsed([ingested.id], 'image');
                   } catch (ingestError: any) {
-                    console.warn(`[GATHER]   ⚠ Failed to ingest image ${image.id} into local library: ${ingestError.message}`);
+                    console.warn(`[GATHER] [${segmentId}] ⚠ Failed to ingest image ${image.id} into local library: ${ingestError.message}`);
                   }
                 }
 
-                manifest.images.push({
+                segmentImages.push({
                   id: image.id,
+                  segmentId,
                   libraryId,
                   path: projectImagePath,
                   source: image.source,
@@ -831,45 +945,35 @@ async function main(projectId?: string, preview = false, scrape = false) {
                   metadata: metadata,
                 });
               } catch (downloadError: any) {
-                console.warn(`[GATHER]   ⚠ Failed to download image ${image.id}: ${downloadError.message}`);
+                console.warn(`[GATHER] [${segmentId}] ⚠ Failed to download image ${image.id}: ${downloadError.message}`);
               }
             }
           }
 
           // STRICT MODE: If we're in scrape mode and still no images, something went wrong
           if (!imagesAcquired && scrape) {
-            console.error('[GATHER] ✗ Fatal: Failed to acquire images in strict scrape mode');
-            console.error(`[GATHER] Segment ${i + 1}/${segmentsToProcess}: ${segmentId}`);
-            await localRepo?.dispose();
-            process.exit(1);
+            throw new Error(
+              `Failed to acquire images in strict scrape mode (segment ${i + 1}/${segmentsToProcess}: ${segmentId})`
+            );
           }
         }
       }
 
-      // 4. Generate TTS audio for segment
-      console.log(`[GATHER]   → Generating TTS audio...`);
-
       // Filter stage directions before TTS
       const cleanedText = removeStageDirections(segment.text);
-      console.log(`[GATHER]   → Cleaned text: "${cleanedText.substring(0, 80)}${cleanedText.length > 80 ? '...' : ''}"`);
+      console.log(`[GATHER] [${segmentId}] → Cleaned text: "${cleanedText.substring(0, 80)}${cleanedText.length > 80 ? '...' : ''}"`);
 
-      const ttsGenerator = isLibraryTestMode ? generateStubTTS : generateWithFallback;
-      const { audio: ttsResult, provider: ttsProviderUsed } = await ttsGenerator(cleanedText);
-      const audioPath = path.join(paths.assetsAudio, `${segmentId}.mp3`);
-      await fs.writeFile(audioPath, ttsResult.audioBuffer);
-      console.log(`[GATHER]   → TTS generated using ${ttsProviderUsed}`);
-
-      // 5. Detect emphasis for segment (Wave 2A.4)
+      // 4. Detect emphasis for segment (Wave 2A.4)
       let emphasisData: EmphasisData[] = [];
       try {
-        console.log(`[GATHER]   → Detecting emphasis...`);
+        console.log(`[GATHER] [${segmentId}] → Detecting emphasis...`);
         const emphasisPrompt = emphasisTaggingPrompt(cleanedText);
 
         // Try to get emphasis from AI
-        const emphasisResult = await aiProvider.structuredComplete(
+        const emphasisResult = await aiPool(() => aiProvider.structuredComplete(
           emphasisPrompt,
           EmphasisResponseSchema
-        );
+        ));
 
         // Convert emphasisTags to emphases format
         const rawEmphases: EmphasisData[] = emphasisResult.emphasisTags.map(tag => ({
@@ -886,40 +990,162 @@ async function main(projectId?: string, preview = false, scrape = false) {
 
         const highCount = emphasisData.filter(e => e.level === 'high').length;
         const medCount = emphasisData.filter(e => e.level === 'med').length;
-        console.log(`[GATHER]   → Emphasis detected: ${emphasisData.length} total (${highCount} high, ${medCount} med) from ${wordCount} words`);
+        console.log(`[GATHER] [${segmentId}] → Emphasis detected: ${emphasisData.length} total (${highCount} high, ${medCount} med) from ${wordCount} words`);
       } catch (error: any) {
         // Graceful degradation: continue without emphasis if detection fails
-        console.warn(`[GATHER]   ⚠ Emphasis detection failed: ${error.message}`);
-        console.log(`[GATHER]   → Continuing without emphasis data`);
+        console.warn(`[GATHER] [${segmentId}] ⚠ Emphasis detection failed: ${error.message}`);
+        console.log(`[GATHER] [${segmentId}] → Continuing without emphasis data`);
         emphasisData = [];
       }
 
-      manifest.audio.push({
-        id: segmentId,
-        path: audioPath,
+      // 5. Generate TTS audio for segment (speaking notes and emphasis shape SSML prosody)
+      console.log(`[GATHER] [${segmentId}] → Generating TTS audio...`);
+
+      const ttsGenerator = isLibraryTestMode ? generateStubTTS : generateWithFallback;
+      const { audio: ttsResult, provider: ttsProviderUsed } = await ttsPool(() => ttsGenerator(cleanedText, {
+        speakingNotes: segment.speakingNotes,
+        emphasis: emphasisData,
+        lexicon,
+      }));
+      const audioPath = path.join(paths.assetsAudio, `${segmentId}.mp3`);
+      await fs.writeFile(audioPath, ttsResult.audioBuffer);
+      console.log(`[GATHER] [${segmentId}] → TTS generated using ${ttsProviderUsed}`);
+
+      console.log(`[GATHER] [${segmentId}] → Generated audio: ${ttsResult.durationMs}ms`);
+
+      // 6. Normalize loudness and trim silence so segments from different calls/voices match
+      let durationMs = ttsResult.durationMs;
+      let wordTimestamps = ttsResult.timestamps?.map(ts => ({
+        word: ts.word,
+        startMs: ts.startMs,
+        endMs: ts.endMs,
+      }));
+      let loudness: AssetManifest['audio'][number]['loudness'];
+      if (normalization?.enabled && !isLibraryTestMode) {
+        try {
+          const trimSilence = normalization.trimSilence?.enabled ? normalization.trimSilence : undefined;
+          const mastered = await masterNarration(audioPath, {
+            targetLufs: normalization.targetLufs,
+            truePeak: normalization.truePeak,
+            lra: normalization.lra,
+            trimSilence,
+            keepStartMs: wordTimestamps?.[0]?.startMs,
+            keepEndMs: wordTimestamps?.[wordTimestamps.length - 1]?.endMs,
+            ffmpegPath: process.env.FFMPEG_PATH,
+          });
+
+          durationMs = mastered.durationMs;
+          wordTimestamps = wordTimestamps?.map(ts => ({
+            word: ts.word,
+            startMs: Math.max(0, ts.startMs - mastered.trimmedLeadingMs),
+            endMs: Math.min(durationMs, ts.endMs - mastered.trimmedLeadingMs),
+          }));
+          loudness = {
+            measuredLufs: mastered.measuredLufs,
+            targetLufs: mastered.targetLufs,
+            trimmedLeadingMs: mastered.trimmedLeadingMs,
+            trimmedTrailingMs: mastered.trimmedTrailingMs,
+          };
+          console.log(
+            `[GATHER] [${segmentId}] → Normalized ${mastered.measuredLufs.toFixed(1)} → ${mastered.targetLufs} LUFS` +
+            ` (trimmed ${Math.round(mastered.trimmedLeadingMs)}ms/${Math.round(mastered.trimmedTrailingMs)}ms)`
+          );
+        } catch (error: any) {
+          // Graceful degradation: keep the unnormalized audio
+          console.warn(`[GATHER] [${segmentId}] ⚠ Loudness normalization failed: ${error.message}`);
+        }
+      }
+
+      // Checkpoint the finished segment so a later crash does not lose it
+      checkpoint.segments[segmentId] = {
         segmentId,
-        durationMs: ttsResult.durationMs,
-        wordTimestamps: ttsResult.timestamps?.map(ts => ({
-          word: ts.word,
-          startMs: ts.startMs,
-          endMs: ts.endMs,
-        })),
-        emphasis: emphasisData.length > 0 ? emphasisData : undefined,
-      });
+        textHash: hashSegmentText(segment.text, segment.speakingNotes),
+        tags: segmentAssetTags,
+        images: segmentImages,
+        videos: segmentVideos,
+        audio: {
+          id: segmentId,
+          path: audioPath,
+          segmentId,
+          durationMs,
+          wordTimestamps,
+          emphasis: emphasisData.length > 0 ? emphasisData : undefined,
+          loudness,
+        },
+        completedAt: new Date().toISOString(),
+      };
+      await checkpointWriter(() => saveGatherCheckpoint(paths.gatherCheckpoint, checkpoint));
+      console.log(`[GATHER] [${segmentId}] ✓ Checkpointed`);
+    };
+
+    // Segments finish in any order; the manifest is assembled in script order
+    await mapConcurrent(segmentIds.map((_, i) => i), segmentConcurrency, gatherSegment);
+
+    // Splice regathered segments into the existing output, leaving the rest untouched
+    if (existingOutput) {
+      const regathered = Array.from(targetSegments, (id) => checkpoint.segments[id]);
+      const output = replaceSegmentAssets(existingOutput, regathered, segmentIds);
+
+      await fs.writeFile(
+        paths.tags,
+        JSON.stringify(output, null, 2),
+        'utf-8'
+      );
+
+      console.log(`[GATHER] ✓ Regathered ${regathered.length} segment(s): ${Array.from(targetSegments).join(', ')}`);
+      console.log(`[GATHER] ✓ Output: ${paths.tags}`);
 
-      console.log(`[GATHER]   → Generated audio: ${ttsResult.durationMs}ms`);
+      await markStageCompleted(projectId, 'gather', { params: { preview, scrape } });
+      return;
     }
 
-    // 6. Download background music if enabled
+    const { tags: allTags, manifest } = assembleGatherOutput(checkpoint, segmentIds);
+
+    // 7. Download background music if enabled
     if (musicService && musicConfig.enabled && !preview) {
       console.log('[GATHER] Searching for background music...');
 
       const totalDuration = manifest.audio.reduce((sum, a) => sum + a.durationMs, 0) / 1000;
-      const musicTrack = await musicService.getDefaultMusic(totalDuration);
+      const defaultGenre = musicConfig.selection?.defaultGenre || 'ambient';
+
+      // Pick a mood from the refined topic and script tone
+      let moodProvider: AIProvider | undefined;
+      if (musicConfig.selection?.moodMatching?.enabled) {
+        const moodProviderName = musicConfig.selection.moodMatching.aiProvider;
+        moodProvider = isLibraryTestMode || !moodProviderName
+          ? aiProvider
+          : await AIProviderFactory.getProvider(moodProviderName).catch((error: any) => {
+            console.warn(`[GATHER]   ⚠ Mood provider ${moodProviderName} unavailable (${error.message}), using ${aiProvider.name}`);
+            return aiProvider;
+          });
+      }
+      const refinedTopic = await fs.readFile(paths.refined, 'utf-8')
+        .then((content) => JSON.parse(content).topic)
+        .catch(() => undefined);
+      const moodSelection = await selectMusicMood(
+        moodProvider,
+        { refinedTopic, script: scriptData },
+        defaultGenre
+      );
+      console.log(`[GATHER]   → Music mood: ${moodSelection.mood} (${moodSelection.source}) - ${moodSelection.reasoning}`);
+
+      // Several tracks so build can chain them or switch beds per chapter
+      const maxTracks = musicConfig.selection?.maxTracks ?? 1;
+      let musicTracks = await musicService.getBestTracks(moodSelection.mood, totalDuration, maxTracks);
+      if (musicTracks.length === 0 && moodSelection.source === 'ai') {
+        console.log(`[GATHER]   ⚠ No tracks for mood ${moodSelection.mood}, trying default genre ${defaultGenre}`);
+        musicTracks = await musicService.getBestTracks(defaultGenre, totalDuration, maxTracks);
+        if (musicTracks.length > 0) {
+          moodSelection.mood = defaultGenre;
+          moodSelection.reasoning = `No tracks for AI mood; using default genre. AI reasoning: ${moodSelection.reasoning}`;
+          moodSelection.source = 'default';
+        }
+      }
 
-      if (musicTrack) {
-        console.log(`[GATHER]   → Found music: ${musicTrack.title}`);
-        const musicPath = path.join(paths.assetsMusic, 'background.mp3');
+      for (let i = 0; i < musicTracks.length; i++) {
+        const musicTrack = musicTracks[i];
+        console.log(`[GATHER]   → Found music: ${musicTrack.title} (${Math.round(musicTrack.duration)}s)`);
+        const musicPath = path.join(paths.assetsMusic, i === 0 ? 'background.mp3' : `background-${i + 1}.mp3`);
 
         if (musicTrack.source === 'local') {
           // Copy from local library
@@ -930,13 +1156,34 @@ async function main(projectId?: string, preview = false, scrape = false) {
           await fs.copyFile(localPath, musicPath);
         }
 
-        manifest.music.push({
+        const musicEntry: AssetManifest['music'][number] = {
           id: musicTrack.id,
           path: musicPath,
           source: musicTrack.source,
           genre: musicTrack.mood || 'unknown',
-        });
-      } else {
+          durationMs: musicTrack.duration ? Math.round(musicTrack.duration * 1000) : undefined,
+          mood: moodSelection.mood,
+          moodReasoning: moodSelection.reasoning,
+          moodSource: moodSelection.source,
+        };
+
+        // Beat grid so build can cut backgrounds on the beat
+        const beatSync = musicConfig.beatSync;
+        if (beatSync?.enabled) {
+          try {
+            const grid = await detectBeats(musicPath, { minBpm: beatSync.minBpm, maxBpm: beatSync.maxBpm });
+            musicEntry.beats = { bpm: grid.bpm, confidence: grid.confidence, beatsMs: grid.beatsMs };
+            musicEntry.durationMs = musicEntry.durationMs ?? grid.durationMs;
+            console.log(`[GATHER]   ✓ Beat grid: ${grid.bpm} BPM, ${grid.beatsMs.length} beats (confidence ${grid.confidence})`);
+          } catch (error: any) {
+            console.warn(`[GATHER]   ⚠ Beat detection failed for ${path.basename(musicPath)}: ${error.message}`);
+          }
+        }
+
+        manifest.music.push(musicEntry);
+      }
+
+      if (musicTracks.length === 0) {
         console.log('[GATHER]   ⚠ No suitable music found');
       }
     }
@@ -969,15 +1216,18 @@ async function main(projectId?: string, preview = false, scrape = false) {
       console.log(`[GATHER] Preview mode: processed ${segmentsToProcess} of ${totalSegments} segments`);
     }
 
-    await localRepo?.dispose();
-    process.exit(0);
+    await markStageCompleted(projectId, 'gather', { params: { preview, scrape } });
   } catch (error: any) {
     console.error('[GATHER] ✗ Error:', error.message);
     if (error.stack) {
       console.error(error.stack);
     }
+    if (projectId) {
+      await markStageFailed(projectId, 'gather', error);
+    }
+    throw error;
+  } finally {
     await localRepo?.dispose();
-    process.exit(1);
   }
 }
 
@@ -992,6 +1242,8 @@ if (!projectId && args.length > 0 && !args[0].startsWith('--')) {
 }
 const preview = args.includes('--preview');
 const scrape = args.includes('--scrape');
+const force = args.includes('--force');
+const segments = args.flatMap((arg, idx) => (arg === '--segment' && args[idx + 1] ? [args[idx + 1]] : []));
 
 function createMockAIProvider(): AIProvider {
   return {
@@ -1049,7 +1301,7 @@ async function generateStubTTS(text: string) {
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId, preview, scrape);
+  main(projectId, preview, scrape, force, segments).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
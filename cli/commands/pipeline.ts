@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+/**
+ * Pipeline Orchestrator
+ *
+ * Runs the pipeline stages (discover → render) in order for a single project.
+ * Stages whose inputs are unchanged since their last run (pipeline-state.json)
+ * are skipped unless --force is given.
+ * Usage:
+ *   npm run pipeline -- --project <id> [--from <stage>] [--to <stage>] [--preview] [--scrape] [--quality <preset>] [--force]
+ */
+
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+dotenv.config(); // Fallback to .env
+import discover from './discover';
+import curate from './curate';
+import refine from './refine';
+import script from './script';
+import gather from './gather';
+import build from './build';
+import render from './render';
+import { PIPELINE_STAGES, PipelineError, PipelineStage, resolveStageRange } from '../lib/pipeline';
+import { getStageFreshness } from '../lib/pipeline-state';
+
+export interface PipelineOptions {
+  projectId?: string;
+  from?: string;
+  to?: string;
+  geo?: string;
+  limit?: number;
+  topicIndex?: number;
+  interactive?: boolean;
+  preview?: boolean;
+  scrape?: boolean;
+  quality?: string;
+  output?: string;
+  force?: boolean;
+}
+
+/**
+ * Options recorded in pipeline-state.json that change a stage's output
+ */
+function stageParams(stage: PipelineStage, options: PipelineOptions): Record<string, unknown> | undefined {
+  switch (stage) {
+    case 'gather':
+      return { preview: !!options.preview, scrape: !!options.scrape };
+    case 'render':
+      return { quality: options.quality, output: options.output, preview: !!options.preview };
+    default:
+      return undefined;
+  }
+}
+
+async function runStage(stage: PipelineStage, projectId: string, options: PipelineOptions): Promise<void> {
+  switch (stage) {
+    case 'discover':
+      await discover({ projectId, geo: options.geo, limit: options.limit });
+      return;
+    case 'curate':
+      await curate(projectId, { auto: !options.interactive, index: options.topicIndex });
+      return;
+    case 'refine':
+      await refine(projectId);
+      return;
+    case 'script':
+      await script(projectId);
+      return;
+    case 'gather':
+      await gather(projectId, !!options.preview, !!options.scrape, options.force);
+      return;
+    case 'build':
+      await build(projectId, { force: options.force });
+      return;
+    case 'render':
+      await render(projectId, options.quality, options.output, options.preview, options.force);
+      return;
+  }
+}
+
+async function main(options: PipelineOptions = {}): Promise<string> {
+  try {
+    const stages = resolveStageRange(options.from, options.to);
+
+    if (!options.projectId && stages[0] !== 'discover') {
+      console.log('[PIPELINE] Usage: npm run pipeline -- --project <project-id> [--from <stage>] [--to <stage>]');
+      console.log(`[PIPELINE] Stages: ${PIPELINE_STAGES.join(', ')}`);
+      throw new PipelineError('Missing required argument --project <id> (only optional when starting from discover)');
+    }
+
+    const projectId = options.projectId || `project-${Date.now()}`;
+
+    console.log(`[PIPELINE] Project: ${projectId}`);
+    console.log(`[PIPELINE] Stages: ${stages.join(' → ')}`);
+
+    const pipelineStart = Date.now();
+    let skipped = 0;
+
+    for (const [idx, stage] of stages.entries()) {
+      console.log('');
+      console.log(`[PIPELINE] ▶ Stage ${idx + 1}/${stages.length}: ${stage}`);
+
+      if (!options.force) {
+        const freshness = await getStageFreshness(projectId, stage, stageParams(stage, options));
+        if (freshness.upToDate) {
+          console.log(`[PIPELINE] ✓ Stage ${stage} is up to date, skipping (use --force to re-run)`);
+          skipped++;
+          continue;
+        }
+        if (freshness.reason !== 'never run') {
+          console.log(`[PIPELINE]   → Re-running ${stage}: ${freshness.reason}`);
+        }
+      }
+
+      const stageStart = Date.now();
+
+      try {
+        await runStage(stage, projectId, options);
+      } catch (error: any) {
+        console.log(`[PIPELINE] Resume with: npm run pipeline -- --project ${projectId} --from ${stage}`);
+        throw new PipelineError(`Stage "${stage}" failed: ${error.message}`, stage, error);
+      }
+
+      const elapsedSeconds = ((Date.now() - stageStart) / 1000).toFixed(1);
+      console.log(`[PIPELINE] ✓ Stage ${stage} completed in ${elapsedSeconds}s`);
+    }
+
+    const totalSeconds = ((Date.now() - pipelineStart) / 1000).toFixed(1);
+    console.log('');
+    console.log(`[PIPELINE] ✓ Completed ${stages.length - skipped} stage(s) in ${totalSeconds}s (${skipped} up to date)`);
+    console.log(`[PIPELINE] ✓ Project: ${projectId}`);
+
+    return projectId;
+  } catch (error: any) {
+    console.error('[PIPELINE] ✗ Error:', error.message);
+    throw error;
+  }
+}
+
+// Parse CLI args
+const args = process.argv.slice(2);
+
+function getArg(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+const limitArg = getArg('--limit');
+const indexArg = getArg('--index');
+
+const options: PipelineOptions = {
+  projectId: getArg('--project'),
+  from: getArg('--from'),
+  to: getArg('--to'),
+  geo: getArg('--geo'),
+  limit: limitArg !== undefined ? parseInt(limitArg, 10) : undefined,
+  topicIndex: indexArg !== undefined ? parseInt(indexArg, 10) : undefined,
+  interactive: args.includes('--interactive'),
+  preview: args.includes('--preview'),
+  scrape: args.includes('--scrape'),
+  quality: getArg('--quality'),
+  output: getArg('--output'),
+  force: args.includes('--force'),
+};
+
+// Run if called directly
+if (require.main === module) {
+  main(options).then(() => process.exit(0), () => process.exit(1));
+}
+
+export default main;
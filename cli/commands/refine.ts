@@ -13,6 +13,7 @@ dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
 import { ConfigManager } from '../lib/config';
 import { getProjectPaths } from '../../src/lib/paths';
+import { markStageCompleted, markStageFailed } from '../lib/pipeline-state';
 import { refineTopicPrompt } from '../../config/prompts';
 
 export interface RefinedTopic {
@@ -30,14 +31,13 @@ export interface RefinedTopicOutput {
   refinedAt: string;
 }
 
-async function main(projectId?: string) {
+async function main(projectId?: string): Promise<void> {
   try {
     console.log('[REFINE] Starting topic refinement...');
 
     if (!projectId) {
-      console.error('[REFINE] ✗ Error: Missing required argument --project <id>');
       console.log('[REFINE] Usage: npm run refine -- --project <project-id>');
-      process.exit(1);
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -45,9 +45,8 @@ async function main(projectId?: string) {
     // Check if selected.json exists
     const selectedExists = await fs.access(paths.selected).then(() => true).catch(() => false);
     if (!selectedExists) {
-      console.error(`[REFINE] ✗ Error: selected.json not found at ${paths.selected}`);
       console.log('[REFINE] Please run: npm run curate');
-      process.exit(1);
+      throw new Error(`selected.json not found at ${paths.selected}`);
     }
 
     // Load configuration
@@ -118,10 +117,13 @@ async function main(projectId?: string) {
     console.log(`[REFINE] ✓ Target duration: ${output.topic.suggestedDuration}s`);
     console.log(`[REFINE] ✓ Output: ${paths.refined}`);
 
-    process.exit(0);
+    await markStageCompleted(projectId, 'refine');
   } catch (error: any) {
     console.error('[REFINE] ✗ Error:', error.message);
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'refine', error);
+    }
+    throw error;
   }
 }
 
@@ -140,7 +142,7 @@ if (projectIdIndex !== -1) {
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId);
+  main(projectId).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
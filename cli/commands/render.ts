@@ -2,28 +2,55 @@
 /**
  * Stage 7: Video Rendering
  *
- * Renders the video using Remotion with the assembled timeline.
- * Outputs: output.mp4 (or custom path)
+ * Bundles the Remotion project and renders the assembled timeline with
+ * renderMedia. Long renders are split into chunks at segment boundaries,
+ * rendered in parallel and joined (rendering.chunking in video.config.json).
+ * The output is then verified with ffprobe and black/silence detection.
+ * Outputs: output.mp4 (or custom path), render-report.json
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import * as dotenv from 'dotenv';
 
 dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
-import { ConfigManager } from '../lib/config';
+import { ConfigManager, MusicConfig } from '../lib/config';
 import { getProjectPaths } from '../../src/lib/paths';
-
-async function main(projectId?: string, quality?: string, output?: string, preview?: boolean) {
+import { INTRO_DURATION_MS } from '../../src/lib/constants';
+import { assertUpstreamFresh, markStageCompleted, markStageFailed } from '../lib/pipeline-state';
+import { masterMix } from '../services/audio/loudness';
+import {
+  bundleProject,
+  createCancellation,
+  getRenderReportPath,
+  hashRenderSources,
+  loadComposition,
+  planChunks,
+  renderChunked,
+  renderComposition,
+  RenderError,
+  RenderReport,
+  RenderResult,
+  toEncoderSettings,
+  verifyRender,
+  writeRenderReport,
+} from '../services/render';
+
+async function main(
+  projectId?: string,
+  quality?: string,
+  output?: string,
+  preview?: boolean,
+  force = false
+): Promise<void> {
   try {
     console.log('[RENDER] Starting video rendering...');
 
     if (!projectId) {
-      console.error('[RENDER] ✗ Error: Missing required argument --project <id>');
-      console.log('[RENDER] Usage: npm run render:project -- --project <project-id> [--quality draft|medium|high|production] [--output path/to/output.mp4] [--preview]');
-      process.exit(1);
+      console.log('[RENDER] Usage: npm run render:project -- --project <project-id> [--quality draft|medium|high|production] [--output path/to/output.mp4] [--preview] [--force]');
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -32,20 +59,21 @@ async function main(projectId?: string, quality?: string, output?: string, previ
     const timelineExists = await fs.access(paths.timeline).then(() => true).catch(() => false);
 
     if (!timelineExists) {
-      console.error(`[RENDER] ✗ Error: timeline.json not found at ${paths.timeline}`);
       console.log('[RENDER] Please run: npm run build:timeline');
-      process.exit(1);
+      throw new Error(`timeline.json not found at ${paths.timeline}`);
     }
 
+    // Refuse to spend a long render on an out-of-date timeline
+    await assertUpstreamFresh(projectId, 'render', force);
+
     // Load configuration
     const videoConfig = await ConfigManager.loadVideoConfig();
     const renderQuality = quality || videoConfig.rendering?.defaultQuality || 'draft';
     const qualitySettings = videoConfig.rendering?.qualities?.[renderQuality];
 
     if (!qualitySettings) {
-      console.error(`[RENDER] ✗ Error: Unknown quality preset: ${renderQuality}`);
       console.log('[RENDER] Available: draft, medium, high, production');
-      process.exit(1);
+      throw new Error(`Unknown quality preset: ${renderQuality}`);
     }
 
     console.log(`[RENDER] Project: ${projectId}`);
@@ -53,7 +81,8 @@ async function main(projectId?: string, quality?: string, output?: string, previ
     console.log(`[RENDER] Quality: ${renderQuality} (crf=${qualitySettings.crf}, preset=${qualitySettings.preset})`);
 
     // Read timeline to get metadata
-    const timeline = JSON.parse(await fs.readFile(paths.timeline, 'utf-8'));
+    const timelineContent = await fs.readFile(paths.timeline, 'utf-8');
+    const timeline = JSON.parse(timelineContent);
     const aspectRatio = timeline.aspectRatio || videoConfig.defaultAspectRatio;
     const durationSeconds = timeline.durationSeconds || (timeline.audio?.[timeline.audio.length - 1]?.endMs / 1000) || 60;
     const fps = videoConfig.aspectRatios?.[aspectRatio]?.fps || 30;
@@ -70,122 +99,260 @@ async function main(projectId?: string, quality?: string, output?: string, previ
     const outputPath = output || path.join(paths.root, preview ? 'preview.mp4' : 'output.mp4');
     console.log(`[RENDER] Output: ${outputPath}`);
 
-    // Build Remotion render command
-    const args = [
-      'remotion',
-      'render',
+    const encoder = toEncoderSettings(qualitySettings, videoConfig.rendering?.concurrency ?? 4);
+    const frameRange: [number, number] | null = preview ? [0, 10 * fps - 1] : null;
+    const timeoutMs = (videoConfig.rendering?.timeoutMinutes ?? 60) * 60 * 1000;
+    const reportPath = getRenderReportPath(outputPath);
+    const startedAt = new Date();
+    const report: RenderReport = {
       projectId,
-      outputPath,
-      '--codec', qualitySettings.codec,
-      '--audio-codec', 'aac',
-      '--audio-bitrate', qualitySettings.audioBitrate,
-      '--concurrency', videoConfig.rendering?.concurrency?.toString() || '4',
-    ];
-
-    // Add codec-specific settings
-    if (qualitySettings.codec === 'h264' || qualitySettings.codec === 'h265') {
-      args.push('--crf', qualitySettings.crf.toString());
-    } else if (qualitySettings.codec === 'prores') {
-      args.push('--prores-profile', qualitySettings.preset || 'standard');
-    }
-
-    // Add preview frame limit (10 seconds)
-    if (preview) {
-      const previewFrames = 10 * fps;
-      args.push('--frames', `0-${previewFrames}`);
-    }
-
-    console.log('[RENDER] Running Remotion render...');
-    console.log(`[RENDER] Command: npx ${args.join(' ')}`);
-
-    // Execute Remotion render
-    const renderResult = await new Promise<{ code: number; output: string }>((resolve, reject) => {
-      const childProcess = spawn('npx', args, {
-        cwd: path.resolve(__dirname, '../..'),
-        env: { ...process.env },
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-
-      let output = '';
-      let lastProgressLine = '';
-
-      childProcess.stdout?.on('data', (data) => {
-        const text = data.toString();
-        output += text;
-
-        // Show progress
-        const lines = text.split('\n');
-        for (const line of lines) {
-          if (line.trim()) {
-            if (line.includes('Rendered') || line.includes('frame') || line.includes('%')) {
-              // Progress line - overwrite previous
-              if (lastProgressLine) {
-                process.stdout.write('\r' + ' '.repeat(lastProgressLine.length) + '\r');
-              }
-              process.stdout.write('[RENDER]   ' + line.trim());
-              lastProgressLine = line.trim();
-            } else {
-              // Regular line - print normally
-              if (lastProgressLine) {
-                console.log(''); // New line after progress
-                lastProgressLine = '';
-              }
-              console.log('[RENDER]   ' + line.trim());
-            }
-          }
+      compositionId: projectId,
+      status: 'failed',
+      output: path.resolve(outputPath),
+      quality: renderQuality,
+      startedAt: startedAt.toISOString(),
+      finishedAt: startedAt.toISOString(),
+      elapsedMs: 0,
+      encoder,
+    };
+
+    // Ctrl+C cancels the render cleanly instead of killing the browser mid-frame
+    const cancellation = createCancellation();
+    const onInterrupt = () => {
+      console.log('\n[RENDER] ⚠ Cancelling render...');
+      cancellation.cancel();
+    };
+    process.once('SIGINT', onInterrupt);
+
+    try {
+      console.log('[RENDER] → Bundling Remotion project...');
+      let lastBundlePercent = -1;
+      const serveUrl = await bundleProject(path.resolve(__dirname, '../../src/index.ts'), (percent) => {
+        const step = Math.floor(percent / 25) * 25;
+        if (step > lastBundlePercent) {
+          lastBundlePercent = step;
+          console.log(`[RENDER]   Bundling ${step}%`);
         }
       });
 
-      childProcess.stderr?.on('data', (data) => {
-        const text = data.toString();
-        output += text;
-        if (text.trim()) {
-          console.error('[RENDER]   ' + text.trim());
+      const composition = await loadComposition(serveUrl, projectId, timeoutMs);
+      let lastProgressLine = '';
+      const writeProgress = (line: string) => {
+        // Progress line - overwrite previous
+        if (line !== lastProgressLine) {
+          process.stdout.write('\r' + line.padEnd(lastProgressLine.length));
+          lastProgressLine = line;
         }
-      });
-
-      childProcess.on('close', (code) => {
-        if (lastProgressLine) {
-          console.log(''); // Final new line
+      };
+
+      // Chunks are joined by stream copy, which needs a concat-friendly codec
+      const chunking = videoConfig.rendering?.chunking;
+      const boundaryFrames = (timeline.audio || []).map((segment: { startMs: number }) =>
+        Math.round((segment.startMs / 1000) * composition.fps)
+      );
+      const plan = chunking?.enabled && !preview && (encoder.codec === 'h264' || encoder.codec === 'h265')
+        ? planChunks(composition.durationInFrames, boundaryFrames, {
+          chunks: chunking.chunks,
+          minChunkFrames: Math.round(chunking.minChunkSeconds * composition.fps),
+        })
+        : [];
+
+      let result: RenderResult;
+      if (chunking && plan.length > 1) {
+        const workers = Math.min(chunking.workers, plan.length);
+        console.log(`[RENDER] → Rendering ${plan.length} chunks with ${encoder.codec} (${workers} workers)...`);
+        const chunked = await renderChunked({
+          serveUrl,
+          composition,
+          outputLocation: outputPath,
+          encoder,
+          workDir: path.join(paths.root, 'render-chunks'),
+          boundaryFrames,
+          chunks: chunking.chunks,
+          workers,
+          minChunkFrames: Math.round(chunking.minChunkSeconds * composition.fps),
+          maxAttempts: chunking.maxAttempts,
+          cacheKey: createHash('sha256')
+            .update(timelineContent)
+            .update(JSON.stringify(encoder))
+            .update(await hashRenderSources([
+              path.resolve(__dirname, '../../src'),
+              path.resolve(__dirname, '../../config/video.config.json'),
+            ]))
+            .digest('hex'),
+          cancelSignal: cancellation.cancelSignal,
+          isCancelled: cancellation.isCancelled,
+          timeoutMs,
+          ffmpegPath: process.env.FFMPEG_PATH,
+          onProgress: ({ renderedFrames, totalFrames, chunksDone, chunkCount }) => {
+            writeProgress(`[RENDER]   ${Math.round((renderedFrames / totalFrames) * 100)}% - rendered ${renderedFrames}/${totalFrames} frames, ${chunksDone}/${chunkCount} chunks done`);
+          },
+          onChunk: (chunk) => {
+            if (chunk.status === 'failed') {
+              writeProgress(`[RENDER]   ⚠ Chunk ${chunk.index + 1} failed (attempt ${chunk.attempts}/${chunking.maxAttempts}): ${chunk.error}`);
+              console.log('');
+              lastProgressLine = '';
+            }
+          },
+        });
+        if (chunked.reusedChunks > 0) {
+          console.log(`${lastProgressLine ? '\n' : ''}[RENDER]   Reused ${chunked.reusedChunks} chunk(s) from an earlier run`);
+          lastProgressLine = '';
         }
-        resolve({ code: code || 0, output });
-      });
-
-      childProcess.on('error', (error) => {
-        reject(error);
-      });
-    });
-
-    if (renderResult.code !== 0) {
-      console.error('[RENDER] ✗ Rendering failed');
-      process.exit(1);
+        report.chunks = {
+          count: chunked.chunks.length,
+          workers,
+          reused: chunked.reusedChunks,
+          ranges: chunked.chunks.map(({ startFrame, endFrame, attempts }) => ({ startFrame, endFrame, attempts })),
+        };
+        result = chunked;
+      } else {
+        console.log(`[RENDER] → Rendering with ${encoder.codec} (concurrency ${encoder.concurrency})...`);
+        result = await renderComposition(
+          {
+            serveUrl,
+            compositionId: projectId,
+            composition,
+            outputLocation: outputPath,
+            encoder,
+            frameRange,
+            cancelSignal: cancellation.cancelSignal,
+            timeoutMs,
+            onProgress: ({ progress, renderedFrames, encodedFrames, totalFrames, stage }) => {
+              writeProgress(`[RENDER]   ${Math.round(progress * 100)}% - rendered ${renderedFrames}/${totalFrames}, encoded ${encodedFrames}/${totalFrames} frames${stage === 'muxing' ? ' (muxing)' : ''}`);
+            },
+          },
+          cancellation.isCancelled
+        );
+      }
+      if (lastProgressLine) {
+        console.log(''); // Final new line
+      }
+
+      report.frames = { total: result.durationInFrames, rendered: result.renderedFrames, range: result.frameRange };
+      report.video = {
+        width: result.width,
+        height: result.height,
+        fps: result.fps,
+        durationSeconds: Math.round((result.renderedFrames / result.fps) * 100) / 100,
+      };
+    } catch (error: any) {
+      report.status = error instanceof RenderError && error.cancelled ? 'cancelled' : 'failed';
+      report.error = error.message;
+      report.finishedAt = new Date().toISOString();
+      report.elapsedMs = Date.now() - startedAt.getTime();
+      await writeRenderReport(reportPath, report).catch(() => undefined);
+      throw error;
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
     }
 
     // Verify output file exists
     const outputExists = await fs.access(outputPath).then(() => true).catch(() => false);
     if (!outputExists) {
-      console.error('[RENDER] ✗ Output file was not created');
-      process.exit(1);
+      throw new Error('Output file was not created');
+    }
+
+    // Final mix: bring the whole video to the target loudness
+    let musicConfig: MusicConfig | undefined;
+    try {
+      musicConfig = await ConfigManager.loadMusicConfig();
+    } catch (error: any) {
+      console.log(`[RENDER] ⚠ Could not load music config, skipping final mix: ${error.message}`);
+    }
+    const normalization = musicConfig?.audio?.normalization;
+    if (normalization?.enabled && normalization.finalMix) {
+      console.log(`[RENDER] → Mastering final mix to ${normalization.targetLufs} LUFS...`);
+      try {
+        const measuredLufs = await masterMix(outputPath, {
+          targetLufs: normalization.targetLufs,
+          truePeak: normalization.truePeak,
+          lra: normalization.lra,
+          audioBitrate: qualitySettings.audioBitrate,
+          ffmpegPath: process.env.FFMPEG_PATH,
+          timeoutMs,
+        });
+        console.log(`[RENDER] ✓ Final mix: ${measuredLufs.toFixed(1)} → ${normalization.targetLufs} LUFS`);
+      } catch (error: any) {
+        // The render itself succeeded; keep the unmastered output
+        console.warn(`[RENDER] ⚠ Final mix failed, keeping unmastered audio: ${error.message}`);
+      }
     }
 
     // Get output file stats
     const stats = await fs.stat(outputPath);
     const fileSizeMB = (stats.size / 1024 / 1024).toFixed(2);
+    report.fileSizeBytes = stats.size;
+
+    // Verify the file against the timeline and aspect ratio config
+    const verification = videoConfig.rendering?.verification;
+    const dimensions = videoConfig.aspectRatios?.[aspectRatio];
+    if (verification?.enabled && dimensions) {
+      console.log('[RENDER] → Verifying output...');
+      try {
+        report.verification = await verifyRender(
+          outputPath,
+          {
+            durationSeconds: preview
+              ? report.video?.durationSeconds ?? 10
+              : durationSeconds + INTRO_DURATION_MS / 1000,
+            width: dimensions.width,
+            height: dimensions.height,
+            fps,
+          },
+          {
+            ...verification,
+            ffmpegPath: process.env.FFMPEG_PATH,
+            ffprobePath: process.env.FFPROBE_PATH,
+            timeoutMs,
+          }
+        );
+      } catch (error: any) {
+        // Missing ffprobe/ffmpeg is not a problem with the render itself
+        console.warn(`[RENDER] ⚠ Could not verify output: ${error.message}`);
+      }
+
+      for (const check of report.verification?.checks || []) {
+        const marker = check.status === 'pass' ? '✓' : check.status === 'warn' ? '⚠' : '✗';
+        console.log(`[RENDER]   ${marker} ${check.message}`);
+      }
+      if (report.verification && !report.verification.passed) {
+        const failed = report.verification.checks.filter((check) => check.status === 'fail');
+        report.status = 'failed';
+        report.error = `Verification failed: ${failed.map((check) => check.message).join('; ')}`;
+        report.finishedAt = new Date().toISOString();
+        report.elapsedMs = Date.now() - startedAt.getTime();
+        await writeRenderReport(reportPath, report);
+        throw new Error(report.error);
+      }
+    }
+
+    report.status = 'completed';
+    report.finishedAt = new Date().toISOString();
+    report.elapsedMs = Date.now() - startedAt.getTime();
+    await writeRenderReport(reportPath, report);
 
     console.log('[RENDER] ✓ Rendering complete!');
     console.log(`[RENDER] ✓ Output: ${outputPath}`);
     console.log(`[RENDER] ✓ File size: ${fileSizeMB} MB`);
     console.log(`[RENDER] ✓ Duration: ${durationSeconds}s`);
+    console.log(`[RENDER] ✓ Report: ${reportPath}`);
 
     if (preview) {
       console.log('[RENDER] Note: Preview mode - only first 10 seconds rendered');
       console.log('[RENDER] To render full video: npm run render:project -- --project ' + projectId);
     }
 
-    process.exit(0);
+    await markStageCompleted(projectId, 'render', {
+      params: { quality, output, preview: !!preview },
+      outputs: [path.resolve(outputPath)],
+    });
   } catch (error: any) {
     console.error('[RENDER] ✗ Error:', error.message);
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'render', error);
+    }
+    throw error;
   }
 }
 
@@ -201,10 +368,11 @@ const outputIndex = args.indexOf('--output');
 const output = outputIndex !== -1 ? args[outputIndex + 1] : undefined;
 
 const preview = args.includes('--preview');
+const force = args.includes('--force');
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId, quality, output, preview);
+  main(projectId, quality, output, preview, force).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
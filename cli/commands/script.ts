@@ -14,6 +14,7 @@ dotenv.config({ path: '.env.local' });
 dotenv.config(); // Fallback to .env
 import { ConfigManager } from '../lib/config';
 import { getProjectPaths, ensureProjectDirs } from '../../src/lib/paths';
+import { markStageCompleted, markStageFailed } from '../lib/pipeline-state';
 import { AIProviderFactory } from '../services/ai';
 import { z } from 'zod';
 import { generateScriptPrompt } from '../../config/prompts';
@@ -24,6 +25,7 @@ export interface ScriptSegment {
   text: string;
   estimatedDurationMs: number;
   speakingNotes?: string;
+  chapter?: string;
 }
 
 export interface ScriptOutput {
@@ -40,17 +42,17 @@ const ScriptGenerationSchema = z.object({
     text: z.string(),
     speakingNotes: z.string().optional(),
     estimatedDurationMs: z.number(),
+    chapter: z.string().optional(),
   })),
 });
 
-async function main(projectId?: string) {
+async function main(projectId?: string): Promise<void> {
   try {
     console.log('[SCRIPT] Starting script generation...');
 
     if (!projectId) {
-      console.error('[SCRIPT] ✗ Error: Missing required argument --project <id>');
       console.log('[SCRIPT] Usage: npm run script -- --project <project-id>');
-      process.exit(1);
+      throw new Error('Missing required argument --project <id>');
     }
 
     const paths = getProjectPaths(projectId);
@@ -59,9 +61,8 @@ async function main(projectId?: string) {
     // Check if refined.json exists
     const refinedExists = await fs.access(paths.refined).then(() => true).catch(() => false);
     if (!refinedExists) {
-      console.error(`[SCRIPT] ✗ Error: refined.json not found at ${paths.refined}`);
       console.log('[SCRIPT] Please run: npm run refine');
-      process.exit(1);
+      throw new Error(`refined.json not found at ${paths.refined}`);
     }
 
     // Load configuration
@@ -105,6 +106,7 @@ async function main(projectId?: string) {
         text: seg.text,
         estimatedDurationMs: seg.estimatedDurationMs,
         speakingNotes: seg.speakingNotes,
+        chapter: seg.chapter,
       })),
       generatedAt: new Date().toISOString(),
     };
@@ -127,13 +129,16 @@ async function main(projectId?: string) {
     console.log(`[SCRIPT] ✓ Total duration: ${totalSeconds}s (${Math.floor(totalSeconds / 60)}m ${Math.floor(totalSeconds % 60)}s)`);
     console.log(`[SCRIPT] ✓ Output: ${scriptPath}`);
 
-    process.exit(0);
+    await markStageCompleted(projectId, 'script');
   } catch (error: any) {
     console.error('[SCRIPT] ✗ Error:', error.message);
     if (error.stack) {
       console.error(error.stack);
     }
-    process.exit(1);
+    if (projectId) {
+      await markStageFailed(projectId, 'script', error);
+    }
+    throw error;
   }
 }
 
@@ -152,7 +157,7 @@ if (projectIdIndex !== -1) {
 
 // Run if called directly
 if (require.main === module) {
-  main(projectId);
+  main(projectId).then(() => process.exit(0), () => process.exit(1));
 }
 
 export default main;
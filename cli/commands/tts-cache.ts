@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+/**
+ * Show TTS cache stats and prune expired entries.
+ * Usage:
+ *   npm run tts:cache                        # show stats
+ *   npm run tts:cache -- --prune [--dry-run] # delete expired entries
+ *   npm run tts:cache -- --clear [--dry-run] # delete every entry
+ */
+import * as dotenv from 'dotenv';
+import { ConfigManager } from '../lib/config';
+import { TTSCache, DEFAULT_TTS_CACHE_DIR, DEFAULT_TTS_CACHE_TTL_SECONDS } from '../services/tts/tts-cache';
+
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const clear = args.includes('--clear');
+  const prune = clear || args.includes('--prune');
+
+  try {
+    const config = await ConfigManager.loadTTSConfig();
+    const caching = config.caching;
+    const ttlSeconds = caching?.ttlSeconds ?? DEFAULT_TTS_CACHE_TTL_SECONDS;
+    const cache = new TTSCache(caching?.directory || DEFAULT_TTS_CACHE_DIR, ttlSeconds);
+
+    if (prune) {
+      const result = await cache.prune({ all: clear, dryRun });
+      const action = dryRun ? '[tts:cache] (dry-run)' : '[tts:cache]';
+      console.log(`${action} ${clear ? 'Cleared' : 'Pruned'} ${result.removed} entries, freed ${formatBytes(result.freedBytes)}`);
+      return;
+    }
+
+    const stats = await cache.stats();
+    console.log('TTS Cache');
+    console.log('---------');
+    console.log(`Directory: ${stats.directory}`);
+    console.log(`Caching: ${caching?.enabled ? 'enabled' : 'disabled'} (TTL ${Math.round(ttlSeconds / 86400)} days)`);
+    console.log(`Entries: ${stats.entries} (${formatBytes(stats.totalBytes)})`);
+    console.log(`Expired: ${stats.expired}`);
+    for (const [provider, { entries, bytes }] of Object.entries(stats.byProvider)) {
+      console.log(`  ${provider}: ${entries} (${formatBytes(bytes)})`);
+    }
+    if (stats.oldest && stats.newest) {
+      console.log(`Oldest: ${stats.oldest}`);
+      console.log(`Newest: ${stats.newest}`);
+    }
+  } catch (error: any) {
+    console.error('[tts:cache] Failed:', error.message);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  void main();
+}
+
+export default main;
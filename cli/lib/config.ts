@@ -39,7 +39,12 @@ const TTSConfigSchema = z.object({
   caching: z.object({
     enabled: z.boolean().default(true),
     ttlSeconds: z.number().default(2592000),
+    directory: z.string().optional(),
   }).optional(),
+  timeoutMs: z.number().optional(),
+  concurrency: z.object({
+    maxConcurrent: z.number().int().positive().default(2),
+  }).default({ maxConcurrent: 2 }),
 });
 
 export type TTSConfig = z.infer<typeof TTSConfigSchema>;
@@ -100,6 +105,11 @@ const StockAssetsConfigSchema = z.object({
     similarityThreshold: z.number().default(0.85),
     checkPreviousProjects: z.boolean().default(false),
   }).optional(),
+  concurrency: z.object({
+    segments: z.number().int().positive().default(3),
+    aiCalls: z.number().int().positive().default(2),
+    searches: z.number().int().positive().default(3),
+  }).default({ segments: 3, aiCalls: 2, searches: 3 }),
   download: z.object({
     maxConcurrent: z.number().default(5),
     timeoutMs: z.number().default(30000),
@@ -138,6 +148,12 @@ const MusicConfigSchema = z.object({
       allowLooping: z.boolean().default(true),
       fadeInMs: z.number().default(2000),
       fadeOutMs: z.number().default(3000),
+      crossfadeMs: z.number().default(3000),
+    }).optional(),
+    maxTracks: z.number().int().min(1).default(3),
+    chapterBeds: z.object({
+      enabled: z.boolean().default(false),
+      minChapterMs: z.number().default(60000),
     }).optional(),
   }).optional(),
   audio: z.object({
@@ -149,9 +165,24 @@ const MusicConfigSchema = z.object({
     normalization: z.object({
       enabled: z.boolean().default(true),
       targetLufs: z.number().default(-16),
+      truePeak: z.number().default(-1.5),
+      lra: z.number().default(11),
+      trimSilence: z.object({
+        enabled: z.boolean().default(true),
+        thresholdDb: z.number().default(-50),
+        minSilenceMs: z.number().default(150),
+        paddingMs: z.number().default(80),
+      }).optional(),
+      finalMix: z.boolean().default(true),
     }).optional(),
     defaultVolume: z.number().default(0.3),
   }).optional(),
+  beatSync: z.object({
+    enabled: z.boolean().default(false),
+    toleranceMs: z.number().min(0).default(250),
+    minBpm: z.number().positive().default(70),
+    maxBpm: z.number().positive().default(180),
+  }).optional(),
   download: z.object({
     maxConcurrent: z.number().default(3),
     timeoutMs: z.number().default(60000),
@@ -188,6 +219,22 @@ const VideoConfigSchema = z.object({
     qualities: z.record(z.any()).optional(),
     concurrency: z.number().default(4),
     timeoutMinutes: z.number().default(60),
+    chunking: z.object({
+      enabled: z.boolean().default(false),
+      chunks: z.number().int().min(1).default(4),
+      workers: z.number().int().min(1).default(2),
+      minChunkSeconds: z.number().default(60),
+      maxAttempts: z.number().int().min(1).default(2),
+    }).optional(),
+    verification: z.object({
+      enabled: z.boolean().default(true),
+      durationToleranceSeconds: z.number().default(1.5),
+      blackMinSeconds: z.number().default(2),
+      failBlackSeconds: z.number().default(5),
+      silenceMinSeconds: z.number().default(3),
+      failSilenceSeconds: z.number().default(8),
+      silenceNoiseDb: z.number().default(-50),
+    }).optional(),
   }).optional(),
   intro: z.object({
     enabled: z.boolean().default(true),
@@ -200,8 +247,44 @@ const VideoConfigSchema = z.object({
     defaultExit: z.string().default('fade'),
     durationMs: z.number().default(500),
     available: z.array(z.string()).optional(),
+    cuts: z.object({
+      enabled: z.boolean().default(false),
+      mode: z.enum(['per-cut', 'per-segment']).default('per-cut'),
+      types: z.array(z.enum(['crossfade', 'slide', 'wipe', 'zoom'])).default(['crossfade', 'slide', 'wipe', 'zoom']),
+    }).optional(),
+  }).optional(),
+  videoClips: z.object({
+    enabled: z.boolean().default(false),
+    everyNthSentence: z.number().int().min(1).default(2),
+    minDurationMs: z.number().default(2000),
+    maxDurationMs: z.number().default(6000),
+    scaleFrom: z.number().default(1.0),
+    scaleTo: z.number().default(1.1),
+    enterTransition: z.string().optional(),
+    exitTransition: z.string().optional(),
+  }).optional(),
+  soundEffects: z.object({
+    enabled: z.boolean().default(false),
+    volume: z.number().min(0).max(1).default(0.5),
+    transitions: z.object({
+      enabled: z.boolean().default(true),
+      tags: z.array(z.string()).default(['whoosh']),
+      leadMs: z.number().min(0).default(250),
+    }).default({}),
+    emphasis: z.object({
+      enabled: z.boolean().default(true),
+      tags: z.array(z.string()).default(['pop']),
+      intenseTags: z.array(z.string()).default(['riser']),
+      minGapMs: z.number().min(0).default(4000),
+    }).default({}),
   }).optional(),
   text: z.any().optional(),
+  captions: z.object({
+    enabled: z.boolean().default(false),
+    formats: z.array(z.enum(['srt', 'vtt', 'ass'])).default(['srt', 'vtt', 'ass']),
+    karaoke: z.boolean().default(false),
+  }).optional(),
+  emphasis: z.any().optional(),
   animations: z.any().optional(),
   validation: z.object({
     checkAssetExists: z.boolean().default(true),
@@ -213,6 +296,36 @@ const VideoConfigSchema = z.object({
 
 export type VideoConfig = z.infer<typeof VideoConfigSchema>;
 
+/**
+ * Zod schema for the pronunciation lexicon (global config/lexicon.json and
+ * optional per-project lexicon.json). Keys are written forms ("SQL", "Nguyen").
+ */
+const LexiconConfigSchema = z.object({
+  entries: z.record(z.object({
+    alias: z.string().optional(),
+    phoneme: z.string().optional(),
+    alphabet: z.enum(['ipa', 'x-sampa']).default('ipa'),
+    caseSensitive: z.boolean().default(false),
+  }).refine((entry) => entry.alias || entry.phoneme, 'Lexicon entry needs an alias or a phoneme')).default({}),
+});
+
+export type LexiconConfig = z.infer<typeof LexiconConfigSchema>;
+
+/**
+ * Zod schema for the SFX library index (public/sfx/library.json). Each
+ * effect is a file in the same folder with the tags build rules select by.
+ */
+const SfxLibrarySchema = z.object({
+  effects: z.array(z.object({
+    file: z.string(),
+    tags: z.array(z.string()).min(1),
+    durationMs: z.number().positive(),
+    volume: z.number().min(0).max(1).default(1),
+  })).default([]),
+});
+
+export type SfxLibrary = z.infer<typeof SfxLibrarySchema>;
+
 /**
  * Configuration manager for loading and validating config files
  */
@@ -224,7 +337,7 @@ export class ConfigManager {
    */
   static async load<T>(
     configName: string,
-    schema?: z.ZodSchema<T>
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>
   ): Promise<T> {
     // Check cache first
     if (this.configCache.has(configName)) {
@@ -398,4 +511,61 @@ export class ConfigManager {
   static async loadVideoConfig(): Promise<VideoConfig> {
     return this.load<VideoConfig>('video.config', VideoConfigSchema);
   }
+
+  /**
+   * Load the global pronunciation lexicon
+   */
+  static async loadLexiconConfig(): Promise<LexiconConfig> {
+    return this.load<LexiconConfig>('lexicon', LexiconConfigSchema);
+  }
+
+  /**
+   * Load a project's pronunciation lexicon, or undefined if it has none
+   */
+  static async loadProjectLexicon(filePath: string): Promise<LexiconConfig | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      return LexiconConfigSchema.parse(JSON.parse(content));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        const errors = error.errors.map((e) => `  - ${e.path.join('.')}: ${e.message}`).join('\n');
+        throw new Error(`Lexicon validation failed for ${filePath}:\n${errors}`);
+      }
+      throw new Error(`Failed to load lexicon ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load the SFX library index, or an empty library if the folder has none
+   */
+  static async loadSfxLibrary(filePath: string): Promise<SfxLibrary> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { effects: [] };
+      }
+      throw error;
+    }
+
+    try {
+      return SfxLibrarySchema.parse(JSON.parse(content));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        const errors = error.errors.map((e) => `  - ${e.path.join('.')}: ${e.message}`).join('\n');
+        throw new Error(`SFX library validation failed for ${filePath}:\n${errors}`);
+      }
+      throw new Error(`Failed to load SFX library ${filePath}: ${error.message}`);
+    }
+  }
 }
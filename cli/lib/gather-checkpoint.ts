@@ -0,0 +1,216 @@
+/**
+ * Gather checkpoint (public/projects/{id}/gather-checkpoint.json)
+ *
+ * Gather writes each segment's tags, media, TTS and emphasis here as soon as
+ * the segment finishes, so a re-run after a crash only redoes the segments
+ * that never completed. Also splices regathered segments (--segment) into an
+ * existing tags.json.
+ */
+
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import type { AssetManifest, AssetTag, GatherOutput } from '../commands/gather';
+
+export interface SegmentCheckpoint {
+  segmentId: string;
+  textHash: string;
+  tags: AssetTag[];
+  images: AssetManifest['images'];
+  videos: AssetManifest['videos'];
+  audio: AssetManifest['audio'][number];
+  completedAt: string;
+}
+
+export interface GatherCheckpointParams {
+  preview: boolean;
+  scrape: boolean;
+  // Hash of the config that shapes gather output (see hashGatherConfig)
+  configHash: string;
+}
+
+export interface GatherCheckpoint {
+  version: 1;
+  params: GatherCheckpointParams;
+  segments: Record<string, SegmentCheckpoint>;
+}
+
+/**
+ * Hash a segment's TTS inputs (text and speaking notes, which set SSML
+ * prosody) so edited segments are regathered
+ */
+export function hashSegmentText(text: string, speakingNotes?: string): string {
+  const hash = createHash('sha256').update(text);
+  if (speakingNotes) {
+    hash.update('\0').update(speakingNotes);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hash the settings gather output depends on (TTS, stock media and music
+ * config, lexicon, aspect ratio) so changing them invalidates the checkpoint
+ */
+export function hashGatherConfig(config: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(config)).digest('hex');
+}
+
+export function createGatherCheckpoint(params: GatherCheckpointParams): GatherCheckpoint {
+  return { version: 1, params, segments: {} };
+}
+
+/**
+ * Load the checkpoint, starting fresh if it is missing, unreadable or was
+ * written with different gather options (e.g. a --preview run) or config
+ */
+export async function loadGatherCheckpoint(
+  filePath: string,
+  params: GatherCheckpointParams
+): Promise<GatherCheckpoint> {
+  let checkpoint: GatherCheckpoint;
+
+  try {
+    checkpoint = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`[GATHER] ⚠ Ignoring unreadable checkpoint ${filePath}: ${error.message}`);
+    }
+    return createGatherCheckpoint(params);
+  }
+
+  if (
+    checkpoint.version !== 1 ||
+    checkpoint.params?.preview !== params.preview ||
+    checkpoint.params?.scrape !== params.scrape ||
+    checkpoint.params?.configHash !== params.configHash
+  ) {
+    console.log('[GATHER] Checkpoint was written with different options or config, starting fresh');
+    return createGatherCheckpoint(params);
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Write the checkpoint atomically so a crash mid-write cannot corrupt it
+ */
+export async function saveGatherCheckpoint(filePath: string, checkpoint: GatherCheckpoint): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Return the checkpointed segment if its text and speaking notes are unchanged
+ * and its audio still exists
+ */
+export async function findCompletedSegment(
+  checkpoint: GatherCheckpoint,
+  segmentId: string,
+  text: string,
+  speakingNotes?: string
+): Promise<SegmentCheckpoint | undefined> {
+  const entry = checkpoint.segments[segmentId];
+  if (!entry || entry.textHash !== hashSegmentText(text, speakingNotes)) {
+    return undefined;
+  }
+
+  const audioExists = await fs.access(entry.audio.path).then(() => true).catch(() => false);
+  return audioExists ? entry : undefined;
+}
+
+/**
+ * Assemble tags and manifest from checkpointed segments in script order
+ */
+export function assembleGatherOutput(
+  checkpoint: GatherCheckpoint,
+  segmentIds: string[]
+): { tags: AssetTag[]; manifest: AssetManifest } {
+  const tags: AssetTag[] = [];
+  const manifest: AssetManifest = { images: [], videos: [], audio: [], music: [] };
+
+  for (const segmentId of segmentIds) {
+    const entry = checkpoint.segments[segmentId];
+    if (!entry) {
+      throw new Error(`Segment ${segmentId} missing from gather checkpoint`);
+    }
+
+    tags.push(...entry.tags);
+    manifest.images.push(...entry.images);
+    manifest.videos.push(...entry.videos);
+    manifest.audio.push(entry.audio);
+  }
+
+  return { tags, manifest };
+}
+
+/**
+ * Replace each segment's entries in place, leaving entries of other segments
+ * untouched. Segments with no existing entries are appended.
+ */
+function spliceSegmentEntries<T extends { segmentId?: string }>(
+  entries: T[],
+  replacements: Map<string, T[]>
+): T[] {
+  const result: T[] = [];
+  const inserted = new Set<string>();
+
+  for (const entry of entries) {
+    const replacement = entry.segmentId !== undefined ? replacements.get(entry.segmentId) : undefined;
+    if (!replacement) {
+      result.push(entry);
+      continue;
+    }
+    if (!inserted.has(entry.segmentId!)) {
+      result.push(...replacement);
+      inserted.add(entry.segmentId!);
+    }
+  }
+
+  for (const [segmentId, replacement] of replacements) {
+    if (!inserted.has(segmentId)) {
+      result.push(...replacement);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Swap regathered segments into an existing gather output. Only entries
+ * belonging to those segments are replaced; audio is kept in script order.
+ */
+export function replaceSegmentAssets(
+  existing: GatherOutput,
+  segments: SegmentCheckpoint[],
+  segmentOrder: string[]
+): GatherOutput {
+  const audio = spliceSegmentEntries(
+    existing.manifest.audio,
+    new Map(segments.map((segment) => [segment.segmentId, [segment.audio]]))
+  );
+  const orderOf = (segmentId: string) => {
+    const index = segmentOrder.indexOf(segmentId);
+    return index === -1 ? segmentOrder.length : index;
+  };
+  audio.sort((a, b) => orderOf(a.segmentId) - orderOf(b.segmentId));
+
+  return {
+    tags: spliceSegmentEntries(
+      existing.tags,
+      new Map(segments.map((segment) => [segment.segmentId, segment.tags]))
+    ),
+    manifest: {
+      images: spliceSegmentEntries(
+        existing.manifest.images,
+        new Map(segments.map((segment) => [segment.segmentId, segment.images]))
+      ),
+      videos: spliceSegmentEntries(
+        existing.manifest.videos,
+        new Map(segments.map((segment) => [segment.segmentId, segment.videos]))
+      ),
+      audio,
+      music: existing.manifest.music,
+    },
+    gatheredAt: new Date().toISOString(),
+  };
+}
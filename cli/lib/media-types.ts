@@ -98,6 +98,8 @@ export interface QualityScore {
  */
 export interface TTSProvider {
   name: string;
+  /** Provider renders SSML (speaking notes, emphasis, lexicon) itself */
+  supportsSSML?: boolean;
   generateAudio(text: string, options?: TTSOptions): Promise<TTSResult>;
 }
 
@@ -108,6 +110,23 @@ export interface TTSOptions {
   voice?: string;
   speed?: number;
   pitch?: number;
+  /** Script speaking notes, rendered as prosody/breaks by SSML-capable providers */
+  speakingNotes?: string;
+  /** Emphasized words, rendered as <emphasis> by SSML-capable providers */
+  emphasis?: Array<{ wordIndex: number; level: 'med' | 'high' }>;
+  /** Pronunciation lexicon: <phoneme>/<sub> with SSML, alias substitution otherwise */
+  lexicon?: LexiconEntry[];
+}
+
+/**
+ * Pronunciation lexicon entry for a written term (one or more words)
+ */
+export interface LexiconEntry {
+  term: string;
+  alias?: string;
+  phoneme?: string;
+  alphabet: 'ipa' | 'x-sampa';
+  caseSensitive: boolean;
 }
 
 /**
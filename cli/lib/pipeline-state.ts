@@ -0,0 +1,330 @@
+/**
+ * Per-project pipeline state (public/projects/{id}/pipeline-state.json)
+ *
+ * Records when each stage finished, its status and content hashes of the
+ * inputs it read. Stages whose inputs are unchanged can be skipped, and any
+ * change upstream marks every downstream stage stale.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getProjectPaths } from '../../src/lib/paths';
+import { PIPELINE_STAGES, PipelineError, PipelineStage } from './pipeline';
+
+export type StageStatus = 'completed' | 'failed' | 'stale';
+
+export interface StageRecord {
+  status: StageStatus;
+  finishedAt: string;
+  inputHashes: Record<string, string | null>;
+  outputs: string[];
+  params?: Record<string, unknown>;
+  error?: string;
+  staleReason?: string;
+}
+
+export interface PipelineState {
+  version: 1;
+  projectId: string;
+  updatedAt: string;
+  stages: Partial<Record<PipelineStage, StageRecord>>;
+}
+
+export interface StageFreshness {
+  upToDate: boolean;
+  reason?: string;
+}
+
+/**
+ * Files each stage reads: project-relative paths, config names (config/{name}.json)
+ * and shared repo-relative files such as the SFX library
+ */
+export const STAGE_INPUTS: Record<PipelineStage, { project: string[]; config: string[]; shared?: string[] }> = {
+  discover: { project: [], config: ['ai.config'] },
+  curate: { project: ['discovered.json'], config: [] },
+  refine: { project: ['selected.json'], config: ['ai.config'] },
+  script: { project: ['refined.json'], config: ['ai.config', 'video.config'] },
+  gather: {
+    project: ['scripts/script-v1.json', 'lexicon.json', 'refined.json'],
+    config: ['ai.config', 'stock-assets.config', 'tts.config', 'music.config', 'video.config', 'lexicon'],
+  },
+  build: {
+    project: ['tags.json', 'scripts/script-v1.json'],
+    config: ['video.config', 'ai.config', 'music.config'],
+    shared: ['public/sfx/library.json'],
+  },
+  render: { project: ['timeline.json'], config: ['video.config', 'music.config'] },
+};
+
+/**
+ * Default project-relative outputs written by each stage
+ */
+const STAGE_OUTPUTS: Record<PipelineStage, string[]> = {
+  discover: ['discovered.json'],
+  curate: ['selected.json'],
+  refine: ['refined.json'],
+  script: ['scripts/script-v1.json'],
+  gather: ['tags.json'],
+  build: ['timeline.json'],
+  render: ['output.mp4'],
+};
+
+async function hashFile(filePath: string): Promise<string | null> {
+  try {
+    const content = await fs.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true).catch(() => false);
+}
+
+/**
+ * Serialize stage params with sorted keys so option order does not matter
+ */
+function normalizeParams(params?: Record<string, unknown>): string {
+  const entries = Object.entries(params ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+/**
+ * Hash every input of a stage as it currently exists on disk
+ */
+export async function computeInputHashes(
+  projectId: string,
+  stage: PipelineStage
+): Promise<Record<string, string | null>> {
+  const { root } = getProjectPaths(projectId);
+  const inputs = STAGE_INPUTS[stage];
+  const hashes: Record<string, string | null> = {};
+
+  for (const relativePath of inputs.project) {
+    hashes[relativePath] = await hashFile(path.join(root, relativePath));
+  }
+
+  for (const configName of inputs.config) {
+    hashes[`config/${configName}.json`] = await hashFile(
+      path.join(process.cwd(), 'config', `${configName}.json`)
+    );
+  }
+
+  for (const relativePath of inputs.shared || []) {
+    hashes[relativePath] = await hashFile(path.join(process.cwd(), relativePath));
+  }
+
+  return hashes;
+}
+
+function diffInputHashes(
+  recorded: Record<string, string | null>,
+  current: Record<string, string | null>
+): string[] {
+  const keys = new Set([...Object.keys(recorded), ...Object.keys(current)]);
+  return Array.from(keys).filter((key) => recorded[key] !== current[key]);
+}
+
+/**
+ * Load pipeline-state.json, returning an empty state if none exists yet
+ */
+export async function loadPipelineState(projectId: string): Promise<PipelineState> {
+  const { pipelineState } = getProjectPaths(projectId);
+
+  try {
+    const content = await fs.readFile(pipelineState, 'utf-8');
+    return JSON.parse(content) as PipelineState;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Failed to read pipeline state at ${pipelineState}: ${error.message}`);
+    }
+    return {
+      version: 1,
+      projectId,
+      updatedAt: new Date().toISOString(),
+      stages: {},
+    };
+  }
+}
+
+/**
+ * Write pipeline-state.json atomically
+ */
+export async function savePipelineState(projectId: string, state: PipelineState): Promise<void> {
+  const { pipelineState } = getProjectPaths(projectId);
+  state.updatedAt = new Date().toISOString();
+
+  const tempPath = `${pipelineState}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(state, null, 2), 'utf-8');
+  await fs.rename(tempPath, pipelineState);
+}
+
+/**
+ * Mark completed stages stale when their inputs changed or anything upstream
+ * is stale or failed. Once stale, a stage stays stale until it runs again.
+ */
+async function refreshStaleness(projectId: string, state: PipelineState): Promise<void> {
+  let upstreamProblem: string | undefined;
+
+  for (const stage of PIPELINE_STAGES) {
+    const record = state.stages[stage];
+    if (!record) continue;
+
+    if (record.status === 'completed') {
+      const changed = diffInputHashes(record.inputHashes, await computeInputHashes(projectId, stage));
+
+      if (upstreamProblem) {
+        record.status = 'stale';
+        record.staleReason = upstreamProblem;
+      } else if (changed.length > 0) {
+        record.status = 'stale';
+        record.staleReason = `inputs changed: ${changed.join(', ')}`;
+      }
+    }
+
+    if (record.status !== 'completed' && !upstreamProblem) {
+      upstreamProblem = `upstream stage ${stage} is ${record.status}`;
+    }
+  }
+}
+
+/**
+ * Record a successful stage run and mark downstream stages stale as needed
+ */
+export async function markStageCompleted(
+  projectId: string,
+  stage: PipelineStage,
+  options: { params?: Record<string, unknown>; outputs?: string[] } = {}
+): Promise<void> {
+  const { root } = getProjectPaths(projectId);
+  const state = await loadPipelineState(projectId);
+  const outputs = options.outputs ?? STAGE_OUTPUTS[stage];
+
+  state.stages[stage] = {
+    status: 'completed',
+    finishedAt: new Date().toISOString(),
+    inputHashes: await computeInputHashes(projectId, stage),
+    outputs: outputs.map((output) => path.isAbsolute(output) ? path.relative(root, output) : output),
+    params: options.params,
+  };
+
+  await refreshStaleness(projectId, state);
+  await savePipelineState(projectId, state);
+}
+
+/**
+ * Record a failed stage run. Never throws so it can be called from error handlers.
+ */
+export async function markStageFailed(projectId: string, stage: PipelineStage, error: Error): Promise<void> {
+  try {
+    if (!(await fileExists(getProjectPaths(projectId).root))) {
+      return;
+    }
+
+    const state = await loadPipelineState(projectId);
+
+    state.stages[stage] = {
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      inputHashes: {},
+      outputs: [],
+      error: error.message,
+    };
+
+    await refreshStaleness(projectId, state);
+    await savePipelineState(projectId, state);
+  } catch (stateError: any) {
+    console.warn(`[PIPELINE] ⚠ Could not record ${stage} failure: ${stateError.message}`);
+  }
+}
+
+/**
+ * Check whether a stage can be skipped: it completed, its inputs and params
+ * are unchanged, and its outputs still exist.
+ */
+export async function getStageFreshness(
+  projectId: string,
+  stage: PipelineStage,
+  params?: Record<string, unknown>
+): Promise<StageFreshness> {
+  const state = await loadPipelineState(projectId);
+  await refreshStaleness(projectId, state);
+
+  const record = state.stages[stage];
+  if (!record) {
+    return { upToDate: false, reason: 'never run' };
+  }
+
+  if (record.status !== 'completed') {
+    return { upToDate: false, reason: record.staleReason ?? record.status };
+  }
+
+  if (normalizeParams(record.params) !== normalizeParams(params)) {
+    return { upToDate: false, reason: 'options changed' };
+  }
+
+  const { root } = getProjectPaths(projectId);
+  for (const output of record.outputs) {
+    if (!(await fileExists(path.resolve(root, output)))) {
+      return { upToDate: false, reason: `output missing: ${output}` };
+    }
+  }
+
+  return { upToDate: true };
+}
+
+/**
+ * List upstream stages that are stale or failed, persisting any newly detected staleness
+ */
+export async function findStaleUpstream(
+  projectId: string,
+  stage: PipelineStage
+): Promise<Array<{ stage: PipelineStage; reason: string }>> {
+  const state = await loadPipelineState(projectId);
+  if (Object.keys(state.stages).length === 0) {
+    return [];
+  }
+
+  await refreshStaleness(projectId, state);
+  await savePipelineState(projectId, state);
+
+  const upstream = PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(stage));
+  return upstream.flatMap((upstreamStage) => {
+    const record = state.stages[upstreamStage];
+    if (!record || record.status === 'completed') {
+      return [];
+    }
+    return [{ stage: upstreamStage, reason: record.staleReason ?? record.error ?? record.status }];
+  });
+}
+
+/**
+ * Refuse to run a stage against stale or failed upstream outputs unless forced
+ */
+export async function assertUpstreamFresh(
+  projectId: string,
+  stage: PipelineStage,
+  force = false
+): Promise<void> {
+  const staleStages = await findStaleUpstream(projectId, stage);
+  if (staleStages.length === 0) {
+    return;
+  }
+
+  const details = staleStages.map((entry) => `${entry.stage} (${entry.reason})`).join(', ');
+  if (force) {
+    console.warn(`[PIPELINE] ⚠ Running ${stage} with out-of-date upstream stages: ${details}`);
+    return;
+  }
+
+  console.log(`[PIPELINE] Re-run from ${staleStages[0].stage}: npm run pipeline -- --project ${projectId} --from ${staleStages[0].stage}`);
+  console.log(`[PIPELINE] Or pass --force to run ${stage} anyway`);
+  throw new PipelineError(`Upstream stages are out of date: ${details}`, stage);
+}
@@ -0,0 +1,64 @@
+/**
+ * Pipeline stage definitions shared by the orchestrator and stage commands
+ */
+
+/**
+ * Pipeline stages in execution order
+ */
+export const PIPELINE_STAGES = [
+  'discover',
+  'curate',
+  'refine',
+  'script',
+  'gather',
+  'build',
+  'render',
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+/**
+ * Error thrown when a pipeline stage fails or the stage range is invalid
+ */
+export class PipelineError extends Error {
+  constructor(
+    message: string,
+    public readonly stage?: PipelineStage,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * Check whether a string names a known pipeline stage
+ */
+export function isPipelineStage(value: string): value is PipelineStage {
+  return (PIPELINE_STAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the ordered list of stages between `from` and `to` (inclusive)
+ */
+export function resolveStageRange(from?: string, to?: string): PipelineStage[] {
+  const fromStage = from ?? PIPELINE_STAGES[0];
+  const toStage = to ?? PIPELINE_STAGES[PIPELINE_STAGES.length - 1];
+
+  for (const stage of [fromStage, toStage]) {
+    if (!isPipelineStage(stage)) {
+      throw new PipelineError(
+        `Unknown stage "${stage}". Available: ${PIPELINE_STAGES.join(', ')}`
+      );
+    }
+  }
+
+  const fromIndex = PIPELINE_STAGES.indexOf(fromStage as PipelineStage);
+  const toIndex = PIPELINE_STAGES.indexOf(toStage as PipelineStage);
+
+  if (fromIndex > toIndex) {
+    throw new PipelineError(`--from ${fromStage} comes after --to ${toStage}`);
+  }
+
+  return PIPELINE_STAGES.slice(fromIndex, toIndex + 1);
+}
@@ -0,0 +1,243 @@
+/**
+ * Local beat detection for background music
+ *
+ * The track is decoded to mono PCM with ffmpeg, turned into an onset envelope
+ * (rises in short-window log energy), and the tempo is taken from the
+ * strongest autocorrelation lag of that envelope within a BPM range. The beat
+ * grid is then fitted to the onsets by refining that period and its phase.
+ * Everything runs offline; no analysis service is called.
+ */
+
+import { spawn } from 'child_process';
+
+export interface BeatDetectionOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  /** Decode rate; beats only need a coarse rate */
+  sampleRate?: number;
+  /** Samples per envelope frame */
+  hopSize?: number;
+  ffmpegPath?: string;
+  timeoutMs?: number;
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  /** Beat period in envelope frames (fractional) */
+  periodFrames: number;
+  /** Normalized autocorrelation at the chosen lag (0-1) */
+  confidence: number;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  confidence: number;
+  /** Beat times from the start of the track */
+  beatsMs: number[];
+  durationMs: number;
+}
+
+const DEFAULT_SAMPLE_RATE = 11025;
+const DEFAULT_HOP_SIZE = 256;
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * Decode an audio file to mono float samples with ffmpeg
+ */
+function decodePcm(ffmpegPath: string, audioPath: string, sampleRate: number, timeoutMs: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(
+      ffmpegPath,
+      ['-hide_banner', '-nostdin', '-i', audioPath, '-ac', '1', '-ar', String(sampleRate), '-f', 's16le', '-'],
+      { stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      reject(new Error(`ffmpeg timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    proc.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proc.stderr.on('data', chunk => (stderr += chunk));
+    proc.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ffmpeg: ${error.message}`));
+    });
+    proc.on('close', code => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        const lastLine = stderr.trim().split('\n').pop();
+        return reject(new Error(`ffmpeg exited with code ${code}${lastLine ? `: ${lastLine}` : ''}`));
+      }
+
+      const pcm = Buffer.concat(chunks);
+      const samples = new Float32Array(Math.floor(pcm.length / 2));
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2) / 32768;
+      }
+      resolve(samples);
+    });
+  });
+}
+
+/**
+ * Onset strength per frame: the positive change in log energy between frames
+ */
+export function computeOnsetEnvelope(samples: Float32Array, hopSize: number = DEFAULT_HOP_SIZE): Float32Array {
+  const frameCount = Math.floor(samples.length / hopSize);
+  const envelope = new Float32Array(frameCount);
+  let previous = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    for (let i = frame * hopSize; i < (frame + 1) * hopSize; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const logEnergy = Math.log(1 + 1000 * energy / hopSize);
+    envelope[frame] = frame === 0 ? 0 : Math.max(0, logEnergy - previous);
+    previous = logEnergy;
+  }
+
+  return envelope;
+}
+
+/**
+ * Estimate the tempo from the envelope's autocorrelation within a BPM range
+ * @param framesPerSecond - Envelope frame rate (sampleRate / hopSize)
+ */
+export function estimateTempo(
+  envelope: Float32Array,
+  framesPerSecond: number,
+  minBpm: number,
+  maxBpm: number
+): TempoEstimate | undefined {
+  const mean = envelope.reduce((sum, value) => sum + value, 0) / (envelope.length || 1);
+  const centered = envelope.map(value => value - mean);
+
+  const autocorrelation = (lag: number): number => {
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      sum += centered[i] * centered[i + lag];
+    }
+    return sum;
+  };
+
+  const zeroLag = autocorrelation(0);
+  const minLag = Math.max(1, Math.floor((60 * framesPerSecond) / maxBpm));
+  const maxLag = Math.ceil((60 * framesPerSecond) / minBpm);
+  if (zeroLag <= 0 || maxLag + 1 >= centered.length) {
+    return undefined;
+  }
+
+  const scores: number[] = [];
+  let bestLag = minLag;
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    scores[lag] = autocorrelation(lag);
+  }
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) bestLag = lag;
+  }
+  if (scores[bestLag] <= 0) {
+    return undefined;
+  }
+
+  // Parabolic interpolation for a fractional period
+  const left = scores[bestLag - 1];
+  const right = scores[bestLag + 1];
+  const curvature = left - 2 * scores[bestLag] + right;
+  const offset = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+  const periodFrames = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+  return {
+    bpm: Math.round(((60 * framesPerSecond) / periodFrames) * 10) / 10,
+    periodFrames,
+    confidence: Math.round((scores[bestLag] / zeroLag) * 100) / 100,
+  };
+}
+
+/**
+ * Fit a beat grid to the onsets: refine the period around the autocorrelation
+ * estimate (a small period error drifts far over a whole track) and pick the
+ * phase that lines up with the most onset energy
+ */
+export function buildBeatGrid(
+  envelope: Float32Array,
+  periodFrames: number,
+  framesPerSecond: number
+): { beatsMs: number[]; periodFrames: number } {
+  let best = { phase: 0, period: periodFrames, score: -Infinity };
+
+  for (let period = periodFrames - 0.5; period <= periodFrames + 0.5; period += 0.02) {
+    for (let phase = 0; phase < period; phase += 0.25) {
+      let score = 0;
+      for (let position = phase; position < envelope.length; position += period) {
+        score += envelope[Math.round(position)] || 0;
+      }
+      if (score > best.score) {
+        best = { phase, period, score };
+      }
+    }
+  }
+
+  const beatsMs: number[] = [];
+  for (let position = best.phase; position < envelope.length; position += best.period) {
+    beatsMs.push(Math.round((position / framesPerSecond) * 1000));
+  }
+  return { beatsMs, periodFrames: best.period };
+}
+
+/**
+ * Detect the beat grid of a music file
+ * @param audioPath - Path to the music file
+ * @param options - BPM range, analysis resolution and ffmpeg settings
+ */
+export async function detectBeats(audioPath: string, options: BeatDetectionOptions = {}): Promise<BeatGrid> {
+  const sampleRate = options.sampleRate || DEFAULT_SAMPLE_RATE;
+  const hopSize = options.hopSize || DEFAULT_HOP_SIZE;
+  const samples = await decodePcm(
+    options.ffmpegPath || 'ffmpeg',
+    audioPath,
+    sampleRate,
+    options.timeoutMs || DEFAULT_TIMEOUT_MS
+  );
+
+  const framesPerSecond = sampleRate / hopSize;
+  const envelope = computeOnsetEnvelope(samples, hopSize);
+  const tempo = estimateTempo(envelope, framesPerSecond, options.minBpm ?? 70, options.maxBpm ?? 180);
+  if (!tempo) {
+    throw new Error(`No beat found in ${audioPath}`);
+  }
+
+  const grid = buildBeatGrid(envelope, tempo.periodFrames, framesPerSecond);
+  return {
+    bpm: Math.round(((60 * framesPerSecond) / grid.periodFrames) * 10) / 10,
+    confidence: tempo.confidence,
+    beatsMs: grid.beatsMs,
+    durationMs: Math.round((samples.length / sampleRate) * 1000),
+  };
+}
+
+/**
+ * Move a time to the nearest beat if one is within the tolerance
+ * @param beatsMs - Sorted beat times
+ */
+export function snapToBeat(ms: number, beatsMs: number[], toleranceMs: number): number {
+  let low = 0;
+  let high = beatsMs.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (beatsMs[mid] < ms) low = mid + 1;
+    else high = mid;
+  }
+
+  let nearest: number | undefined;
+  for (const candidate of [beatsMs[low - 1], beatsMs[low]]) {
+    if (candidate === undefined) continue;
+    if (nearest === undefined || Math.abs(candidate - ms) < Math.abs(nearest - ms)) {
+      nearest = candidate;
+    }
+  }
+
+  return nearest !== undefined && Math.abs(nearest - ms) <= toleranceMs ? nearest : ms;
+}
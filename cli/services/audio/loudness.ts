@@ -0,0 +1,305 @@
+/**
+ * Loudness normalization and silence trimming with ffmpeg
+ *
+ * Narration segments come from different TTS calls (and sometimes fallback
+ * voices), so their levels differ. Each segment gets a two-pass EBU R128
+ * loudnorm: the first pass measures loudness and detects silence, the second
+ * trims leading/trailing silence and applies the measured correction. The
+ * same two passes master the final mix of a rendered video (video copied,
+ * audio re-encoded).
+ */
+
+import * as fs from 'fs/promises';
+import { runFfmpeg } from '../../utils/ffmpeg';
+
+export interface LoudnessTarget {
+  /** Integrated loudness target (LUFS) */
+  targetLufs: number;
+  /** Maximum true peak (dBTP) */
+  truePeak: number;
+  /** Loudness range target (LU) */
+  lra: number;
+}
+
+export interface LoudnormMeasurement {
+  inputI: number;
+  inputTp: number;
+  inputLra: number;
+  inputThresh: number;
+  targetOffset: number;
+}
+
+export interface SilenceInterval {
+  startMs: number;
+  /** Undefined when the silence runs to the end of the input */
+  endMs?: number;
+}
+
+export interface TrimOptions {
+  /** Audio kept before the first sound / after the last sound */
+  paddingMs: number;
+  /** Never trim past this point at the start (e.g. first word start) */
+  keepStartMs?: number;
+  /** Never trim before this point at the end (e.g. last word end) */
+  keepEndMs?: number;
+}
+
+export interface MasterNarrationOptions extends LoudnessTarget {
+  trimSilence?: {
+    thresholdDb: number;
+    minSilenceMs: number;
+    paddingMs: number;
+  };
+  keepStartMs?: number;
+  keepEndMs?: number;
+  bitrate?: string;
+  ffmpegPath?: string;
+  timeoutMs?: number;
+}
+
+export interface MasterNarrationResult {
+  /** Integrated loudness measured before normalization */
+  measuredLufs: number;
+  targetLufs: number;
+  trimmedLeadingMs: number;
+  trimmedTrailingMs: number;
+  /** Duration after trimming */
+  durationMs: number;
+}
+
+export interface MasterMixOptions extends LoudnessTarget {
+  audioBitrate?: string;
+  ffmpegPath?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * Parse the JSON block printed by loudnorm=print_format=json
+ */
+export function parseLoudnormOutput(stderr: string): LoudnormMeasurement {
+  const match = stderr.match(/\{[^{}]*"input_i"[^{}]*\}/);
+  if (!match) {
+    throw new Error('loudnorm measurement not found in ffmpeg output');
+  }
+
+  const json = JSON.parse(match[0]);
+  const measurement = {
+    inputI: parseFloat(json.input_i),
+    inputTp: parseFloat(json.input_tp),
+    inputLra: parseFloat(json.input_lra),
+    inputThresh: parseFloat(json.input_thresh),
+    targetOffset: parseFloat(json.target_offset),
+  };
+
+  // Pure digital silence measures as -inf, which loudnorm cannot correct
+  if (!Object.values(measurement).every(Number.isFinite)) {
+    throw new Error(`loudnorm measurement is not usable (input_i=${json.input_i})`);
+  }
+
+  return measurement;
+}
+
+/**
+ * Parse silencedetect output into silence intervals
+ */
+export function parseSilenceDetect(stderr: string): SilenceInterval[] {
+  const intervals: SilenceInterval[] = [];
+  const pattern = /silence_(start|end):\s*(-?[\d.]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(stderr)) !== null) {
+    const ms = Math.max(0, parseFloat(match[2]) * 1000);
+    if (match[1] === 'start') {
+      intervals.push({ startMs: ms });
+    } else if (intervals.length > 0 && intervals[intervals.length - 1].endMs === undefined) {
+      intervals[intervals.length - 1].endMs = ms;
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Parse the input duration ffmpeg reports ("Duration: 00:00:05.23")
+ */
+export function parseDurationMs(stderr: string): number | undefined {
+  const match = stderr.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) {
+    return undefined;
+  }
+  return Math.round((parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3])) * 1000);
+}
+
+/**
+ * Decide how much leading/trailing silence to cut, keeping some padding
+ * and never cutting into the kept range
+ */
+export function computeTrimRange(
+  silences: SilenceInterval[],
+  durationMs: number,
+  options: TrimOptions
+): { startMs: number; endMs: number } {
+  let startMs = 0;
+  let endMs = durationMs;
+
+  const leading = silences.find(s => s.startMs <= 1);
+  if (leading && leading.endMs !== undefined) {
+    startMs = Math.max(0, leading.endMs - options.paddingMs);
+  }
+
+  const trailing = silences[silences.length - 1];
+  if (trailing && trailing !== leading && (trailing.endMs === undefined || trailing.endMs >= durationMs - 1)) {
+    endMs = Math.min(durationMs, trailing.startMs + options.paddingMs);
+  }
+
+  if (options.keepStartMs !== undefined) {
+    startMs = Math.min(startMs, options.keepStartMs);
+  }
+  if (options.keepEndMs !== undefined) {
+    endMs = Math.max(endMs, Math.min(options.keepEndMs, durationMs));
+  }
+
+  // Entirely silent input: leave it alone
+  if (endMs <= startMs) {
+    return { startMs: 0, endMs: durationMs };
+  }
+
+  return { startMs, endMs };
+}
+
+/**
+ * Build a loudnorm filter; with a measurement this is the linear second pass
+ */
+export function buildLoudnormFilter(target: LoudnessTarget, measured?: LoudnormMeasurement): string {
+  const base = `loudnorm=I=${target.targetLufs}:TP=${target.truePeak}:LRA=${target.lra}`;
+  if (!measured) {
+    return `${base}:print_format=json`;
+  }
+
+  return `${base}:measured_I=${measured.inputI}:measured_TP=${measured.inputTp}` +
+    `:measured_LRA=${measured.inputLra}:measured_thresh=${measured.inputThresh}` +
+    `:offset=${measured.targetOffset}:linear=true:print_format=summary`;
+}
+
+/**
+ * Read the input sample rate so loudnorm's 192kHz resampling is undone
+ */
+function parseSampleRate(stderr: string): number | undefined {
+  const match = stderr.match(/Audio:.*?(\d+) Hz/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Normalize a narration MP3 in place and trim its leading/trailing silence
+ * @param audioPath - Path to the segment MP3
+ * @param options - Loudness target, trimming and ffmpeg settings
+ */
+export async function masterNarration(
+  audioPath: string,
+  options: MasterNarrationOptions
+): Promise<MasterNarrationResult> {
+  const ffmpegPath = options.ffmpegPath || 'ffmpeg';
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  // Pass 1: measure loudness and find silence
+  const measureFilters = [buildLoudnormFilter(options)];
+  if (options.trimSilence) {
+    const { thresholdDb, minSilenceMs } = options.trimSilence;
+    measureFilters.unshift(`silencedetect=noise=${thresholdDb}dB:d=${minSilenceMs / 1000}`);
+  }
+  const measureOutput = await runFfmpeg(
+    ffmpegPath,
+    ['-hide_banner', '-nostdin', '-i', audioPath, '-af', measureFilters.join(','), '-f', 'null', '-'],
+    timeoutMs
+  );
+
+  const measured = parseLoudnormOutput(measureOutput);
+  const inputDurationMs = parseDurationMs(measureOutput);
+  const sampleRate = parseSampleRate(measureOutput) || 44100;
+
+  let trim = { startMs: 0, endMs: inputDurationMs ?? 0 };
+  if (options.trimSilence && inputDurationMs !== undefined) {
+    trim = computeTrimRange(parseSilenceDetect(measureOutput), inputDurationMs, {
+      paddingMs: options.trimSilence.paddingMs,
+      keepStartMs: options.keepStartMs,
+      keepEndMs: options.keepEndMs,
+    });
+  }
+
+  // Pass 2: trim and apply the measured correction
+  const applyFilters = [buildLoudnormFilter(options, measured)];
+  if (inputDurationMs !== undefined && (trim.startMs > 0 || trim.endMs < inputDurationMs)) {
+    applyFilters.unshift(`atrim=start=${trim.startMs / 1000}:end=${trim.endMs / 1000}`, 'asetpts=PTS-STARTPTS');
+  }
+
+  const tmpPath = `${audioPath}.mastering.mp3`;
+  try {
+    await runFfmpeg(
+      ffmpegPath,
+      [
+        '-hide_banner', '-nostdin', '-y', '-i', audioPath,
+        '-af', applyFilters.join(','),
+        '-ar', String(sampleRate),
+        '-c:a', 'libmp3lame', '-b:a', options.bitrate || '128k',
+        tmpPath,
+      ],
+      timeoutMs
+    );
+    await fs.rename(tmpPath, audioPath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+
+  return {
+    measuredLufs: measured.inputI,
+    targetLufs: options.targetLufs,
+    trimmedLeadingMs: trim.startMs,
+    trimmedTrailingMs: inputDurationMs !== undefined ? inputDurationMs - trim.endMs : 0,
+    durationMs: trim.endMs - trim.startMs,
+  };
+}
+
+/**
+ * Normalize the audio of a rendered video in place, copying the video stream
+ * @param videoPath - Path to the rendered MP4
+ * @param options - Loudness target and ffmpeg settings
+ * @returns Integrated loudness measured before normalization
+ */
+export async function masterMix(videoPath: string, options: MasterMixOptions): Promise<number> {
+  const ffmpegPath = options.ffmpegPath || 'ffmpeg';
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  const measureOutput = await runFfmpeg(
+    ffmpegPath,
+    ['-hide_banner', '-nostdin', '-i', videoPath, '-vn', '-af', buildLoudnormFilter(options), '-f', 'null', '-'],
+    timeoutMs
+  );
+  const measured = parseLoudnormOutput(measureOutput);
+  const sampleRate = parseSampleRate(measureOutput) || 48000;
+
+  const tmpPath = videoPath.replace(/(\.[^./]+)?$/, '.mastering$1');
+  try {
+    await runFfmpeg(
+      ffmpegPath,
+      [
+        '-hide_banner', '-nostdin', '-y', '-i', videoPath,
+        '-c:v', 'copy',
+        '-af', buildLoudnormFilter(options, measured),
+        '-ar', String(sampleRate),
+        '-c:a', 'aac', '-b:a', options.audioBitrate || '192k',
+        '-movflags', '+faststart',
+        tmpPath,
+      ],
+      timeoutMs
+    );
+    await fs.rename(tmpPath, videoPath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    throw error;
+  }
+
+  return measured.inputI;
+}
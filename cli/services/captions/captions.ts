@@ -0,0 +1,349 @@
+/**
+ * Caption export
+ *
+ * Turns the timeline's text elements (one per sentence, with word timings and
+ * hold buffers from build) into sidecar captions: SRT, WebVTT and a styled
+ * ASS file. VTT and ASS can carry word-by-word karaoke timing.
+ */
+
+import * as fs from 'fs/promises';
+import type { TextElement } from '../../../src/lib/types';
+import type { VideoConfig } from '../../lib/config';
+import { getSubtitleLayout, wrapSubtitleWords } from '../../../src/lib/utils';
+
+export type CaptionFormat = 'srt' | 'vtt' | 'ass';
+
+export interface CaptionWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  emphasis?: 'none' | 'med' | 'high';
+}
+
+export interface CaptionCue {
+  startMs: number;
+  endMs: number;
+  /** Word indices per caption line */
+  lines: number[][];
+  words: CaptionWord[];
+}
+
+export interface CaptionCueOptions {
+  fps: number;
+  maxCharactersPerLine?: number;
+  maxLines?: number;
+  /** Hold used when a sentence has none (matches Subtitle) */
+  defaultHoldFrames?: number;
+}
+
+/**
+ * Style for the ASS file, taken from video.config.json text/emphasis settings
+ */
+export interface AssStyle {
+  width: number;
+  height: number;
+  position?: 'top' | 'center' | 'bottom';
+  fontFamily?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  color?: string;
+  strokeColor?: string;
+  strokeWidth?: number;
+  backgroundColor?: string;
+  /** Word colors by emphasis level */
+  emphasisColors?: Partial<Record<'med' | 'high', string>>;
+}
+
+const DEFAULT_HOLD_FRAMES = 6;
+
+/**
+ * Build caption cues from text elements, using each sentence's word timings
+ * and hold buffer. A cue never runs into the next one.
+ */
+export function buildCaptionCues(textElements: TextElement[], options: CaptionCueOptions): CaptionCue[] {
+  const maxCharactersPerLine = options.maxCharactersPerLine ?? 40;
+  const maxLines = options.maxLines ?? 2;
+
+  const cues = textElements
+    .map((element): CaptionCue | undefined => {
+      const words: CaptionWord[] = element.words && element.words.length > 0
+        ? element.words.map((word) => ({
+          text: word.text,
+          startMs: word.startMs,
+          endMs: word.endMs,
+          emphasis: word.emphasis?.level,
+        }))
+        : element.text.split(/\s+/).filter(Boolean).map((text) => ({
+          text,
+          startMs: element.startMs,
+          endMs: element.endMs,
+        }));
+      if (words.length === 0) return undefined;
+
+      const holdFrames = element.words?.length ? element.holdFrames ?? options.defaultHoldFrames ?? DEFAULT_HOLD_FRAMES : 0;
+      const lastEndMs = element.words?.length ? words[words.length - 1].endMs : element.endMs;
+      return {
+        startMs: element.words?.length ? words[0].startMs : element.startMs,
+        endMs: lastEndMs + Math.round((holdFrames / options.fps) * 1000),
+        lines: wrapSubtitleWords(words.map((word) => word.text), maxCharactersPerLine, maxLines).lines,
+        words,
+      };
+    })
+    .filter((cue): cue is CaptionCue => cue !== undefined)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    if (next && cue.endMs > next.startMs) {
+      cue.endMs = Math.max(cue.startMs + 1, next.startMs);
+    }
+  });
+
+  return cues;
+}
+
+function splitMs(ms: number): { hours: number; minutes: number; seconds: number; millis: number } {
+  const total = Math.max(0, Math.round(ms));
+  return {
+    hours: Math.floor(total / 3600000),
+    minutes: Math.floor((total % 3600000) / 60000),
+    seconds: Math.floor((total % 60000) / 1000),
+    millis: total % 1000,
+  };
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Format a time for SRT (00:00:01,500), VTT (00:00:01.500) or ASS (0:00:01.50)
+ */
+export function formatCaptionTime(ms: number, format: CaptionFormat): string {
+  const { hours, minutes, seconds, millis } = splitMs(ms);
+  if (format === 'ass') {
+    return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(millis / 10))}`;
+  }
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${format === 'srt' ? ',' : '.'}${pad(millis, 3)}`;
+}
+
+function lineText(cue: CaptionCue, line: number[]): string {
+  return line.map((index) => cue.words[index].text).join(' ');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * SubRip captions, one cue per sentence
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatCaptionTime(cue.startMs, 'srt')} --> ${formatCaptionTime(cue.endMs, 'srt')}`,
+      ...cue.lines.map((line) => lineText(cue, line)),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * WebVTT captions; karaoke adds a timestamp tag before each later word
+ */
+export function toVtt(cues: CaptionCue[], options: { karaoke?: boolean } = {}): string {
+  const body = cues.map((cue) => {
+    const lines = cue.lines.map((line) => line
+      .map((index) => {
+        const word = cue.words[index];
+        const text = escapeVtt(word.text);
+        return options.karaoke && index > 0 && word.startMs > cue.startMs
+          ? `<${formatCaptionTime(word.startMs, 'vtt')}>${text}`
+          : text;
+      })
+      .join(' '));
+    return [`${formatCaptionTime(cue.startMs, 'vtt')} --> ${formatCaptionTime(cue.endMs, 'vtt')}`, ...lines].join('\n');
+  });
+
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+}
+
+/**
+ * Convert #RRGGBB or rgba(r, g, b, a) to an ASS &HAABBGGRR color
+ */
+export function toAssColor(color: string | undefined, fallback: string): string {
+  const source = color || fallback;
+  let r = 255;
+  let g = 255;
+  let b = 255;
+  let alpha = 1;
+
+  const hex = source.match(/^#([0-9a-f]{6})$/i);
+  const rgba = source.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (hex) {
+    r = parseInt(hex[1].slice(0, 2), 16);
+    g = parseInt(hex[1].slice(2, 4), 16);
+    b = parseInt(hex[1].slice(4, 6), 16);
+  } else if (rgba) {
+    [r, g, b] = [rgba[1], rgba[2], rgba[3]].map(Number);
+    alpha = rgba[4] !== undefined ? Number(rgba[4]) : 1;
+  } else if (source !== fallback) {
+    return toAssColor(fallback, fallback);
+  }
+
+  // ASS alpha is inverted: 00 is opaque
+  const byte = (value: number) => Math.max(0, Math.min(255, Math.round(value))).toString(16).toUpperCase().padStart(2, '0');
+  return `&H${byte(255 * (1 - alpha))}${byte(b)}${byte(g)}${byte(r)}`;
+}
+
+const ASS_ALIGNMENT = { bottom: 2, center: 5, top: 8 } as const;
+
+function escapeAss(text: string): string {
+  // Braces start override blocks and backslashes start tags
+  return text.replace(/\\/g, '').replace(/\{/g, '(').replace(/\}/g, ')');
+}
+
+/**
+ * Advanced SubStation Alpha captions styled like the rendered subtitles;
+ * karaoke adds \k timings so each word lights up as it is spoken
+ */
+export function toAss(cues: CaptionCue[], style: AssStyle, options: { karaoke?: boolean; title?: string } = {}): string {
+  const primary = toAssColor(style.color, '#FFFFFF');
+  // Karaoke shows words in SecondaryColour until they are spoken
+  const secondary = options.karaoke ? `&H80${primary.slice(4)}` : primary;
+  const outline = toAssColor(style.strokeColor, '#000000');
+  const back = toAssColor(style.backgroundColor, 'rgba(0, 0, 0, 0)');
+  const boxed = Boolean(style.backgroundColor);
+  // Same placement as the rendered subtitles
+  const layout = getSubtitleLayout(style.position || 'bottom', style.width, style.height);
+  const marginH = Math.round((style.width - layout.maxWidth) / 2);
+
+  const styleLine = [
+    'Default',
+    style.fontFamily || 'Arial',
+    Math.round((style.fontSize ?? 48) * layout.scale),
+    primary,
+    secondary,
+    outline,
+    back,
+    (style.fontWeight ?? 400) >= 600 ? -1 : 0,
+    0, 0, 0, 100, 100, 0, 0,
+    boxed ? 3 : 1,
+    (style.strokeWidth ?? 2) * layout.scale,
+    0,
+    ASS_ALIGNMENT[style.position || 'bottom'],
+    marginH,
+    marginH,
+    layout.top ?? layout.bottom ?? 0,
+    1,
+  ].join(',');
+
+  const events = cues.map((cue) => {
+    let previousEndMs = cue.startMs;
+    const lines = cue.lines.map((line) => line
+      .map((index) => {
+        const word = cue.words[index];
+        let text = escapeAss(word.text);
+
+        const color = word.emphasis && word.emphasis !== 'none' ? style.emphasisColors?.[word.emphasis] : undefined;
+        if (color) {
+          text = `{\\c&H${toAssColor(color, '#FFFFFF').slice(4)}&}${text}{\\c}`;
+        }
+        if (options.karaoke) {
+          // \k durations run back to back, so gaps are folded into the next word
+          const endMs = Math.max(word.endMs, previousEndMs);
+          text = `{\\k${Math.round((endMs - previousEndMs) / 10)}}${text}`;
+          previousEndMs = endMs;
+        }
+        return text;
+      })
+      .join(' '));
+
+    return `Dialogue: 0,${formatCaptionTime(cue.startMs, 'ass')},${formatCaptionTime(cue.endMs, 'ass')},Default,,0,0,0,,${lines.join('\\N')}`;
+  });
+
+  return [
+    '[Script Info]',
+    `Title: ${options.title || 'Captions'}`,
+    'ScriptType: v4.00+',
+    `PlayResX: ${style.width}`,
+    `PlayResY: ${style.height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: ${styleLine}`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+  ].join('\n') + '\n';
+}
+
+export interface CaptionExportOptions extends CaptionCueOptions {
+  formats: CaptionFormat[];
+  karaoke?: boolean;
+  style: AssStyle;
+  title?: string;
+}
+
+/**
+ * Write caption files for the timeline's text elements
+ * @param outputPaths - Destination for each format
+ * @returns Files written, by format
+ */
+export async function writeCaptionFiles(
+  textElements: TextElement[],
+  outputPaths: Record<CaptionFormat, string>,
+  options: CaptionExportOptions
+): Promise<Partial<Record<CaptionFormat, string>>> {
+  const cues = buildCaptionCues(textElements, options);
+  const written: Partial<Record<CaptionFormat, string>> = {};
+
+  for (const format of options.formats) {
+    const content = format === 'srt'
+      ? toSrt(cues)
+      : format === 'vtt'
+        ? toVtt(cues, { karaoke: options.karaoke })
+        : toAss(cues, options.style, { karaoke: options.karaoke, title: options.title });
+    await fs.writeFile(outputPaths[format], content, 'utf-8');
+    written[format] = outputPaths[format];
+  }
+
+  return written;
+}
+
+/**
+ * Caption settings from video.config.json (captions, text, emphasis and the
+ * aspect ratio's frame size and fps)
+ */
+export function getCaptionExportOptions(
+  videoConfig: VideoConfig,
+  aspectRatio: string,
+  overrides: { formats?: CaptionFormat[]; karaoke?: boolean; title?: string } = {}
+): CaptionExportOptions {
+  const frame = videoConfig.aspectRatios[aspectRatio] || videoConfig.aspectRatios[videoConfig.defaultAspectRatio];
+  const text = videoConfig.text || {};
+  const emphasis = videoConfig.emphasis || {};
+
+  return {
+    formats: overrides.formats || videoConfig.captions?.formats || ['srt', 'vtt', 'ass'],
+    karaoke: overrides.karaoke ?? videoConfig.captions?.karaoke ?? false,
+    title: overrides.title,
+    fps: frame?.fps || 30,
+    maxCharactersPerLine: text.maxCharactersPerLine,
+    maxLines: text.maxLines,
+    style: {
+      width: frame?.width || 1920,
+      height: frame?.height || 1080,
+      position: text.position,
+      fontFamily: text.fontFamily,
+      fontSize: text.fontSize,
+      fontWeight: text.fontWeight,
+      color: text.color,
+      strokeColor: text.strokeColor,
+      strokeWidth: text.strokeWidth,
+      backgroundColor: text.backgroundColor,
+      emphasisColors: { med: emphasis.med?.color, high: emphasis.high?.color },
+    },
+  };
+}
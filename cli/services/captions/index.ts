@@ -0,0 +1,5 @@
+/**
+ * Caption services exports
+ */
+
+export * from './captions';
@@ -104,7 +104,7 @@ export class PixabayService {
   /**
    * Search for music tracks on Pixabay
    */
-  async searchMusic(mood: MusicMood, duration?: number): Promise<MusicTrack[]> {
+  async searchMusic(mood: MusicMood | string, duration?: number): Promise<MusicTrack[]> {
     try {
       logger.debug(`Searching Pixabay music for mood: ${mood}`);
 
@@ -3,6 +3,7 @@
  */
 
 export * from './music-service';
+export * from './mood-matcher';
 
 import { MusicService } from './music-service';
 import { ConfigManager } from '../../lib/config';
@@ -0,0 +1,69 @@
+/**
+ * AI mood matching for background music
+ * Asks the AI provider for a MusicMood from the refined topic and the
+ * script's tone; falls back to the configured default genre.
+ */
+
+import type { AIProvider } from '../../lib/types';
+import { MusicMood } from '../../lib/media-types';
+import { musicMoodPrompt, MusicMoodSchema } from '../../../config/prompts/music.prompt';
+import { logger } from '../../utils/logger';
+
+export interface MoodSelection {
+  /** MusicMood from the AI, or the default genre on fallback */
+  mood: MusicMood | string;
+  reasoning: string;
+  source: 'ai' | 'default';
+}
+
+export interface MoodContext {
+  refinedTopic?: {
+    refinedTitle: string;
+    refinedDescription?: string;
+    targetAudience?: string;
+  };
+  script: {
+    title: string;
+    segments: Array<{ text: string; speakingNotes?: string }>;
+  };
+}
+
+/** Narration characters sent as a tone sample */
+const OPENING_TEXT_CHARS = 600;
+
+/**
+ * Choose a background music mood for the video
+ * @param aiProvider - Provider to ask, or undefined to skip straight to the fallback
+ * @param context - Refined topic (if available) and script
+ * @param defaultGenre - Configured fallback genre (selection.defaultGenre)
+ */
+export async function selectMusicMood(
+  aiProvider: AIProvider | undefined,
+  context: MoodContext,
+  defaultGenre: string
+): Promise<MoodSelection> {
+  if (aiProvider) {
+    try {
+      const { refinedTopic, script } = context;
+      const prompt = musicMoodPrompt({
+        title: refinedTopic?.refinedTitle || script.title,
+        description: refinedTopic?.refinedDescription,
+        targetAudience: refinedTopic?.targetAudience,
+        speakingNotes: script.segments.map((segment) => segment.speakingNotes || ''),
+        openingText: script.segments.map((segment) => segment.text).join(' ').substring(0, OPENING_TEXT_CHARS),
+      });
+
+      const result = await aiProvider.structuredComplete(prompt, MusicMoodSchema);
+      return { mood: result.mood, reasoning: result.reasoning, source: 'ai' };
+    } catch (error: any) {
+      logger.warn(`Music mood matching failed: ${error.message}`);
+      return {
+        mood: defaultGenre,
+        reasoning: `Mood matching failed (${error.message}); using default genre`,
+        source: 'default',
+      };
+    }
+  }
+
+  return { mood: defaultGenre, reasoning: 'Mood matching disabled; using default genre', source: 'default' };
+}
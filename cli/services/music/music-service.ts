@@ -25,9 +25,9 @@ export class MusicService {
   }
 
   /**
-   * Search for music by mood and optional duration
+   * Search for music by mood (or a genre such as the configured default) and optional duration
    */
-  async searchMusic(mood: MusicMood, duration?: number): Promise<MusicTrack[]> {
+  async searchMusic(mood: MusicMood | string, duration?: number): Promise<MusicTrack[]> {
     logger.info(`Searching for music: mood=${mood}, duration=${duration}s`);
 
     const tracks: MusicTrack[] = [];
@@ -61,7 +61,7 @@ export class MusicService {
   /**
    * Search local music library
    */
-  private async searchLocalMusic(mood: MusicMood, duration?: number): Promise<MusicTrack[]> {
+  private async searchLocalMusic(mood: MusicMood | string, duration?: number): Promise<MusicTrack[]> {
     if (!this.localMusicDir) return [];
 
     const musicDir = path.resolve(this.localMusicDir);
@@ -108,7 +108,7 @@ export class MusicService {
   /**
    * Get best music track for given mood and duration
    */
-  async getBestTrack(mood: MusicMood, targetDuration: number): Promise<MusicTrack | null> {
+  async getBestTrack(mood: MusicMood | string, targetDuration: number): Promise<MusicTrack | null> {
     const tracks = await this.searchMusic(mood, targetDuration);
 
     if (tracks.length === 0) {
@@ -126,6 +126,24 @@ export class MusicService {
     return tracks[0];
   }
 
+  /**
+   * Get up to `count` distinct tracks for a mood, closest to the target duration first.
+   * Unlike getBestTrack, shorter tracks are kept so they can be looped or chained.
+   */
+  async getBestTracks(mood: MusicMood | string, targetDuration: number, count: number): Promise<MusicTrack[]> {
+    const tracks = await this.searchMusic(mood);
+
+    if (tracks.length === 0) {
+      logger.warn(`No music tracks found for mood: ${mood}`);
+      return [];
+    }
+
+    const unique = Array.from(new Map(tracks.map(track => [`${track.source}:${track.id}`, track])).values());
+    unique.sort((a, b) => Math.abs(a.duration - targetDuration) - Math.abs(b.duration - targetDuration));
+
+    return unique.slice(0, count);
+  }
+
   /**
    * Get default background music for video duration
    */
@@ -0,0 +1,370 @@
+/**
+ * Chunked parallel rendering
+ *
+ * Splits a composition into frame ranges at segment boundaries and renders
+ * each range as a muted video in its own renderMedia worker (own browser).
+ * The soundtrack is rendered once for the whole composition, and the chunks
+ * are joined with the ffmpeg concat demuxer while muxing that audio, so
+ * there are no audio seams at chunk joins.
+ *
+ * Chunk state is kept in chunks.json inside the work directory. A failed
+ * chunk is retried on its own, and a later run with the same timeline,
+ * encoder settings and bundled sources (src/ and video.config.json) re-renders
+ * only the chunks that never completed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { CancelSignal } from '@remotion/renderer';
+import type { VideoConfig } from 'remotion';
+import { createLimiter } from '../../utils/concurrency';
+import { runFfmpeg } from '../../utils/ffmpeg';
+import { EncoderSettings, RenderError, RenderJob, RenderResult, renderComposition } from './remotion-renderer';
+
+export interface RenderChunk {
+  index: number;
+  startFrame: number;
+  /** Inclusive */
+  endFrame: number;
+}
+
+export interface ChunkState extends RenderChunk {
+  file: string;
+  status: 'pending' | 'completed' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+interface ChunkManifest {
+  key: string;
+  chunks: ChunkState[];
+  audio: { file: string; status: 'pending' | 'completed' | 'failed' };
+}
+
+export interface ChunkedRenderOptions {
+  serveUrl: string;
+  composition: VideoConfig;
+  outputLocation: string;
+  encoder: EncoderSettings;
+  /** Directory for chunk files and chunks.json */
+  workDir: string;
+  /** Frames where segments start; chunks only split here */
+  boundaryFrames: number[];
+  chunks: number;
+  workers: number;
+  minChunkFrames: number;
+  /** Attempts per chunk within one run */
+  maxAttempts: number;
+  /** Identifies the timeline and settings; completed chunks are reused only when it matches */
+  cacheKey: string;
+  cancelSignal?: CancelSignal;
+  isCancelled?: () => boolean;
+  timeoutMs?: number;
+  ffmpegPath?: string;
+  onProgress?: (progress: { renderedFrames: number; totalFrames: number; chunksDone: number; chunkCount: number }) => void;
+  onChunk?: (chunk: ChunkState) => void;
+}
+
+export interface ChunkedRenderResult extends RenderResult {
+  chunks: ChunkState[];
+  /** Chunks reused from an earlier run */
+  reusedChunks: number;
+}
+
+type Renderer = (job: RenderJob, isCancelled?: () => boolean) => Promise<RenderResult>;
+
+const DEFAULT_TIMEOUT_MS = 600000;
+
+/**
+ * Split a composition into up to `chunks` frame ranges, cutting only at
+ * segment boundaries and keeping every chunk at least minChunkFrames long
+ * @param totalFrames - Frames in the composition
+ * @param boundaryFrames - Candidate cut frames (segment starts)
+ */
+export function planChunks(
+  totalFrames: number,
+  boundaryFrames: number[],
+  options: { chunks: number; minChunkFrames: number }
+): RenderChunk[] {
+  const candidates = Array.from(new Set(boundaryFrames.map(Math.round)))
+    .filter((frame) => frame >= options.minChunkFrames && frame <= totalFrames - options.minChunkFrames)
+    .sort((a, b) => a - b);
+
+  const cuts: number[] = [];
+  for (let k = 1; k < options.chunks; k++) {
+    const target = (k * totalFrames) / options.chunks;
+    const lastCut = cuts.length > 0 ? cuts[cuts.length - 1] : 0;
+    const usable = candidates.filter((frame) => frame >= lastCut + options.minChunkFrames);
+    if (usable.length === 0) break;
+
+    const nearest = usable.reduce((best, frame) => (Math.abs(frame - target) < Math.abs(best - target) ? frame : best));
+    cuts.push(nearest);
+  }
+
+  const starts = [0, ...cuts];
+  return starts.map((startFrame, index) => ({
+    index,
+    startFrame,
+    endFrame: (index + 1 < starts.length ? starts[index + 1] : totalFrames) - 1,
+  }));
+}
+
+/**
+ * Hash the files that go into the bundle (components, lib code and the
+ * configs they import), so chunks rendered from different code or styling
+ * are never joined. Directories are walked recursively in sorted order.
+ */
+export async function hashRenderSources(sourcePaths: string[]): Promise<string> {
+  const hash = createHash('sha256');
+
+  const add = async (sourcePath: string): Promise<void> => {
+    const stat = await fs.stat(sourcePath);
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(sourcePath)).sort();
+      for (const entry of entries) {
+        await add(path.join(sourcePath, entry));
+      }
+      return;
+    }
+    hash.update(sourcePath).update('\0').update(await fs.readFile(sourcePath)).update('\0');
+  };
+
+  for (const sourcePath of sourcePaths) {
+    await add(sourcePath);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Build a concat demuxer list (paths quoted for ffmpeg)
+ */
+export function buildConcatList(files: string[]): string {
+  return files.map((file) => `file '${path.resolve(file).replace(/'/g, "'\\''")}'`).join('\n') + '\n';
+}
+
+/**
+ * Join muted video chunks and mux the soundtrack in one ffmpeg pass
+ */
+export async function concatChunks(
+  chunkFiles: string[],
+  audioFile: string,
+  outputPath: string,
+  options: { ffmpegPath?: string; timeoutMs?: number } = {}
+): Promise<void> {
+  const listPath = path.join(path.dirname(chunkFiles[0]), 'concat.txt');
+  await fs.writeFile(listPath, buildConcatList(chunkFiles), 'utf-8');
+
+  await runFfmpeg(
+    options.ffmpegPath || 'ffmpeg',
+    [
+      '-hide_banner', '-nostdin', '-y',
+      '-f', 'concat', '-safe', '0', '-i', listPath,
+      '-i', audioFile,
+      '-map', '0:v:0', '-map', '1:a:0',
+      '-c', 'copy',
+      '-movflags', '+faststart',
+      outputPath,
+    ],
+    options.timeoutMs || DEFAULT_TIMEOUT_MS
+  );
+}
+
+async function loadManifest(manifestPath: string): Promise<ChunkManifest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true).catch(() => false);
+}
+
+/**
+ * Render a composition in parallel chunks and join them
+ * @param options - Composition, chunking, retry and output settings
+ * @param renderer - Renders one job (renderComposition; replaceable in tests)
+ */
+export async function renderChunked(
+  options: ChunkedRenderOptions,
+  renderer: Renderer = renderComposition
+): Promise<ChunkedRenderResult> {
+  const { composition, encoder } = options;
+  const isCancelled = options.isCancelled || (() => false);
+  const plan = planChunks(composition.durationInFrames, options.boundaryFrames, {
+    chunks: options.chunks,
+    minChunkFrames: options.minChunkFrames,
+  });
+
+  await fs.mkdir(options.workDir, { recursive: true });
+  const manifestPath = path.join(options.workDir, 'chunks.json');
+  const extension = path.extname(options.outputLocation) || '.mp4';
+  const key = `${options.cacheKey}:${plan.map((c) => `${c.startFrame}-${c.endFrame}`).join(',')}`;
+
+  // Reuse chunks finished by an earlier run of the same render
+  const previous = await loadManifest(manifestPath);
+  const manifest: ChunkManifest = {
+    key,
+    chunks: plan.map((chunk) => ({
+      ...chunk,
+      file: path.join(options.workDir, `chunk-${String(chunk.index + 1).padStart(3, '0')}${extension}`),
+      status: 'pending',
+      attempts: 0,
+    })),
+    audio: { file: path.join(options.workDir, 'audio.aac'), status: 'pending' },
+  };
+  let reusedChunks = 0;
+  if (previous?.key === key) {
+    for (const chunk of manifest.chunks) {
+      const earlier = previous.chunks.find((c) => c.index === chunk.index);
+      if (earlier?.status === 'completed' && await fileExists(chunk.file)) {
+        chunk.status = 'completed';
+        chunk.attempts = earlier.attempts;
+        reusedChunks++;
+      }
+    }
+    if (previous.audio.status === 'completed' && await fileExists(manifest.audio.file)) {
+      manifest.audio.status = 'completed';
+    }
+  }
+
+  // Concurrent writers all go through this queue
+  let saving = Promise.resolve();
+  const saveManifest = () => {
+    saving = saving.then(() => fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8'));
+    return saving;
+  };
+  await saveManifest();
+
+  const frameCount = (chunk: RenderChunk) => chunk.endFrame - chunk.startFrame + 1;
+  const rendered = new Map<number, number>();
+  const reportProgress = () => {
+    const done = manifest.chunks.filter((c) => c.status === 'completed');
+    const renderedFrames = manifest.chunks.reduce(
+      (sum, c) => sum + (c.status === 'completed' ? frameCount(c) : rendered.get(c.index) || 0),
+      0
+    );
+    options.onProgress?.({
+      renderedFrames,
+      totalFrames: composition.durationInFrames,
+      chunksDone: done.length,
+      chunkCount: manifest.chunks.length,
+    });
+  };
+
+  const workers = Math.max(1, Math.min(options.workers, manifest.chunks.length));
+  const limiter = createLimiter(workers);
+  const workerEncoder: EncoderSettings = {
+    ...encoder,
+    concurrency: Math.max(1, Math.floor(encoder.concurrency / workers)),
+  };
+
+  const renderChunk = async (chunk: ChunkState) => {
+    while (chunk.status !== 'completed' && chunk.attempts < options.maxAttempts && !isCancelled()) {
+      chunk.attempts++;
+      try {
+        await renderer(
+          {
+            serveUrl: options.serveUrl,
+            compositionId: composition.id,
+            composition,
+            outputLocation: chunk.file,
+            encoder: workerEncoder,
+            frameRange: [chunk.startFrame, chunk.endFrame],
+            muted: true,
+            cancelSignal: options.cancelSignal,
+            timeoutMs: options.timeoutMs,
+            onProgress: ({ renderedFrames }) => {
+              rendered.set(chunk.index, renderedFrames);
+              reportProgress();
+            },
+          },
+          isCancelled
+        );
+        chunk.status = 'completed';
+        delete chunk.error;
+      } catch (error: any) {
+        chunk.status = 'failed';
+        chunk.error = error.message;
+        rendered.delete(chunk.index);
+      }
+      reportProgress();
+      await saveManifest();
+      options.onChunk?.(chunk);
+    }
+  };
+
+  const renderAudio = async () => {
+    if (manifest.audio.status === 'completed') return;
+    try {
+      await renderer(
+        {
+          serveUrl: options.serveUrl,
+          compositionId: composition.id,
+          composition,
+          outputLocation: manifest.audio.file,
+          encoder: { ...workerEncoder, codec: 'aac', crf: null, x264Preset: undefined, proResProfile: undefined },
+          cancelSignal: options.cancelSignal,
+          timeoutMs: options.timeoutMs,
+        },
+        isCancelled
+      );
+      manifest.audio.status = 'completed';
+    } catch (error: any) {
+      manifest.audio.status = 'failed';
+      throw error;
+    } finally {
+      await saveManifest();
+    }
+  };
+
+  const pending = manifest.chunks.filter((chunk) => chunk.status !== 'completed');
+  reportProgress();
+  const [audioResult] = await Promise.all([
+    limiter(renderAudio).then(() => undefined, (error: Error) => error),
+    ...pending.map((chunk) => limiter(() => renderChunk(chunk))),
+  ]);
+
+  if (isCancelled()) {
+    throw new RenderError('Render cancelled', 'render', true);
+  }
+  const failed = manifest.chunks.filter((chunk) => chunk.status !== 'completed');
+  if (failed.length > 0) {
+    const summary = failed.map((c) => `chunk ${c.index + 1} (frames ${c.startFrame}-${c.endFrame}): ${c.error}`).join('; ');
+    throw new RenderError(
+      `${failed.length} of ${manifest.chunks.length} chunk(s) failed after ${options.maxAttempts} attempt(s); ` +
+        `re-run to retry only those chunks. ${summary}`,
+      'render'
+    );
+  }
+  if (audioResult) {
+    throw new RenderError(`Rendering the soundtrack failed: ${audioResult.message}`, 'render', false, audioResult);
+  }
+
+  try {
+    await concatChunks(
+      manifest.chunks.map((chunk) => chunk.file),
+      manifest.audio.file,
+      options.outputLocation,
+      { ffmpegPath: options.ffmpegPath, timeoutMs: options.timeoutMs }
+    );
+  } catch (error: any) {
+    throw new RenderError(`Joining chunks failed: ${error.message}`, 'render', false, error);
+  }
+
+  // Chunks are only needed until the join succeeds
+  await fs.rm(options.workDir, { recursive: true, force: true });
+
+  return {
+    width: composition.width,
+    height: composition.height,
+    fps: composition.fps,
+    durationInFrames: composition.durationInFrames,
+    renderedFrames: composition.durationInFrames,
+    frameRange: null,
+    chunks: manifest.chunks,
+    reusedChunks,
+  };
+}
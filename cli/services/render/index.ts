@@ -0,0 +1,7 @@
+/**
+ * Render services exports
+ */
+
+export * from './remotion-renderer';
+export * from './chunked-render';
+export * from './verify';
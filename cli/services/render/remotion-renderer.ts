@@ -0,0 +1,282 @@
+/**
+ * Programmatic Remotion rendering
+ *
+ * Bundles the Remotion entry point once and renders compositions with
+ * renderMedia, reporting structured progress and supporting cancellation.
+ * Replaces spawning `npx remotion render` and scraping its stdout.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { bundle } from '@remotion/bundler';
+import { makeCancelSignal, renderMedia, selectComposition } from '@remotion/renderer';
+import type { CancelSignal, Codec, RenderMediaOptions } from '@remotion/renderer';
+import type { VideoConfig } from 'remotion';
+import type { RenderVerification } from './verify';
+
+/**
+ * Quality preset from video.config.json rendering.qualities
+ */
+export interface QualityPreset {
+  codec: string;
+  crf?: number;
+  preset?: string;
+  audioBitrate?: string;
+}
+
+/**
+ * Encoder settings passed to renderMedia
+ */
+export interface EncoderSettings {
+  codec: Codec;
+  crf: number | null;
+  proResProfile?: RenderMediaOptions['proResProfile'];
+  x264Preset: RenderMediaOptions['x264Preset'];
+  audioCodec: 'aac';
+  audioBitrate: RenderMediaOptions['audioBitrate'];
+  concurrency: number;
+  imageFormat: 'jpeg';
+}
+
+export interface RenderProgress {
+  /** 0-1 across rendering and encoding */
+  progress: number;
+  renderedFrames: number;
+  encodedFrames: number;
+  totalFrames: number;
+  stage: 'encoding' | 'muxing';
+}
+
+export interface RenderJob {
+  serveUrl: string;
+  compositionId: string;
+  outputLocation: string;
+  encoder: EncoderSettings;
+  /** Inclusive first and last frame; null renders everything */
+  frameRange?: [number, number] | null;
+  /** Already selected composition, to skip selecting it again */
+  composition?: VideoConfig;
+  /** Render video without an audio track */
+  muted?: boolean;
+  cancelSignal?: CancelSignal;
+  timeoutMs?: number;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+export interface RenderResult {
+  width: number;
+  height: number;
+  fps: number;
+  /** Frames in the composition */
+  durationInFrames: number;
+  /** Frames actually rendered (a frame range renders fewer) */
+  renderedFrames: number;
+  frameRange: [number, number] | null;
+}
+
+/**
+ * Machine-readable summary written next to the rendered video
+ */
+export interface RenderReport {
+  projectId: string;
+  compositionId: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  output: string;
+  quality: string;
+  startedAt: string;
+  finishedAt: string;
+  /** Wall-clock time spent bundling and rendering */
+  elapsedMs: number;
+  encoder?: EncoderSettings;
+  frames?: {
+    total: number;
+    rendered: number;
+    range: [number, number] | null;
+  };
+  video?: {
+    width: number;
+    height: number;
+    fps: number;
+    durationSeconds: number;
+  };
+  /** Present when the video was rendered in parallel chunks */
+  chunks?: {
+    count: number;
+    workers: number;
+    /** Chunks reused from an earlier, interrupted run */
+    reused: number;
+    ranges: Array<{ startFrame: number; endFrame: number; attempts: number }>;
+  };
+  fileSizeBytes?: number;
+  /** ffprobe/blackdetect/silencedetect findings on the output */
+  verification?: RenderVerification;
+  error?: string;
+}
+
+/**
+ * Error thrown when bundling or rendering fails or is cancelled
+ */
+export class RenderError extends Error {
+  constructor(
+    message: string,
+    public readonly phase: 'bundle' | 'composition' | 'render',
+    public readonly cancelled: boolean = false,
+    public readonly cause?: Error
+  ) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+const SUPPORTED_CODECS: Codec[] = ['h264', 'h265', 'vp8', 'vp9', 'prores'];
+
+/**
+ * Map a quality preset to renderMedia encoder settings
+ * @param preset - Quality preset from video.config.json
+ * @param concurrency - Parallel browser tabs
+ */
+export function toEncoderSettings(preset: QualityPreset, concurrency: number): EncoderSettings {
+  const codec = preset.codec as Codec;
+  if (!SUPPORTED_CODECS.includes(codec)) {
+    throw new RenderError(`Unsupported codec: ${preset.codec}`, 'render');
+  }
+
+  const usesCrf = codec === 'h264' || codec === 'h265' || codec === 'vp8' || codec === 'vp9';
+  return {
+    codec,
+    crf: usesCrf && preset.crf !== undefined ? preset.crf : null,
+    proResProfile: codec === 'prores'
+      ? (preset.preset || 'standard') as RenderMediaOptions['proResProfile']
+      : undefined,
+    x264Preset: codec === 'h264' ? preset.preset as RenderMediaOptions['x264Preset'] : undefined,
+    audioCodec: 'aac',
+    audioBitrate: (preset.audioBitrate || null) as RenderMediaOptions['audioBitrate'],
+    concurrency,
+    imageFormat: 'jpeg',
+  };
+}
+
+/**
+ * Create a cancel signal plus a flag recording whether it fired
+ */
+export function createCancellation(): { cancelSignal: CancelSignal; cancel: () => void; isCancelled: () => boolean } {
+  const { cancelSignal, cancel } = makeCancelSignal();
+  let cancelled = false;
+  return {
+    cancelSignal,
+    cancel: () => {
+      cancelled = true;
+      cancel();
+    },
+    isCancelled: () => cancelled,
+  };
+}
+
+/**
+ * Bundle the Remotion entry point for rendering
+ * @param entryPoint - Path to src/index.ts
+ * @param onProgress - Bundling progress (0-100)
+ * @returns Serve URL for selectComposition/renderMedia
+ */
+export async function bundleProject(
+  entryPoint: string,
+  onProgress?: (percent: number) => void
+): Promise<string> {
+  try {
+    return await bundle({
+      entryPoint,
+      publicDir: path.join(path.dirname(path.dirname(entryPoint)), 'public'),
+      onProgress,
+    });
+  } catch (error: any) {
+    throw new RenderError(`Bundling failed: ${error.message}`, 'bundle', false, error);
+  }
+}
+
+/**
+ * Select a composition from a bundle (evaluates calculateMetadata)
+ */
+export async function loadComposition(serveUrl: string, compositionId: string, timeoutMs?: number): Promise<VideoConfig> {
+  try {
+    return await selectComposition({
+      serveUrl,
+      id: compositionId,
+      inputProps: {},
+      timeoutInMilliseconds: timeoutMs,
+    });
+  } catch (error: any) {
+    throw new RenderError(`Could not load composition ${compositionId}: ${error.message}`, 'composition', false, error);
+  }
+}
+
+/**
+ * Render a composition from a bundle
+ * @param job - Bundle, composition, output and encoder settings
+ * @param isCancelled - Tells a cancellation apart from a failure
+ */
+export async function renderComposition(
+  job: RenderJob,
+  isCancelled: () => boolean = () => false
+): Promise<RenderResult> {
+  const composition = job.composition || await loadComposition(job.serveUrl, job.compositionId, job.timeoutMs);
+
+  // Keep a requested range (e.g. a preview) inside the composition
+  const lastFrame = composition.durationInFrames - 1;
+  const frameRange: [number, number] | null = job.frameRange
+    ? [Math.min(job.frameRange[0], lastFrame), Math.min(job.frameRange[1], lastFrame)]
+    : null;
+  const totalFrames = frameRange ? frameRange[1] - frameRange[0] + 1 : composition.durationInFrames;
+
+  try {
+    await renderMedia({
+      serveUrl: job.serveUrl,
+      composition,
+      inputProps: {},
+      outputLocation: job.outputLocation,
+      codec: job.encoder.codec,
+      crf: job.encoder.crf,
+      proResProfile: job.encoder.proResProfile,
+      x264Preset: job.encoder.x264Preset,
+      audioCodec: job.encoder.audioCodec,
+      audioBitrate: job.encoder.audioBitrate,
+      concurrency: job.encoder.concurrency,
+      imageFormat: job.encoder.imageFormat,
+      frameRange,
+      muted: job.muted,
+      overwrite: true,
+      cancelSignal: job.cancelSignal,
+      timeoutInMilliseconds: job.timeoutMs,
+      onProgress: ({ progress, renderedFrames, encodedFrames, stitchStage }) => {
+        job.onProgress?.({ progress, renderedFrames, encodedFrames, totalFrames, stage: stitchStage });
+      },
+    });
+  } catch (error: any) {
+    if (isCancelled()) {
+      throw new RenderError('Render cancelled', 'render', true, error);
+    }
+    throw new RenderError(`Rendering failed: ${error.message}`, 'render', false, error);
+  }
+
+  return {
+    width: composition.width,
+    height: composition.height,
+    fps: composition.fps,
+    durationInFrames: composition.durationInFrames,
+    renderedFrames: totalFrames,
+    frameRange,
+  };
+}
+
+/**
+ * Path of the render report for an output file (render-report.json next to it)
+ */
+export function getRenderReportPath(outputPath: string): string {
+  return path.join(path.dirname(outputPath), 'render-report.json');
+}
+
+/**
+ * Write a render report as JSON
+ */
+export async function writeRenderReport(reportPath: string, report: RenderReport): Promise<void> {
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+}
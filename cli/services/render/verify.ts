@@ -0,0 +1,261 @@
+/**
+ * Post-render verification
+ *
+ * Probes the rendered file with ffprobe (duration, resolution, fps, audio
+ * stream) and scans it once with ffmpeg blackdetect/silencedetect for long
+ * black or silent stretches. Each finding becomes a check with a severity;
+ * any failing check fails the render stage.
+ */
+
+import { runFfmpeg, runFfprobe } from '../../utils/ffmpeg';
+
+export interface ProbedMedia {
+  durationSeconds: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  hasAudio: boolean;
+}
+
+export interface MediaStretch {
+  startSeconds: number;
+  endSeconds: number;
+  durationSeconds: number;
+}
+
+export interface VerificationExpectations {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface VerificationThresholds {
+  /** Allowed difference between container and expected duration */
+  durationToleranceSeconds: number;
+  /** Black/silent stretches at least this long are reported */
+  blackMinSeconds: number;
+  silenceMinSeconds: number;
+  /** Level below which audio counts as silent */
+  silenceNoiseDb: number;
+  /** Stretches at least this long fail the render */
+  failBlackSeconds: number;
+  failSilenceSeconds: number;
+}
+
+export interface VerificationCheck {
+  name: 'duration' | 'resolution' | 'fps' | 'audio' | 'black' | 'silence';
+  status: 'pass' | 'warn' | 'fail';
+  message: string;
+}
+
+export interface RenderVerification {
+  passed: boolean;
+  probe: ProbedMedia;
+  expected: VerificationExpectations;
+  checks: VerificationCheck[];
+  blackStretches: MediaStretch[];
+  silenceStretches: MediaStretch[];
+}
+
+export interface VerifyRenderOptions extends VerificationThresholds {
+  ffmpegPath?: string;
+  ffprobePath?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 600000;
+const FPS_TOLERANCE = 0.01;
+
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined;
+  const [num, den] = rate.split('/').map(Number);
+  if (!num || !den) return undefined;
+  return Math.round((num / den) * 100) / 100;
+}
+
+/**
+ * Read duration and stream details from ffprobe JSON output
+ */
+export function parseProbeOutput(json: string): ProbedMedia {
+  const data = JSON.parse(json);
+  const streams: any[] = data.streams || [];
+  const video = streams.find(stream => stream.codec_type === 'video');
+  const audio = streams.find(stream => stream.codec_type === 'audio');
+
+  return {
+    durationSeconds: Number(data.format?.duration ?? video?.duration ?? 0),
+    width: video?.width,
+    height: video?.height,
+    fps: parseFrameRate(video?.avg_frame_rate) ?? parseFrameRate(video?.r_frame_rate),
+    videoCodec: video?.codec_name,
+    audioCodec: audio?.codec_name,
+    hasAudio: Boolean(audio),
+  };
+}
+
+/**
+ * Collect black stretches from blackdetect log lines
+ */
+export function parseBlackdetect(stderr: string): MediaStretch[] {
+  const stretches: MediaStretch[] = [];
+  const pattern = /black_start:\s*([\d.]+)\s+black_end:\s*([\d.]+)\s+black_duration:\s*([\d.]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(stderr))) {
+    stretches.push({
+      startSeconds: Number(match[1]),
+      endSeconds: Number(match[2]),
+      durationSeconds: Number(match[3]),
+    });
+  }
+  return stretches;
+}
+
+/**
+ * Collect silent stretches from silencedetect log lines
+ * @param durationSeconds - Closes a silence that runs to the end of the file
+ */
+export function parseSilencedetect(stderr: string, durationSeconds: number): MediaStretch[] {
+  const stretches: MediaStretch[] = [];
+  let start: number | undefined;
+  for (const line of stderr.split('\n')) {
+    const started = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (started) {
+      start = Math.max(0, Number(started[1]));
+      continue;
+    }
+    const ended = line.match(/silence_end:\s*([\d.]+)/);
+    if (ended && start !== undefined) {
+      const end = Number(ended[1]);
+      stretches.push({ startSeconds: start, endSeconds: end, durationSeconds: Math.round((end - start) * 1000) / 1000 });
+      start = undefined;
+    }
+  }
+  if (start !== undefined && durationSeconds > start) {
+    stretches.push({
+      startSeconds: start,
+      endSeconds: durationSeconds,
+      durationSeconds: Math.round((durationSeconds - start) * 1000) / 1000,
+    });
+  }
+  return stretches;
+}
+
+function formatStretches(stretches: MediaStretch[]): string {
+  return stretches
+    .slice(0, 5)
+    .map(s => `${s.startSeconds.toFixed(1)}-${s.endSeconds.toFixed(1)}s`)
+    .join(', ') + (stretches.length > 5 ? `, +${stretches.length - 5} more` : '');
+}
+
+function stretchCheck(
+  name: 'black' | 'silence',
+  stretches: MediaStretch[],
+  minSeconds: number,
+  failSeconds: number
+): VerificationCheck {
+  const label = name === 'black' ? 'black' : 'silent';
+  if (stretches.length === 0) {
+    return { name, status: 'pass', message: `No ${label} stretch of ${minSeconds}s or longer` };
+  }
+  const longest = Math.max(...stretches.map(s => s.durationSeconds));
+  return {
+    name,
+    status: longest >= failSeconds ? 'fail' : 'warn',
+    message: `${stretches.length} ${label} stretch(es), longest ${longest.toFixed(1)}s: ${formatStretches(stretches)}`,
+  };
+}
+
+/**
+ * Turn probe results and detected stretches into checks
+ */
+export function evaluateVerification(
+  probe: ProbedMedia,
+  expected: VerificationExpectations,
+  blackStretches: MediaStretch[],
+  silenceStretches: MediaStretch[],
+  thresholds: VerificationThresholds
+): RenderVerification {
+  const checks: VerificationCheck[] = [];
+
+  const drift = Math.abs(probe.durationSeconds - expected.durationSeconds);
+  checks.push({
+    name: 'duration',
+    status: drift <= thresholds.durationToleranceSeconds ? 'pass' : 'fail',
+    message: `Duration ${probe.durationSeconds.toFixed(2)}s, expected ${expected.durationSeconds.toFixed(2)}s ` +
+      `(±${thresholds.durationToleranceSeconds}s)`,
+  });
+
+  const resolutionMatches = probe.width === expected.width && probe.height === expected.height;
+  checks.push({
+    name: 'resolution',
+    status: resolutionMatches ? 'pass' : 'fail',
+    message: `Resolution ${probe.width ?? '?'}x${probe.height ?? '?'}, expected ${expected.width}x${expected.height}`,
+  });
+
+  const fpsMatches = probe.fps !== undefined && Math.abs(probe.fps - expected.fps) <= FPS_TOLERANCE;
+  checks.push({
+    name: 'fps',
+    status: fpsMatches ? 'pass' : 'fail',
+    message: `Frame rate ${probe.fps ?? '?'} fps, expected ${expected.fps} fps`,
+  });
+
+  checks.push({
+    name: 'audio',
+    status: probe.hasAudio ? 'pass' : 'fail',
+    message: probe.hasAudio ? `Audio stream present (${probe.audioCodec})` : 'No audio stream',
+  });
+
+  checks.push(stretchCheck('black', blackStretches, thresholds.blackMinSeconds, thresholds.failBlackSeconds));
+  if (probe.hasAudio) {
+    checks.push(stretchCheck('silence', silenceStretches, thresholds.silenceMinSeconds, thresholds.failSilenceSeconds));
+  }
+
+  return {
+    passed: checks.every(check => check.status !== 'fail'),
+    probe,
+    expected,
+    checks,
+    blackStretches,
+    silenceStretches,
+  };
+}
+
+/**
+ * Verify a rendered video against the timeline and aspect ratio config
+ * @param videoPath - Rendered file
+ * @param expected - Duration, resolution and fps the file should have
+ * @param options - Thresholds and ffmpeg/ffprobe settings
+ */
+export async function verifyRender(
+  videoPath: string,
+  expected: VerificationExpectations,
+  options: VerifyRenderOptions
+): Promise<RenderVerification> {
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const probe = parseProbeOutput(
+    await runFfprobe(
+      options.ffprobePath || 'ffprobe',
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', videoPath],
+      timeoutMs
+    )
+  );
+
+  // One decoding pass runs both detectors
+  const args = ['-hide_banner', '-nostdin', '-i', videoPath, '-vf', `blackdetect=d=${options.blackMinSeconds}:pix_th=0.10`];
+  if (probe.hasAudio) {
+    args.push('-af', `silencedetect=n=${options.silenceNoiseDb}dB:d=${options.silenceMinSeconds}`);
+  }
+  args.push('-f', 'null', '-');
+  const stderr = await runFfmpeg(options.ffmpegPath || 'ffmpeg', args, timeoutMs);
+
+  return evaluateVerification(
+    probe,
+    expected,
+    parseBlackdetect(stderr),
+    probe.hasAudio ? parseSilencedetect(stderr, probe.durationSeconds) : [],
+    options
+  );
+}
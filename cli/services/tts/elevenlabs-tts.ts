@@ -0,0 +1,187 @@
+/**
+ * ElevenLabs Text-to-Speech service with character-level timing
+ * API Docs: https://elevenlabs.io/docs/api-reference/text-to-speech/convert-with-timestamps
+ */
+
+import axios from 'axios';
+import { TTSProvider, TTSOptions, TTSResult, WordTimestamp, CharacterTimestamp, TTSError } from '../../lib/media-types';
+import { logger } from '../../utils/logger';
+
+/**
+ * Character alignment returned by the with-timestamps endpoint
+ */
+export interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+interface ElevenLabsVoice {
+  voiceId: string;
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  useSpeakerBoost?: boolean;
+}
+
+/**
+ * Group character alignment into word timestamps, splitting on whitespace.
+ * Each word keeps its per-character timing.
+ */
+export function buildWordTimestamps(alignment: ElevenLabsAlignment): WordTimestamp[] {
+  const words: WordTimestamp[] = [];
+  let current: CharacterTimestamp[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    words.push({
+      word: current.map(c => c.char).join(''),
+      startMs: current[0].startMs,
+      endMs: current[current.length - 1].endMs,
+      characters: current,
+    });
+    current = [];
+  };
+
+  alignment.characters.forEach((char, i) => {
+    if (/\s/.test(char)) {
+      flush();
+      return;
+    }
+    current.push({
+      char,
+      startMs: Math.round((alignment.character_start_times_seconds[i] ?? 0) * 1000),
+      endMs: Math.round((alignment.character_end_times_seconds[i] ?? 0) * 1000),
+    });
+  });
+  flush();
+
+  return words;
+}
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  name = 'elevenlabs';
+  private apiKey: string;
+  private config: any;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, config?: any, timeoutMs: number = 60000) {
+    if (!apiKey) {
+      throw new Error('ElevenLabs API key is required');
+    }
+    this.apiKey = apiKey;
+    this.config = config;
+    this.baseUrl = (config?.baseUrl || 'https://api.elevenlabs.io').replace(/\/$/, '');
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Generate audio with character-level timing
+   */
+  async generateAudio(text: string, options?: TTSOptions): Promise<TTSResult> {
+    try {
+      const voice = this.resolveVoice(options?.voice);
+      const modelId = this.config?.modelId || 'eleven_multilingual_v2';
+      const outputFormat = this.config?.outputFormat || 'mp3_44100_128';
+
+      if (!outputFormat.startsWith('mp3')) {
+        throw new Error(`Unsupported outputFormat "${outputFormat}" (only mp3_* formats are supported)`);
+      }
+
+      logger.debug(`Generating TTS audio with ElevenLabs (voice: ${voice.voiceId}, model: ${modelId})`);
+
+      const response = await axios.post(
+        `${this.baseUrl}/v1/text-to-speech/${encodeURIComponent(voice.voiceId)}/with-timestamps`,
+        {
+          text,
+          model_id: modelId,
+          voice_settings: {
+            stability: voice.stability ?? 0.5,
+            similarity_boost: voice.similarityBoost ?? 0.75,
+            style: voice.style ?? 0,
+            use_speaker_boost: voice.useSpeakerBoost ?? true,
+            ...(options?.speed !== undefined ? { speed: options.speed } : {}),
+          },
+        },
+        {
+          params: { output_format: outputFormat },
+          headers: {
+            'xi-api-key': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+          timeout: this.timeoutMs,
+        }
+      );
+
+      const { audio_base64: audioBase64, alignment } = response.data || {};
+      if (!audioBase64) {
+        throw new Error('No audio content in ElevenLabs response');
+      }
+      if (!alignment?.characters) {
+        throw new Error('No character alignment in ElevenLabs response');
+      }
+
+      const audioBuffer = Buffer.from(audioBase64, 'base64');
+      const timestamps = buildWordTimestamps(alignment);
+      const endTimes: number[] = alignment.character_end_times_seconds || [];
+      const durationMs = endTimes.length > 0
+        ? Math.round(Math.max(...endTimes) * 1000)
+        : 0;
+
+      logger.info(`Generated TTS audio: ${durationMs}ms, ${timestamps.length} words`);
+
+      return {
+        audioBuffer,
+        format: 'mp3',
+        durationMs,
+        timestamps,
+      };
+    } catch (error: any) {
+      const status = error.response?.status;
+      const detail = error.response?.data?.detail;
+      const detailMessage = typeof detail === 'string' ? detail : detail?.message;
+      const message = status
+        ? `HTTP ${status}${detailMessage ? `: ${detailMessage}` : ''}`
+        : error.message;
+
+      logger.error('ElevenLabs TTS generation failed:', message);
+      throw new TTSError(
+        `ElevenLabs TTS failed: ${message}`,
+        'elevenlabs',
+        error
+      );
+    }
+  }
+
+  /**
+   * Resolve a voice by config name (e.g. "rachel") or raw voice ID
+   */
+  private resolveVoice(voice?: string): ElevenLabsVoice {
+    const defaultVoice: ElevenLabsVoice = this.config?.defaultVoice || { voiceId: '21m00Tcm4TlvDq8ikWAM' };
+
+    if (!voice) {
+      return defaultVoice;
+    }
+
+    const named = this.config?.voices?.[voice];
+    if (named) {
+      return { ...defaultVoice, ...named };
+    }
+
+    return { ...defaultVoice, voiceId: voice };
+  }
+
+  /**
+   * Test if ElevenLabs TTS is available
+   */
+  async test(): Promise<boolean> {
+    try {
+      const result = await this.generateAudio('Test');
+      return result.audioBuffer.length > 0;
+    } catch (error) {
+      logger.error('ElevenLabs TTS test failed:', error);
+      return false;
+    }
+  }
+}
@@ -5,9 +5,11 @@
 import { TextToSpeechClient, protos } from '@google-cloud/text-to-speech';
 import { TTSProvider, TTSOptions, TTSResult, WordTimestamp, CharacterTimestamp, TTSError } from '../../lib/media-types';
 import { logger } from '../../utils/logger';
+import { buildSSML } from './ssml-builder';
 
 export class GoogleTTSProvider implements TTSProvider {
   name = 'google-tts';
+  supportsSSML = true;
   private client: TextToSpeechClient;
   private config: any;
 
@@ -42,8 +44,12 @@ export class GoogleTTSProvider implements TTSProvider {
         volumeGainDb: 0.0
       };
 
-      // Add SSML marks for word-level timing
-      const ssmlText = this.addSSMLMarks(text);
+      // Word marks for timing, prosody/breaks/emphasis from speaking notes, lexicon pronunciations
+      const ssmlText = buildSSML(text, {
+        speakingNotes: options?.speakingNotes,
+        emphasis: options?.emphasis,
+        lexicon: options?.lexicon,
+      });
 
       logger.debug(`Generating TTS audio with Google Cloud TTS (voice: ${voiceName})`);
 
@@ -99,56 +105,55 @@ export class GoogleTTSProvider implements TTSProvider {
   }
 
   /**
-   * Add SSML marks before each word for timing
-   */
-  private addSSMLMarks(text: string): string {
-    const words = text.split(/\s+/);
-    const markedWords = words.map((word, i) => `<mark name="word${i}"/>${word}`);
-    return `<speak>${markedWords.join(' ')}</speak>`;
-  }
-
-  /**
-   * Parse word timestamps from SSML mark timepoints
+   * Parse word timestamps from SSML mark timepoints. Marks are matched by
+   * name (word{index}); words without a mark (inner words of a multi-word
+   * lexicon term) are interpolated between their neighbours' marks.
    */
   private parseWordTimestamps(text: string, timepoints: any[]): WordTimestamp[] {
     const words = text.split(/\s+/);
-    const timestamps: WordTimestamp[] = [];
-
-    for (let i = 0; i < timepoints.length; i++) {
-      const timepoint = timepoints[i];
-      const nextTimepoint = timepoints[i + 1];
-
-      const startMs = (timepoint.timeSeconds || 0) * 1000;
-      const endMs = nextTimepoint ? nextTimepoint.timeSeconds * 1000 : startMs + 500; // Estimate end time
+    const markTimes: Array<number | undefined> = new Array(words.length).fill(undefined);
 
-      if (i < words.length) {
-        timestamps.push({
-          word: words[i] || '',
-          startMs,
-          endMs,
-        });
+    timepoints.forEach((timepoint, i) => {
+      const named = /^word(\d+)$/.exec(timepoint.markName || '');
+      const index = named ? Number(named[1]) : i;
+      if (index < words.length) {
+        markTimes[index] = (timepoint.timeSeconds || 0) * 1000;
       }
+    });
+
+    const known = markTimes
+      .map((time, index) => (time === undefined ? -1 : index))
+      .filter(index => index >= 0);
+    if (known.length === 0) {
+      return words.map((word, index) => ({ word, startMs: index * 500, endMs: (index + 1) * 500 }));
     }
 
-    // If we have more words than timepoints, estimate timing for remaining words
-    if (words.length > timepoints.length) {
-      const avgDuration = timestamps.length > 0
-        ? (timestamps[timestamps.length - 1].endMs - timestamps[0].startMs) / timestamps.length
-        : 500;
-
-      let lastEndMs = timestamps.length > 0 ? timestamps[timestamps.length - 1].endMs : 0;
-
-      for (let i = timepoints.length; i < words.length; i++) {
-        timestamps.push({
-          word: words[i],
-          startMs: lastEndMs,
-          endMs: lastEndMs + avgDuration,
-        });
-        lastEndMs += avgDuration;
+    // Average word duration, used for words after the last mark
+    const lastKnown = known[known.length - 1];
+    const avgDuration = lastKnown > known[0]
+      ? (markTimes[lastKnown]! - markTimes[known[0]]!) / (lastKnown - known[0])
+      : 500;
+
+    const startTimes = words.map((_, index) => {
+      if (markTimes[index] !== undefined) {
+        return markTimes[index]!;
       }
-    }
+      const prev = [...known].reverse().find(k => k < index);
+      const next = known.find(k => k > index);
+      if (prev !== undefined && next !== undefined) {
+        return markTimes[prev]! + ((markTimes[next]! - markTimes[prev]!) * (index - prev)) / (next - prev);
+      }
+      if (prev !== undefined) {
+        return markTimes[prev]! + avgDuration * (index - prev);
+      }
+      return 0;
+    });
 
-    return timestamps;
+    return words.map((word, index) => ({
+      word,
+      startMs: startTimes[index],
+      endMs: index + 1 < words.length ? startTimes[index + 1] : startTimes[index] + 500, // Estimate end time
+    }));
   }
 
   /**
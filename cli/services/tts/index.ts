@@ -3,8 +3,17 @@
  */
 
 export * from './google-tts';
+export * from './elevenlabs-tts';
+export * from './local-tts';
+export * from './tts-cache';
+export * from './ssml-builder';
+export * from './lexicon';
 
 import { GoogleTTSProvider } from './google-tts';
+import { ElevenLabsTTSProvider } from './elevenlabs-tts';
+import { LocalTTSProvider } from './local-tts';
+import { TTSCache, computeTTSCacheKey, DEFAULT_TTS_CACHE_DIR } from './tts-cache';
+import { applyLexiconSubstitution, findLexiconMatches, remapTimestamps } from './lexicon';
 import { TTSProvider, TTSOptions, TTSResult, TTSError } from '../../lib/media-types';
 import { ConfigManager } from '../../lib/config';
 import { logger } from '../../utils/logger';
@@ -51,8 +60,17 @@ export class TTSProviderFactory {
       }
 
       case 'elevenlabs': {
-        // ElevenLabs provider not yet implemented
-        throw new Error('ElevenLabs provider not yet implemented');
+        const apiKey = process.env.ELEVENLABS_API_KEY || providerConfig.apiKey;
+        if (!apiKey) {
+          throw new Error('ElevenLabs API key is required. Set ELEVENLABS_API_KEY in .env');
+        }
+        provider = new ElevenLabsTTSProvider(apiKey, providerConfig, config.timeoutMs);
+        break;
+      }
+
+      case 'local': {
+        provider = new LocalTTSProvider(providerConfig, config.timeoutMs);
+        break;
       }
 
       default:
@@ -108,14 +126,94 @@ export class TTSProviderFactory {
 }
 
 /**
- * Generate audio with retry logic and provider fallback
+ * Provider config fields that don't change the synthesized audio
+ */
+const CACHE_KEY_IGNORED_FIELDS = ['name', 'enabled', 'apiKey', 'baseUrl', 'binaryPath', 'ffmpegPath', 'voices', 'defaultVoice', '_comment'];
+
+/**
+ * Providers that render SSML (their supportsSSML), known before they are
+ * initialized so cache lookups don't need to create them
+ */
+const SSML_PROVIDERS = ['google'];
+
+/**
+ * Cache key for a request to one provider: provider, resolved voice,
+ * audio settings (remaining provider config plus per-request options) and
+ * the text it receives. Speaking notes, emphasis and lexicon entries only
+ * reach SSML providers; the others get lexicon aliases substituted into the
+ * text, so only that text is keyed.
+ */
+export function getTTSCacheKey(name: string, providerConfig: any, text: string, options?: TTSOptions): string {
+  const supportsSSML = SSML_PROVIDERS.includes(name);
+  const audioConfig: Record<string, unknown> = {
+    speed: options?.speed,
+    pitch: options?.pitch,
+  };
+  let providerText = text;
+
+  if (supportsSSML) {
+    audioConfig.speakingNotes = options?.speakingNotes;
+    audioConfig.emphasis = options?.emphasis;
+    // Only the entries used by this text, so unrelated lexicon edits keep the cache
+    audioConfig.lexicon = options?.lexicon
+      ? findLexiconMatches(text.split(/\s+/), options.lexicon).map(match => match.entry)
+      : undefined;
+  } else if (options?.lexicon?.length) {
+    const substitution = applyLexiconSubstitution(text, options.lexicon);
+    if (substitution.text !== substitution.originalWords.join(' ')) {
+      providerText = substitution.text;
+    }
+  }
+
+  for (const [field, value] of Object.entries(providerConfig || {})) {
+    if (!CACHE_KEY_IGNORED_FIELDS.includes(field)) {
+      audioConfig[field] = value;
+    }
+  }
+
+  const voice = options?.voice
+    ? providerConfig?.voices?.[options.voice] ?? options.voice
+    : providerConfig?.defaultVoice;
+
+  return computeTTSCacheKey({ provider: name, voice, audioConfig, text: providerText });
+}
+
+/**
+ * Synthesize with one provider. Providers without SSML get lexicon aliases
+ * substituted into the text, and their timestamps mapped back to the
+ * original written words.
+ */
+async function synthesize(provider: TTSProvider, text: string, options?: TTSOptions): Promise<TTSResult> {
+  if (provider.supportsSSML || !options?.lexicon?.length) {
+    return provider.generateAudio(text, options);
+  }
+
+  const substitution = applyLexiconSubstitution(text, options.lexicon);
+  if (substitution.text === substitution.originalWords.join(' ')) {
+    return provider.generateAudio(text, options);
+  }
+
+  const result = await provider.generateAudio(substitution.text, options);
+  return { ...result, timestamps: remapTimestamps(result.timestamps, substitution) };
+}
+
+/**
+ * Generate audio with retry logic and provider fallback.
+ * Providers are tried in fallback order; when caching is enabled each one's
+ * cache is checked just before it is called, so a result cached from a
+ * fallback provider never wins over the primary. A cache hit skips
+ * initializing the provider and calling its API.
  */
 export async function generateWithFallback(
   text: string,
   options?: TTSOptions
-): Promise<{ audio: TTSResult; provider: string }> {
+): Promise<{ audio: TTSResult; provider: string; cached?: boolean }> {
   const config = await ConfigManager.loadTTSConfig();
-  const providers = await TTSProviderFactory.getFallbackProviders();
+  const fallbackOrder = config.fallbackOrder || [config.defaultProvider || 'google'];
+  const cache = config.caching?.enabled
+    ? new TTSCache(config.caching.directory || DEFAULT_TTS_CACHE_DIR, config.caching.ttlSeconds)
+    : undefined;
+
   const retryConfig = config.retryConfig || {
     maxRetries: 3,
     retryDelayMs: 1000,
@@ -125,7 +223,28 @@ export async function generateWithFallback(
 
   let lastError: Error | undefined;
 
-  for (const { name, provider } of providers) {
+  for (const name of fallbackOrder) {
+    const providerConfig = config.providers?.[name];
+    if (!providerConfig?.enabled) continue;
+
+    const cacheKey = getTTSCacheKey(name, providerConfig, text, options);
+    if (cache) {
+      const cached = await cache.get(cacheKey);
+      if (cached) {
+        logger.info(`TTS cache hit (${name}): ${text.substring(0, 50)}...`);
+        return { audio: cached, provider: name, cached: true };
+      }
+    }
+
+    let provider: TTSProvider;
+    try {
+      provider = await TTSProviderFactory.getProvider(name);
+    } catch (error: any) {
+      logger.warn(`Could not initialize ${name} provider: ${error.message}`);
+      lastError = error;
+      continue;
+    }
+
     try {
       logger.info(`Attempting TTS generation with ${name}...`);
 
@@ -133,7 +252,7 @@ export async function generateWithFallback(
       const audio = await withRetry(
         async () => {
           return withTimeout(
-            provider.generateAudio(text, options),
+            synthesize(provider, text, options),
             timeoutMs,
             `TTS generation with ${name}`
           );
@@ -143,6 +262,15 @@ export async function generateWithFallback(
       );
 
       logger.info(`TTS succeeded with provider: ${name}`);
+
+      if (cache) {
+        try {
+          await cache.set(cacheKey, audio, { provider: name, text });
+        } catch (error: any) {
+          logger.warn(`Failed to write TTS cache: ${error.message}`);
+        }
+      }
+
       return { audio, provider: name };
     } catch (error: any) {
       logger.warn(`TTS failed with ${name}: ${error.message}`);
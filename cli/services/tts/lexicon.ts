@@ -0,0 +1,191 @@
+/**
+ * Pronunciation lexicon for TTS
+ *
+ * Entries from config/lexicon.json, overridden by a project's lexicon.json,
+ * map written terms to a phoneme and/or a spoken alias. SSML providers render
+ * them as <phoneme>/<sub>; for other providers the alias is substituted into
+ * the text and the returned word timestamps are mapped back to the original
+ * written words, so subtitles keep the real spelling.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConfigManager, LexiconConfig } from '../../lib/config';
+import { LexiconEntry, WordTimestamp } from '../../lib/media-types';
+
+export interface LexiconMatch {
+  /** Index of the first matched word */
+  start: number;
+  /** Index after the last matched word */
+  end: number;
+  entry: LexiconEntry;
+}
+
+export interface LexiconSubstitution {
+  /** Text to send to the provider */
+  text: string;
+  /** Original written words */
+  originalWords: string[];
+  /** For each original word, the range of spoken words it became */
+  wordMap: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Split a word into leading punctuation, core and trailing punctuation
+ */
+export function splitWordPunctuation(word: string): { prefix: string; core: string; suffix: string } {
+  const match = word.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u);
+  return match
+    ? { prefix: match[1], core: match[2], suffix: match[3] }
+    : { prefix: '', core: word, suffix: '' };
+}
+
+/**
+ * Merge lexicon configs into entries; later configs override earlier ones
+ */
+export function toLexiconEntries(...configs: Array<LexiconConfig | undefined>): LexiconEntry[] {
+  const merged = new Map<string, LexiconEntry>();
+
+  for (const config of configs) {
+    for (const [term, entry] of Object.entries(config?.entries || {})) {
+      merged.set(term.toLowerCase(), {
+        term,
+        alias: entry.alias,
+        phoneme: entry.phoneme,
+        alphabet: entry.alphabet,
+        caseSensitive: entry.caseSensitive,
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Load the global lexicon merged with a project's lexicon.json, if any
+ * @param projectLexiconPath - Path to the project's lexicon.json
+ */
+export async function loadLexicon(projectLexiconPath?: string): Promise<LexiconEntry[]> {
+  const globalPath = path.join(process.cwd(), 'config', 'lexicon.json');
+  const hasGlobal = await fs.access(globalPath).then(() => true, () => false);
+
+  const globalLexicon = hasGlobal ? await ConfigManager.loadLexiconConfig() : undefined;
+  const projectLexicon = projectLexiconPath
+    ? await ConfigManager.loadProjectLexicon(projectLexiconPath)
+    : undefined;
+
+  return toLexiconEntries(globalLexicon, projectLexicon);
+}
+
+/**
+ * Find non-overlapping lexicon terms in a word list. Longer terms win, and
+ * punctuation around words is ignored when comparing.
+ */
+export function findLexiconMatches(words: string[], lexicon: LexiconEntry[]): LexiconMatch[] {
+  const entries = lexicon
+    .map(entry => ({ entry, termWords: entry.term.split(/\s+/).filter(Boolean) }))
+    .filter(({ termWords }) => termWords.length > 0)
+    .sort((a, b) => b.termWords.length - a.termWords.length);
+  const cores = words.map(word => splitWordPunctuation(word).core);
+
+  const matches: LexiconMatch[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const found = entries.find(({ entry, termWords }) =>
+      i + termWords.length <= words.length &&
+      termWords.every((termWord, offset) => {
+        const core = cores[i + offset];
+        return entry.caseSensitive ? core === termWord : core.toLowerCase() === termWord.toLowerCase();
+      })
+    );
+
+    if (found) {
+      matches.push({ start: i, end: i + found.termWords.length, entry: found.entry });
+      i += found.termWords.length;
+    } else {
+      i++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Replace lexicon terms that have an alias with the alias, keeping
+ * surrounding punctuation. Phoneme-only entries are left as written.
+ */
+export function applyLexiconSubstitution(text: string, lexicon: LexiconEntry[]): LexiconSubstitution {
+  const originalWords = text.split(/\s+/).filter(Boolean);
+  const matches = findLexiconMatches(originalWords, lexicon).filter(match => match.entry.alias);
+  const matchAt = new Map(matches.map(match => [match.start, match]));
+
+  const spokenWords: string[] = [];
+  const wordMap: Array<{ start: number; end: number }> = [];
+
+  let i = 0;
+  while (i < originalWords.length) {
+    const match = matchAt.get(i);
+    if (!match) {
+      wordMap.push({ start: spokenWords.length, end: spokenWords.length + 1 });
+      spokenWords.push(originalWords[i]);
+      i++;
+      continue;
+    }
+
+    const { prefix } = splitWordPunctuation(originalWords[match.start]);
+    const { suffix } = splitWordPunctuation(originalWords[match.end - 1]);
+    const aliasWords = `${prefix}${match.entry.alias}${suffix}`.split(/\s+/).filter(Boolean);
+
+    const range = { start: spokenWords.length, end: spokenWords.length + aliasWords.length };
+    for (let j = match.start; j < match.end; j++) {
+      wordMap.push(range);
+    }
+    spokenWords.push(...aliasWords);
+    i = match.end;
+  }
+
+  return { text: spokenWords.join(' '), originalWords, wordMap };
+}
+
+/**
+ * Map timestamps for the substituted text back onto the original words.
+ * A multi-word term shares its alias' time span, split by word length.
+ */
+export function remapTimestamps(timestamps: WordTimestamp[], substitution: LexiconSubstitution): WordTimestamp[] {
+  const { originalWords, wordMap } = substitution;
+  if (timestamps.length === 0) {
+    return timestamps;
+  }
+
+  const result: WordTimestamp[] = [];
+  let i = 0;
+  while (i < originalWords.length) {
+    const range = wordMap[i];
+    let spanEnd = i + 1;
+    while (spanEnd < originalWords.length && wordMap[spanEnd] === range) {
+      spanEnd++;
+    }
+
+    const first = timestamps[Math.min(range.start, timestamps.length - 1)];
+    const last = timestamps[Math.min(range.end - 1, timestamps.length - 1)];
+    const spanWords = originalWords.slice(i, spanEnd);
+
+    if (spanWords.length === 1 && range.end - range.start === 1 && first.word === spanWords[0]) {
+      result.push(first);
+    } else {
+      const totalLength = spanWords.reduce((sum, word) => sum + word.length, 0);
+      let cursor = first.startMs;
+      spanWords.forEach((word, offset) => {
+        const endMs = offset === spanWords.length - 1
+          ? last.endMs
+          : cursor + ((last.endMs - first.startMs) * word.length) / totalLength;
+        result.push({ word, startMs: cursor, endMs });
+        cursor = endMs;
+      });
+    }
+
+    i = spanEnd;
+  }
+
+  return result;
+}
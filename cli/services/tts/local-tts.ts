@@ -0,0 +1,286 @@
+/**
+ * Offline Text-to-Speech using a locally installed engine (espeak-ng or piper)
+ * Output is converted to MP3 with ffmpeg. Word timing is estimated by
+ * spreading the measured audio duration over the words, weighted by the
+ * phonemes espeak-ng reports for each word.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TTSProvider, TTSOptions, TTSResult, WordTimestamp, TTSError } from '../../lib/media-types';
+import { logger } from '../../utils/logger';
+
+export type LocalTTSEngine = 'espeak-ng' | 'piper';
+
+/** Extra weight (in phonemes) for the pause after a comma-like break */
+const CLAUSE_PAUSE_WEIGHT = 2;
+/** Extra weight (in phonemes) for the pause after a sentence end */
+const SENTENCE_PAUSE_WEIGHT = 4;
+
+interface ProcessResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a binary without a shell, optionally feeding text on stdin
+ */
+function runProcess(command: string, args: string[], input: string | undefined, timeoutMs: number): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    proc.stdout.on('data', chunk => (stdout += chunk));
+    proc.stderr.on('data', chunk => (stderr += chunk));
+    proc.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+    proc.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) return resolve({ stdout, stderr });
+      reject(new Error(`${command} exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`));
+    });
+
+    proc.stdin.on('error', () => undefined);
+    proc.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * Read the duration of a PCM WAV file from its header
+ */
+export function getWavDurationMs(wav: Buffer): number {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    let chunkSize = wav.readUInt32LE(offset + 4);
+
+    if (chunkId === 'fmt ') {
+      byteRate = wav.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data') {
+      if (!byteRate) {
+        throw new Error('WAV data chunk found before fmt chunk');
+      }
+      // Streamed WAVs (e.g. espeak-ng writing to a pipe) leave the size at 0 or 0xFFFFFFFF
+      if (chunkSize === 0 || chunkSize === 0xffffffff || offset + 8 + chunkSize > wav.length) {
+        chunkSize = wav.length - offset - 8;
+      }
+      return Math.round((chunkSize / byteRate) * 1000);
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Split espeak-ng IPA output into per-word phoneme counts.
+ * Returns undefined when the word count does not match the text (e.g. numbers
+ * expanded to several words), so callers can fall back to letter counts.
+ */
+export function parsePhonemeWeights(ipa: string, wordCount: number): number[] | undefined {
+  const tokens = ipa
+    .replace(/[ˈˌ_]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (tokens.length !== wordCount) {
+    return undefined;
+  }
+
+  // Count IPA symbols, ignoring length marks and combining diacritics
+  return tokens.map(token => Math.max(1, Array.from(token.replace(/[ːˑ\u0300-\u036f]/g, '')).length));
+}
+
+/**
+ * Estimate word timestamps by distributing the audio duration across words
+ * in proportion to their weights, with extra time for punctuation pauses.
+ * @param words - Words in spoken order (punctuation attached)
+ * @param durationMs - Total audio duration
+ * @param weights - Per-word weights (phoneme counts); defaults to letter counts
+ */
+export function estimateWordTimestamps(words: string[], durationMs: number, weights?: number[]): WordTimestamp[] {
+  if (words.length === 0) {
+    return [];
+  }
+
+  const wordWeights = words.map((word, i) =>
+    weights?.[i] ?? Math.max(1, word.replace(/[^\p{L}\p{N}]/gu, '').length)
+  );
+  const pauseWeights = words.map((word, i): number => {
+    if (i === words.length - 1) return 0;
+    if (/[.!?]["')\]]*$/.test(word)) return SENTENCE_PAUSE_WEIGHT;
+    if (/[,;:—-]["')\]]*$/.test(word)) return CLAUSE_PAUSE_WEIGHT;
+    return 0;
+  });
+
+  const totalWeight = wordWeights.reduce((sum, w) => sum + w, 0) + pauseWeights.reduce((sum, w) => sum + w, 0);
+  const msPerWeight = durationMs / totalWeight;
+
+  const timestamps: WordTimestamp[] = [];
+  let cursor = 0;
+  words.forEach((word, i) => {
+    const startMs = Math.round(cursor);
+    cursor += wordWeights[i] * msPerWeight;
+    const endMs = i === words.length - 1 ? durationMs : Math.round(cursor);
+    timestamps.push({ word, startMs, endMs });
+    cursor += pauseWeights[i] * msPerWeight;
+  });
+
+  return timestamps;
+}
+
+export class LocalTTSProvider implements TTSProvider {
+  name = 'local';
+  private config: any;
+  private engine: LocalTTSEngine;
+  private timeoutMs: number;
+
+  constructor(config?: any, timeoutMs: number = 60000) {
+    this.config = config;
+    this.engine = config?.engine || 'espeak-ng';
+    this.timeoutMs = timeoutMs;
+
+    if (this.engine !== 'espeak-ng' && this.engine !== 'piper') {
+      throw new Error(`Unsupported local TTS engine "${this.engine}" (use "espeak-ng" or "piper")`);
+    }
+    if (this.engine === 'piper' && !config?.piper?.model) {
+      throw new Error('Piper requires providers.local.piper.model (path to an .onnx voice)');
+    }
+  }
+
+  /**
+   * Generate MP3 audio with estimated word timing
+   */
+  async generateAudio(text: string, options?: TTSOptions): Promise<TTSResult> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-tts-'));
+    const wavPath = path.join(workDir, 'speech.wav');
+    const mp3Path = path.join(workDir, 'speech.mp3');
+
+    try {
+      logger.debug(`Generating TTS audio with ${this.engine}`);
+
+      const phonemes = this.engine === 'piper'
+        ? await this.synthesizeWithPiper(text, wavPath, options)
+        : await this.synthesizeWithEspeak(text, wavPath, options);
+
+      const durationMs = getWavDurationMs(await fs.readFile(wavPath));
+
+      await runProcess(
+        this.config?.ffmpegPath || process.env.FFMPEG_PATH || 'ffmpeg',
+        ['-y', '-loglevel', 'error', '-i', wavPath, '-codec:a', 'libmp3lame', '-b:a', this.config?.bitrate || '128k', mp3Path],
+        undefined,
+        this.timeoutMs
+      );
+      const audioBuffer = await fs.readFile(mp3Path);
+
+      const words = text.split(/\s+/).filter(Boolean);
+      const weights = phonemes !== undefined ? parsePhonemeWeights(phonemes, words.length) : undefined;
+      const timestamps = estimateWordTimestamps(words, durationMs, weights);
+
+      logger.info(`Generated TTS audio: ${durationMs}ms, ${timestamps.length} words`);
+
+      return {
+        audioBuffer,
+        format: 'mp3',
+        durationMs,
+        timestamps,
+      };
+    } catch (error: any) {
+      logger.error(`Local TTS generation failed (${this.engine}):`, error.message);
+      throw new TTSError(
+        `Local TTS failed: ${error.message}`,
+        'local',
+        error
+      );
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Synthesize with espeak-ng. Returns the IPA transcription it prints
+   * alongside the audio, used to weight word timing. No -q here: it turns
+   * off speech output, so -w would write no WAV.
+   */
+  private async synthesizeWithEspeak(text: string, wavPath: string, options?: TTSOptions): Promise<string> {
+    const espeak = this.config?.espeak || {};
+    const speed = options?.speed ?? 1.0;
+    const wordsPerMinute = Math.round((espeak.wordsPerMinute || 175) * speed);
+    // TTSOptions pitch is in semitones (-20..20); espeak-ng uses 0..99 with 50 as neutral
+    const pitch = Math.min(99, Math.max(0, Math.round(50 + (options?.pitch ?? 0) * 2.5)));
+
+    const { stdout } = await runProcess(
+      this.config?.binaryPath || 'espeak-ng',
+      [
+        '-v', options?.voice || this.config?.defaultVoice || 'en-us',
+        '-s', String(wordsPerMinute),
+        '-p', String(pitch),
+        '-w', wavPath,
+        '--ipa',
+        '--stdin',
+      ],
+      text,
+      this.timeoutMs
+    );
+
+    return stdout;
+  }
+
+  /**
+   * Synthesize with piper. Returns the IPA transcription from espeak-ng when
+   * it is installed (piper phonemizes with espeak-ng), otherwise undefined.
+   */
+  private async synthesizeWithPiper(text: string, wavPath: string, options?: TTSOptions): Promise<string | undefined> {
+    const piper = this.config?.piper || {};
+    const args = ['--model', options?.voice || piper.model, '--output_file', wavPath];
+    if (piper.speaker !== undefined) {
+      args.push('--speaker', String(piper.speaker));
+    }
+    if (options?.speed) {
+      args.push('--length_scale', String(1 / options.speed));
+    }
+
+    await runProcess(this.config?.binaryPath || 'piper', args, text, this.timeoutMs);
+
+    try {
+      const { stdout } = await runProcess(
+        'espeak-ng',
+        ['-v', piper.phonemeVoice || 'en-us', '--ipa', '-q', '--stdin'],
+        text,
+        this.timeoutMs
+      );
+      return stdout;
+    } catch {
+      logger.debug('espeak-ng not available for phoneme weighting, using letter counts');
+      return undefined;
+    }
+  }
+
+  /**
+   * Test if the local engine and ffmpeg are available
+   */
+  async test(): Promise<boolean> {
+    try {
+      const result = await this.generateAudio('Test');
+      return result.audioBuffer.length > 0;
+    } catch (error) {
+      logger.error('Local TTS test failed:', error);
+      return false;
+    }
+  }
+}
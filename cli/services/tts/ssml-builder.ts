@@ -0,0 +1,211 @@
+/**
+ * SSML builder for script speaking notes and emphasis
+ *
+ * Turns a segment's free-form speakingNotes ("slow, serious, dramatic pause
+ * before 'never'") and emphasis data into <prosody>, <break> and <emphasis>
+ * tags, and lexicon terms into <phoneme>/<sub>. Every word keeps its
+ * <mark name="wordN"/> so providers can still report word-level timing; N is
+ * the index in text.split(/\s+/). A multi-word lexicon term is marked only at
+ * its first word.
+ */
+
+import { LexiconEntry } from '../../lib/media-types';
+import { findLexiconMatches, LexiconMatch, splitWordPunctuation } from './lexicon';
+
+export interface SSMLEmphasis {
+  wordIndex: number;
+  level: 'med' | 'high';
+}
+
+export interface SpeakingStyle {
+  /** Speaking rate multiplier (1.0 = normal) */
+  rate?: number;
+  /** Pitch shift in semitones */
+  pitchSemitones?: number;
+  /** Pause after sentence-ending punctuation */
+  sentenceBreakMs?: number;
+  /** Pause after commas, semicolons, colons and dashes */
+  clauseBreakMs?: number;
+  /** Words or phrases quoted in the notes, to be emphasized */
+  emphasizedTerms: string[];
+}
+
+export interface SSMLBuildOptions {
+  speakingNotes?: string;
+  emphasis?: SSMLEmphasis[];
+  lexicon?: LexiconEntry[];
+}
+
+const SLOW_PATTERN = /\b(slow(ly|er)?|measured|deliberate(ly)?|unhurried|calm(ly)?|gentle|gently|soft(ly)?)\b/i;
+const FAST_PATTERN = /\b(fast(er)?|quick(ly)?|brisk(ly)?|rapid(ly)?|energetic|urgent(ly)?|punchy)\b/i;
+const HIGH_PITCH_PATTERN = /\b(excited|enthusiastic|upbeat|cheerful|playful|bright|energetic)\b/i;
+const LOW_PITCH_PATTERN = /\b(serious|somber|sombre|grave|solemn|ominous|dark)\b/i;
+const PAUSE_PATTERN = /\b(pause[sd]?|dramatic|beat)\b/i;
+
+/**
+ * Derive a speaking style from free-form speaking notes.
+ * Contradictory cues (e.g. both "slow" and "fast") cancel out.
+ */
+export function parseSpeakingNotes(notes?: string): SpeakingStyle {
+  const style: SpeakingStyle = { emphasizedTerms: [] };
+  if (!notes) {
+    return style;
+  }
+
+  const slow = SLOW_PATTERN.test(notes);
+  const fast = FAST_PATTERN.test(notes);
+  if (slow !== fast) {
+    style.rate = slow ? 0.9 : 1.1;
+  }
+
+  const high = HIGH_PITCH_PATTERN.test(notes);
+  const low = LOW_PITCH_PATTERN.test(notes);
+  if (high !== low) {
+    style.pitchSemitones = high ? 2 : -2;
+  }
+
+  if (PAUSE_PATTERN.test(notes)) {
+    style.sentenceBreakMs = 600;
+    style.clauseBreakMs = 250;
+  }
+
+  // Terms in double/curly quotes, or single quotes not used as apostrophes
+  const quoted = /["“]([^"”]+)["”]|(?:^|[^\w])'([^']+)'(?!\w)/g;
+  let match: RegExpExecArray | null;
+  while ((match = quoted.exec(notes)) !== null) {
+    const term = (match[1] || match[2]).trim();
+    if (term) {
+      style.emphasizedTerms.push(term);
+    }
+  }
+
+  return style;
+}
+
+/**
+ * Escape text for inclusion in SSML
+ */
+export function escapeSSML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, '').trim();
+}
+
+/**
+ * Word indices covered by quoted terms (multi-word phrases included)
+ */
+function findTermIndices(words: string[], terms: string[]): Set<number> {
+  const indices = new Set<number>();
+  const normalized = words.map(normalizeWord);
+
+  for (const term of terms) {
+    const termWords = term.split(/\s+/).map(normalizeWord).filter(Boolean);
+    if (termWords.length === 0) continue;
+
+    for (let start = 0; start + termWords.length <= normalized.length; start++) {
+      if (termWords.every((w, offset) => normalized[start + offset] === w)) {
+        termWords.forEach((_, offset) => indices.add(start + offset));
+      }
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Render a matched lexicon term, keeping punctuation outside the tag
+ */
+function renderLexiconTerm(words: string[], match: LexiconMatch): string {
+  const { prefix } = splitWordPunctuation(words[match.start]);
+  const { suffix } = splitWordPunctuation(words[match.end - 1]);
+  const written = words.slice(match.start, match.end).join(' ');
+  const inner = escapeSSML(written.substring(prefix.length, written.length - suffix.length));
+  const { entry } = match;
+
+  const tagged = entry.phoneme
+    ? `<phoneme alphabet="${entry.alphabet}" ph="${escapeSSML(entry.phoneme)}">${inner}</phoneme>`
+    : `<sub alias="${escapeSSML(entry.alias || '')}">${inner}</sub>`;
+
+  return `${escapeSSML(prefix)}${tagged}${escapeSSML(suffix)}`;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatPitch(semitones: number): string {
+  return `${semitones > 0 ? '+' : ''}${semitones}st`;
+}
+
+/**
+ * Build SSML for a segment, keeping a word mark before every word
+ */
+export function buildSSML(text: string, options: SSMLBuildOptions = {}): string {
+  const style = parseSpeakingNotes(options.speakingNotes);
+  const words = text.split(/\s+/);
+
+  const levels = new Map<number, 'moderate' | 'strong'>();
+  findTermIndices(words, style.emphasizedTerms).forEach(index => levels.set(index, 'moderate'));
+  for (const { wordIndex, level } of options.emphasis || []) {
+    levels.set(wordIndex, level === 'high' ? 'strong' : 'moderate');
+  }
+
+  const lexiconMatches = new Map(
+    findLexiconMatches(words, options.lexicon || []).map(match => [match.start, match])
+  );
+
+  const parts: string[] = [];
+  let i = 0;
+  while (i < words.length) {
+    const match = lexiconMatches.get(i);
+    const end = match ? match.end : i + 1;
+    const lastWord = words[end - 1];
+
+    let part = `<mark name="word${i}"/>${match ? renderLexiconTerm(words, match) : escapeSSML(words[i])}`;
+
+    // A lexicon term takes the strongest emphasis of its words
+    let level: 'moderate' | 'strong' | undefined;
+    for (let j = i; j < end; j++) {
+      const wordLevel = levels.get(j);
+      if (wordLevel === 'strong' || (wordLevel && !level)) {
+        level = wordLevel;
+      }
+    }
+    if (level) {
+      part = `<emphasis level="${level}">${part}</emphasis>`;
+    }
+
+    if (end < words.length) {
+      if (style.sentenceBreakMs && /[.!?]["')\]]*$/.test(lastWord)) {
+        part += `<break time="${style.sentenceBreakMs}ms"/>`;
+      } else if (style.clauseBreakMs && /[,;:—]["')\]]*$/.test(lastWord)) {
+        part += `<break time="${style.clauseBreakMs}ms"/>`;
+      }
+    }
+
+    parts.push(part);
+    i = end;
+  }
+
+  let body = parts.join(' ');
+
+  const prosodyAttrs: string[] = [];
+  if (style.rate !== undefined) {
+    prosodyAttrs.push(`rate="${formatRate(style.rate)}"`);
+  }
+  if (style.pitchSemitones !== undefined) {
+    prosodyAttrs.push(`pitch="${formatPitch(style.pitchSemitones)}"`);
+  }
+  if (prosodyAttrs.length > 0) {
+    body = `<prosody ${prosodyAttrs.join(' ')}>${body}</prosody>`;
+  }
+
+  return `<speak>${body}</speak>`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Content-addressed disk cache for TTS output
+ *
+ * Each entry is stored as `<key>.mp3` plus `<key>.json` (duration, word
+ * timestamps and metadata). The key is a hash of provider, voice, audio
+ * settings and the cleaned text, so any change to these re-synthesizes.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { TTSResult, WordTimestamp } from '../../lib/media-types';
+import { logger } from '../../utils/logger';
+
+export const DEFAULT_TTS_CACHE_DIR = 'cache/tts';
+export const DEFAULT_TTS_CACHE_TTL_SECONDS = 2592000;
+
+export interface TTSCacheKeyInput {
+  provider: string;
+  voice: unknown;
+  audioConfig: unknown;
+  text: string;
+}
+
+interface TTSCacheMetadata {
+  key: string;
+  provider: string;
+  format: 'mp3';
+  durationMs: number;
+  timestamps: WordTimestamp[];
+  textPreview: string;
+  createdAt: string;
+}
+
+export interface TTSCacheStats {
+  directory: string;
+  entries: number;
+  expired: number;
+  totalBytes: number;
+  byProvider: Record<string, { entries: number; bytes: number }>;
+  oldest?: string;
+  newest?: string;
+}
+
+export interface TTSCachePruneResult {
+  removed: number;
+  freedBytes: number;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equivalent configs hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compute the cache key for a synthesis request
+ */
+export function computeTTSCacheKey(input: TTSCacheKeyInput): string {
+  return createHash('sha256')
+    .update(stableStringify({
+      provider: input.provider,
+      voice: input.voice,
+      audioConfig: input.audioConfig,
+      text: input.text,
+    }))
+    .digest('hex');
+}
+
+export class TTSCache {
+  private cacheDir: string;
+  private ttlMs: number;
+
+  constructor(cacheDir: string = DEFAULT_TTS_CACHE_DIR, ttlSeconds: number = DEFAULT_TTS_CACHE_TTL_SECONDS) {
+    this.cacheDir = cacheDir;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  /**
+   * Return a cached result, or undefined on a miss or an expired entry
+   */
+  async get(key: string): Promise<TTSResult | undefined> {
+    const metadata = await this.readMetadata(key);
+    if (!metadata) {
+      return undefined;
+    }
+
+    if (this.isExpired(metadata)) {
+      logger.debug(`TTS cache entry expired: ${key}`);
+      await this.remove(key);
+      return undefined;
+    }
+
+    try {
+      const audioBuffer = await fs.readFile(this.audioPath(key));
+      return {
+        audioBuffer,
+        format: metadata.format,
+        durationMs: metadata.durationMs,
+        timestamps: metadata.timestamps,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a result. The audio is written before the metadata, so a partial
+   * write never produces a readable entry.
+   */
+  async set(key: string, result: TTSResult, info: { provider: string; text: string }): Promise<void> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+
+    const metadata: TTSCacheMetadata = {
+      key,
+      provider: info.provider,
+      format: result.format,
+      durationMs: result.durationMs,
+      timestamps: result.timestamps,
+      textPreview: info.text.substring(0, 80),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.writeAtomic(this.audioPath(key), result.audioBuffer);
+    await this.writeAtomic(this.metadataPath(key), JSON.stringify(metadata, null, 2));
+  }
+
+  /**
+   * Summarize cache contents
+   */
+  async stats(): Promise<TTSCacheStats> {
+    const stats: TTSCacheStats = {
+      directory: this.cacheDir,
+      entries: 0,
+      expired: 0,
+      totalBytes: 0,
+      byProvider: {},
+    };
+
+    for (const key of await this.listKeys()) {
+      const metadata = await this.readMetadata(key);
+      if (!metadata) continue;
+
+      const bytes = await this.entryBytes(key);
+      stats.entries++;
+      stats.totalBytes += bytes;
+      if (this.isExpired(metadata)) {
+        stats.expired++;
+      }
+
+      const provider = stats.byProvider[metadata.provider] || { entries: 0, bytes: 0 };
+      provider.entries++;
+      provider.bytes += bytes;
+      stats.byProvider[metadata.provider] = provider;
+
+      if (!stats.oldest || metadata.createdAt < stats.oldest) stats.oldest = metadata.createdAt;
+      if (!stats.newest || metadata.createdAt > stats.newest) stats.newest = metadata.createdAt;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Delete expired entries and leftovers from interrupted writes
+   * @param options.all - Delete every entry, expired or not
+   * @param options.dryRun - Report what would be deleted without deleting
+   */
+  async prune(options: { all?: boolean; dryRun?: boolean } = {}): Promise<TTSCachePruneResult> {
+    const result: TTSCachePruneResult = { removed: 0, freedBytes: 0 };
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.cacheDir);
+    } catch {
+      return result;
+    }
+
+    // Temp files and audio without metadata are never readable
+    for (const file of files) {
+      const orphanAudio = file.endsWith('.mp3') && !files.includes(file.replace(/\.mp3$/, '.json'));
+      if (file.includes('.tmp-') || orphanAudio) {
+        result.freedBytes += await this.fileBytes(path.join(this.cacheDir, file));
+        if (!options.dryRun) {
+          await fs.rm(path.join(this.cacheDir, file), { force: true });
+        }
+      }
+    }
+
+    for (const key of await this.listKeys()) {
+      const metadata = await this.readMetadata(key);
+      const complete = metadata && files.includes(`${key}.mp3`);
+      if (complete && !options.all && !this.isExpired(metadata!)) continue;
+
+      result.removed++;
+      result.freedBytes += await this.entryBytes(key);
+      if (!options.dryRun) {
+        await this.remove(key);
+      }
+    }
+
+    return result;
+  }
+
+  private isExpired(metadata: TTSCacheMetadata): boolean {
+    const createdAt = Date.parse(metadata.createdAt);
+    return Number.isNaN(createdAt) || Date.now() - createdAt > this.ttlMs;
+  }
+
+  private audioPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.mp3`);
+  }
+
+  private metadataPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  private async listKeys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.cacheDir);
+      return files.filter(file => /^[0-9a-f]{64}\.json$/.test(file)).map(file => file.replace(/\.json$/, ''));
+    } catch {
+      return [];
+    }
+  }
+
+  private async readMetadata(key: string): Promise<TTSCacheMetadata | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(key), 'utf-8')) as TTSCacheMetadata;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async entryBytes(key: string): Promise<number> {
+    return (await this.fileBytes(this.audioPath(key))) + (await this.fileBytes(this.metadataPath(key)));
+  }
+
+  private async fileBytes(filePath: string): Promise<number> {
+    try {
+      return (await fs.stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    await fs.rm(this.metadataPath(key), { force: true });
+    await fs.rm(this.audioPath(key), { force: true });
+  }
+
+  private async writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    const tmpPath = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+  }
+}
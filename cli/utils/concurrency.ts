@@ -0,0 +1,88 @@
+/**
+ * Concurrency utilities for bounded parallel work
+ */
+
+/**
+ * Runs a task once a slot is free
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `maxConcurrent` tasks at a time.
+ * Queued tasks start in the order they were submitted.
+ * @param maxConcurrent - Maximum number of tasks running at once (minimum 1)
+ */
+export function createLimiter(maxConcurrent: number): Limiter {
+  const limit = Math.max(1, Math.floor(maxConcurrent));
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) {
+      return;
+    }
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const release = () => {
+        active--;
+        next();
+      };
+
+      queue.push(() => {
+        Promise.resolve().then(task).then(
+          (value) => {
+            release();
+            resolve(value);
+          },
+          (error) => {
+            release();
+            reject(error);
+          }
+        );
+      });
+      next();
+    });
+}
+
+/**
+ * Map items through an async function with bounded parallelism.
+ * Results keep the input order. On failure no new items are started; the
+ * first error is thrown once in-flight items have settled.
+ * @param items - Items to process
+ * @param maxConcurrent - Maximum number of items processed at once
+ * @param fn - Async function applied to each item
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  maxConcurrent: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const limit = Math.max(1, Math.floor(maxConcurrent));
+  let nextIndex = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        if (!failure) {
+          failure = { error };
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
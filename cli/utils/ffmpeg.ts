@@ -0,0 +1,54 @@
+/**
+ * ffmpeg process helpers shared by audio mastering and render post-processing
+ */
+
+import { spawn } from 'child_process';
+
+/**
+ * Run ffmpeg or ffprobe and resolve with the stream that carries its results
+ */
+function run(name: 'ffmpeg' | 'ffprobe', executable: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(executable, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      reject(new Error(`${name} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    proc.stdout.on('data', chunk => (stdout += chunk));
+    proc.stderr.on('data', chunk => (stderr += chunk));
+    proc.on('error', error => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ${name}: ${error.message}`));
+    });
+    proc.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) return resolve(name === 'ffprobe' ? stdout : stderr);
+      const lastLine = stderr.trim().split('\n').pop();
+      reject(new Error(`${name} exited with code ${code}${lastLine ? `: ${lastLine}` : ''}`));
+    });
+  });
+}
+
+/**
+ * Run ffmpeg and resolve with its stderr, where ffmpeg reports
+ * measurements and errors
+ * @param ffmpegPath - Executable to run
+ * @param args - Command-line arguments
+ * @param timeoutMs - Kill the process after this long
+ */
+export function runFfmpeg(ffmpegPath: string, args: string[], timeoutMs: number): Promise<string> {
+  return run('ffmpeg', ffmpegPath, args, timeoutMs);
+}
+
+/**
+ * Run ffprobe and resolve with its stdout (the requested print format)
+ * @param ffprobePath - Executable to run
+ * @param args - Command-line arguments
+ * @param timeoutMs - Kill the process after this long
+ */
+export function runFfprobe(ffprobePath: string, args: string[], timeoutMs: number): Promise<string> {
+  return run('ffprobe', ffprobePath, args, timeoutMs);
+}
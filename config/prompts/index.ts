@@ -12,6 +12,7 @@ export * from './script.prompt';
 export * from './gather.prompt';
 export * from './emphasis.prompt';
 export * from './hold-buffer.prompt';
+export * from './music.prompt';
 
 // Re-export prompt manager utilities
 export { renderPrompt, formatList, formatKeyValue, section, createPrompt, PromptBuilder } from '../../cli/lib/prompt-manager';
@@ -0,0 +1,52 @@
+/**
+ * Music Mood Prompts
+ *
+ * Stage 5: Pick a background music mood from the topic and script tone
+ */
+
+import { z } from 'zod';
+
+export const MusicMoodSchema = z.object({
+  mood: z.enum(['uplifting', 'dramatic', 'calm', 'energetic', 'inspiring', 'mysterious', 'sad', 'happy'])
+    .describe('Background music mood'),
+  reasoning: z.string().describe('Brief explanation of why this mood fits the video'),
+});
+
+export type MusicMoodData = z.infer<typeof MusicMoodSchema>;
+
+export interface MusicMoodPromptVariables {
+  title: string;              // Refined video title
+  description?: string;       // Refined topic description
+  targetAudience?: string;    // Who the video is for
+  speakingNotes?: string[];   // Per-segment tone/pacing notes from the script
+  openingText?: string;       // First lines of narration
+}
+
+/**
+ * Main prompt for choosing a background music mood
+ */
+export const musicMoodPrompt = (vars: MusicMoodPromptVariables): string => {
+  const notes = Array.from(new Set((vars.speakingNotes || []).filter(Boolean))).slice(0, 10);
+  const notesSection = notes.length > 0
+    ? `\n\nScript tone (speaking notes):\n${notes.map((note) => `- ${note}`).join('\n')}`
+    : '';
+
+  return `Choose a background music mood for this YouTube video.
+
+Title: "${vars.title}"${vars.description ? `\nDescription: ${vars.description}` : ''}${vars.targetAudience ? `\nAudience: ${vars.targetAudience}` : ''}${notesSection}${vars.openingText ? `\n\nOpening narration:\n"${vars.openingText}"` : ''}
+
+Available moods: uplifting, dramatic, calm, energetic, inspiring, mysterious, sad, happy
+
+Guidelines:
+- The music sits under narration for the whole video, so match the overall tone, not a single moment
+- History, true crime and unexplained topics usually suit "dramatic" or "mysterious"
+- Explainers and science usually suit "calm" or "inspiring"
+- Fun facts, lists and tech news usually suit "energetic" or "happy"
+- Only pick "sad" when the topic itself is tragic
+
+CRITICAL: Return ONLY this exact JSON structure (no markdown blocks, no extra text):
+{
+  "mood": "calm",
+  "reasoning": "One sentence explaining the choice"
+}`;
+};
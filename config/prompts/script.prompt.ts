@@ -41,6 +41,7 @@ Requirements:
 - Middle segments should flow logically, building on each other
 - Each segment should be self-contained but connect to the narrative
 - Include speaking notes for each segment (tone, pacing, emphasis)
+- Group segments into 3-5 chapters and give consecutive segments of a chapter the same short chapter title
 - Estimate duration for each segment in milliseconds
 
 CRITICAL: Return ONLY this exact JSON structure (no markdown blocks, no extra text):
@@ -49,12 +50,13 @@ CRITICAL: Return ONLY this exact JSON structure (no markdown blocks, no extra te
     {
       "text": "The script text for this segment (what the narrator says)",
       "speakingNotes": "Optional notes about tone, pacing, emphasis",
+      "chapter": "Short chapter title",
       "estimatedDurationMs": 15000
     }
   ]
 }
 
-IMPORTANT: The response must have a "segments" array. Each segment needs "text" (required), "speakingNotes" (optional), and "estimatedDurationMs" (required, in milliseconds).`;
+IMPORTANT: The response must have a "segments" array. Each segment needs "text" (required), "speakingNotes" (optional), "chapter" (optional), and "estimatedDurationMs" (required, in milliseconds).`;
 };
 
 /**
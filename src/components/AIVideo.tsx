@@ -1,12 +1,14 @@
 import { AbsoluteFill, Sequence, staticFile, useVideoConfig } from "remotion";
 import { z } from "zod";
 import { Audio } from "@remotion/media";
+import videoConfig from "../../config/video.config.json";
 import { TimelineSchema } from "../lib/types";
 import { INTRO_DURATION_MS } from "../lib/constants";
 import { loadFont } from "@remotion/google-fonts/BreeSerif";
 import { Background } from "./Background";
+import { VideoClip } from "./VideoClip";
 import Subtitle from "./Subtitle";
-import { calculateFrameTiming } from "../lib/utils";
+import { calculateFrameTiming, calculateMusicVolume, getCutTransitions } from "../lib/utils";
 
 export const aiVideoSchema = z.object({
   timeline: TimelineSchema.nullable(),
@@ -14,6 +16,9 @@ export const aiVideoSchema = z.object({
 
 const { fontFamily } = loadFont();
 
+const DEFAULT_MUSIC_VOLUME = 0.2;
+const DEFAULT_SFX_VOLUME = 0.5;
+
 export const AIVideo: React.FC<z.infer<typeof aiVideoSchema>> = ({
   timeline,
 }) => {
@@ -55,6 +60,22 @@ export const AIVideo: React.FC<z.infer<typeof aiVideoSchema>> = ({
     };
   };
 
+  const backgroundTimings = timeline.elements.map((element, index) =>
+    resolveTiming(
+      element.startMs,
+      element.endMs,
+      element.startFrame,
+      element.endFrame,
+      { includeIntro: index === 0 },
+    ),
+  );
+
+  // Cross transitions keep the outgoing background playing under the
+  // incoming one for transitions.durationMs (at most the incoming's length)
+  const transitionFrames = Math.round((videoConfig.transitions.durationMs / 1000) * fps);
+  const overlapFrames = (index: number) =>
+    Math.max(1, Math.min(transitionFrames, backgroundTimings[index].durationInFrames));
+
   return (
     <AbsoluteFill style={{ backgroundColor: "white" }}>
       <Sequence durationInFrames={introDurationFrames}>
@@ -86,23 +107,50 @@ export const AIVideo: React.FC<z.infer<typeof aiVideoSchema>> = ({
         </AbsoluteFill>
       </Sequence>
 
-      {timeline.elements.map((element, index) => {
+      {backgroundTimings.map(({ from, durationInFrames }, index) => {
+        const element = timeline.elements[index];
+        const { enter, exit } = getCutTransitions(timeline.elements, index);
+        const exitFrames = exit ? overlapFrames(index + 1) : 0;
+        // The cut is where the next background starts; the first background's
+        // duration also covers the intro, so it can't be used here
+        const cutFrame = exit ? backgroundTimings[index + 1].from - from : durationInFrames;
+
+        return (
+          <Sequence
+            key={`element-${index}`}
+            from={from}
+            durationInFrames={cutFrame + exitFrames}
+            premountFor={Math.round(3 * fps)}
+          >
+            <Background
+              project={id}
+              item={element}
+              cuts={{
+                enter: enter && { type: enter, frames: overlapFrames(index) },
+                exit: exit && { type: exit, frames: exitFrames, startFrame: cutFrame },
+              }}
+            />
+          </Sequence>
+        );
+      })}
+
+      {(timeline.videoClips || []).map((element, index) => {
         const { from, durationInFrames } = resolveTiming(
           element.startMs,
           element.endMs,
           element.startFrame,
           element.endFrame,
-          { includeIntro: index === 0 },
+          {},
         );
 
         return (
           <Sequence
-            key={`element-${index}`}
+            key={`clip-${index}`}
             from={from}
             durationInFrames={durationInFrames}
             premountFor={Math.round(3 * fps)}
           >
-            <Background project={id} item={element} />
+            <VideoClip project={id} item={element} />
           </Sequence>
         );
       })}
@@ -147,6 +195,80 @@ export const AIVideo: React.FC<z.infer<typeof aiVideoSchema>> = ({
           </Sequence>
         );
       })}
+
+      {(timeline.backgroundMusic || []).map((element, index) => {
+        const { from, durationInFrames } = resolveTiming(
+          element.startMs,
+          element.endMs,
+          element.startFrame,
+          element.endFrame,
+          {},
+        );
+
+        // Narration frames relative to this music sequence, for ducking
+        const speechRanges = timeline.audio.map((audio) => {
+          const timing = resolveTiming(audio.startMs, audio.endMs, audio.startFrame, audio.endFrame, {});
+          return {
+            from: timing.from - from,
+            to: timing.from + timing.durationInFrames - from,
+          };
+        });
+
+        const musicFile = /\.[a-z0-9]+$/i.test(element.musicUrl)
+          ? element.musicUrl
+          : `${element.musicUrl}.mp3`;
+
+        return (
+          <Sequence
+            key={`music-${index}`}
+            from={from}
+            durationInFrames={durationInFrames}
+            premountFor={Math.round(3 * fps)}
+          >
+            <Audio
+              src={staticFile(`projects/${id}/assets/music/${musicFile}`)}
+              loop
+              loopVolumeCurveBehavior="extend"
+              volume={(frame) =>
+                calculateMusicVolume({
+                  frame,
+                  durationInFrames,
+                  fps,
+                  volume: element.volume ?? DEFAULT_MUSIC_VOLUME,
+                  fadeInMs: element.fadeInMs,
+                  fadeOutMs: element.fadeOutMs,
+                  ducking: element.ducking,
+                  speechRanges,
+                })
+              }
+            />
+          </Sequence>
+        );
+      })}
+
+      {(timeline.soundEffects || []).map((element, index) => {
+        const { from, durationInFrames } = resolveTiming(
+          element.startMs,
+          element.endMs,
+          element.startFrame,
+          element.endFrame,
+          {},
+        );
+
+        return (
+          <Sequence
+            key={`sfx-${index}`}
+            from={from}
+            durationInFrames={durationInFrames}
+            premountFor={Math.round(fps)}
+          >
+            <Audio
+              src={staticFile(`sfx/${element.sfxUrl}`)}
+              volume={() => element.volume ?? DEFAULT_SFX_VOLUME}
+            />
+          </Sequence>
+        );
+      })}
     </AbsoluteFill>
   );
 };
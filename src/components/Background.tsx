@@ -9,7 +9,12 @@ import {
 import type { CSSProperties } from "react";
 import { FPS, IMAGE_HEIGHT, IMAGE_WIDTH } from "../lib/constants";
 import { BackgroundElement } from "../lib/types";
-import { calculateBlur } from "../lib/utils";
+import {
+  calculateBlur,
+  CrossTransitionType,
+  getCrossTransitionStyle,
+  getElementMotion,
+} from "../lib/utils";
 
 const EXTRA_SCALE = 0.2;
 
@@ -82,10 +87,15 @@ const calculateMediaStyle = (
   }
 };
 
+// A cross transition at one of the element's cuts; the exit starts at
+// startFrame, where the sequence has been extended to overlap the next element
+type CutTransition = { type: CrossTransitionType; frames: number };
+
 export const Background: React.FC<{
   item: BackgroundElement;
   project: string;
-}> = ({ item, project }) => {
+  cuts?: { enter?: CutTransition; exit?: CutTransition & { startFrame: number } };
+}> = ({ item, project, cuts }) => {
   const frame = useCurrentFrame();
   const localMs = (frame / FPS) * 1000;
   const { width, height } = useVideoConfig();
@@ -94,24 +104,9 @@ export const Background: React.FC<{
 
   const imgWidth = height;
   const imgHeight = imgWidth * imageRatio;
-  let animScale = 1 + EXTRA_SCALE;
-
-  const currentScaleAnim = item.animations?.find(
-    (anim) =>
-      anim.type === "scale" && anim.startMs <= localMs && anim.endMs >= localMs,
-  );
-
-  if (currentScaleAnim) {
-    const progress =
-      (localMs - currentScaleAnim.startMs) /
-      (currentScaleAnim.endMs - currentScaleAnim.startMs);
-    animScale =
-      EXTRA_SCALE +
-      progress * (currentScaleAnim.to - currentScaleAnim.from) +
-      currentScaleAnim.from;
-  }
-
-  const imgScale = animScale;
+  // Overscan so the eased zoom/pan motion never reveals the canvas edges
+  const imgScale = 1 + EXTRA_SCALE;
+  const motion = getElementMotion(item.animations, localMs);
   const top = -(imgHeight * imgScale - height) / 2;
   const left = -(imgWidth * imgScale - width) / 2;
 
@@ -120,9 +115,26 @@ export const Background: React.FC<{
 
   const currentBlur = maxBlur * blur;
 
+  const { enter, exit } = cuts || {};
+  const pose = enter && frame < enter.frames
+    ? getCrossTransitionStyle(enter.type, frame / enter.frames, true)
+    : exit && frame >= exit.startFrame
+      ? getCrossTransitionStyle(exit.type, (frame - exit.startFrame) / exit.frames, false)
+      : undefined;
+
   const containerStyle: CSSProperties = {
     overflow: "hidden",
     backgroundColor: "black",
+    ...(pose && {
+      opacity: pose.opacity,
+      transform: `translateX(${pose.translateX * width}px) scale(${pose.scale})`,
+      clipPath: `inset(0 ${pose.clipRight * 100}% 0 0)`,
+    }),
+  };
+
+  // Motion scales around the frame center, whatever the media's crop offset
+  const motionStyle: CSSProperties = {
+    transform: `translate(${motion.translateX * width}px, ${motion.translateY * height}px) scale(${motion.scale})`,
   };
 
   // Check if this element has a video
@@ -182,16 +194,18 @@ export const Background: React.FC<{
 
     return (
       <AbsoluteFill style={containerStyle}>
-        <Video
-          src={staticFile(`projects/${project}/assets/videos/${videoPath}`)}
-          muted
-          loop
-          style={{
-            ...videoStyle,
-            filter: `blur(${currentBlur}px)`,
-            WebkitFilter: `blur(${currentBlur}px)`,
-          }}
-        />
+        <AbsoluteFill style={motionStyle}>
+          <Video
+            src={staticFile(`projects/${project}/assets/videos/${videoPath}`)}
+            muted
+            loop
+            style={{
+              ...videoStyle,
+              filter: `blur(${currentBlur}px)`,
+              WebkitFilter: `blur(${currentBlur}px)`,
+            }}
+          />
+        </AbsoluteFill>
       </AbsoluteFill>
     );
   }
@@ -244,14 +258,16 @@ export const Background: React.FC<{
 
     return (
       <AbsoluteFill style={containerStyle}>
-        <Img
-          src={staticFile(`projects/${project}/assets/images/${item.imageUrl}`)}
-          style={{
-            ...imageStyle,
-            filter: `blur(${currentBlur}px)`,
-            WebkitFilter: `blur(${currentBlur}px)`,
-          }}
-        />
+        <AbsoluteFill style={motionStyle}>
+          <Img
+            src={staticFile(`projects/${project}/assets/images/${item.imageUrl}`)}
+            style={{
+              ...imageStyle,
+              filter: `blur(${currentBlur}px)`,
+              WebkitFilter: `blur(${currentBlur}px)`,
+            }}
+          />
+        </AbsoluteFill>
       </AbsoluteFill>
     );
   }
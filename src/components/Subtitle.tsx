@@ -5,9 +5,10 @@ import {
   useCurrentFrame,
   useVideoConfig,
 } from "remotion";
+import videoConfig from "../../config/video.config.json";
 import { Word } from "./Word";
 import { TextElement } from "../lib/types";
-import { msToFrame } from "../lib/utils";
+import { getSubtitleLayout, msToFrame, wrapSubtitleWords } from "../lib/utils";
 
 interface SubtitleProps {
   textElement: TextElement;
@@ -15,7 +16,14 @@ interface SubtitleProps {
 
 const Subtitle: React.FC<SubtitleProps> = ({ textElement }) => {
   const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
+  const { fps, width, height } = useVideoConfig();
+  const textConfig = videoConfig.text;
+  const layout = getSubtitleLayout(textElement.position, width, height, textConfig);
+
+  // Vertical placement for top/center/bottom
+  const placement: React.CSSProperties = layout.centered
+    ? { top: "50%", transform: "translateY(-50%)" }
+    : { top: layout.top, bottom: layout.bottom };
 
   // Backward compatibility: check if words array exists
   const hasWords = textElement.words && textElement.words.length > 0;
@@ -36,7 +44,14 @@ const Subtitle: React.FC<SubtitleProps> = ({ textElement }) => {
       return null;
     }
 
-    // Cumulative word rendering - words appear progressively, disappear together
+    // Wrap the whole sentence up front so lines don't reflow as words appear
+    const { lines, fontScale } = wrapSubtitleWords(
+      words.map((word) => word.text),
+      layout.maxCharactersPerLine,
+      layout.maxLines,
+    );
+
+    // Cumulative word rendering - words appear per the animation preset, disappear together
     return (
       <AbsoluteFill>
         <div
@@ -44,35 +59,53 @@ const Subtitle: React.FC<SubtitleProps> = ({ textElement }) => {
             position: "absolute",
             left: 0,
             right: 0,
-            bottom: 350,
-            height: 150,
+            ...placement,
             display: "flex",
-            flexWrap: "wrap",
             justifyContent: "center",
-            gap: "0.5rem",
-            alignItems: "center",
           }}
         >
-          {words.map((word, idx) => {
-            const start = word.startFrame ?? msToFrame(word.startMs, fps);
-
-            // Word visible if it has started (sentence end check above)
-            const wordHasStarted = frame >= start;
-            if (!wordHasStarted) {
-              return null;
-            }
+          <div
+            style={{
+              maxWidth: layout.maxWidth,
+              padding: layout.padding,
+              backgroundColor: textConfig.backgroundColor,
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: "0.25rem",
+            }}
+          >
+            {lines.map((line, lineIdx) => (
+              <div
+                key={lineIdx}
+                style={{
+                  display: "flex",
+                  justifyContent: "center",
+                  gap: "0.5rem",
+                  alignItems: "center",
+                }}
+              >
+                {line.map((idx) => {
+                  const word = words[idx];
+                  const start = word.startFrame ?? msToFrame(word.startMs, fps);
 
-            return (
-              <Word
-                key={idx}
-                text={word.text}
-                startFrame={start}
-                currentFrame={frame}
-                emphasis={word.emphasis || { level: "none" }}
-                fps={fps}
-              />
-            );
-          })}
+                  // Word decides visibility from the animation preset (sentence end check above)
+                  return (
+                    <Word
+                      key={idx}
+                      text={word.text}
+                      startFrame={start}
+                      endFrame={word.endFrame ?? msToFrame(word.endMs, fps)}
+                      currentFrame={frame}
+                      emphasis={word.emphasis || { level: "none" }}
+                      fps={fps}
+                      fontScale={layout.scale * fontScale}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
         </div>
       </AbsoluteFill>
     );
@@ -100,8 +133,7 @@ const Subtitle: React.FC<SubtitleProps> = ({ textElement }) => {
           position: "absolute",
           left: 0,
           right: 0,
-          bottom: 350,
-          height: 150,
+          ...placement,
           display: "flex",
           justifyContent: "center",
           alignItems: "center",
@@ -109,6 +141,7 @@ const Subtitle: React.FC<SubtitleProps> = ({ textElement }) => {
       >
         <span
           style={{
+            maxWidth: layout.maxWidth,
             fontFamily: "Arial, sans-serif",
             fontSize: 120,
             color: "white",
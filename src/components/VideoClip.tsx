@@ -0,0 +1,52 @@
+import {
+  AbsoluteFill,
+  Video,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { CSSProperties } from "react";
+import { VideoClipElement } from "../lib/types";
+import { calculateBlur, calculateFadeOpacity, getElementMotion } from "../lib/utils";
+
+const MAX_BLUR = 25;
+
+// B-roll clip drawn over the background track
+export const VideoClip: React.FC<{
+  item: VideoClipElement;
+  project: string;
+}> = ({ item, project }) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const localMs = (frame / fps) * 1000;
+
+  const motion = getElementMotion(item.animations, localMs);
+
+  const opacity = calculateFadeOpacity({ item, localMs });
+  const blur = MAX_BLUR * calculateBlur({ item, localMs });
+
+  // Add .mp4 if not present (defensive, matches Background)
+  const videoPath = item.videoUrl.endsWith(".mp4")
+    ? item.videoUrl
+    : `${item.videoUrl}.mp4`;
+
+  const videoStyle: CSSProperties = {
+    width: "100%",
+    height: "100%",
+    objectFit: "cover",
+    transform: `translate(${motion.translateX * width}px, ${motion.translateY * height}px) scale(${motion.scale})`,
+    filter: `blur(${blur}px)`,
+    WebkitFilter: `blur(${blur}px)`,
+  };
+
+  return (
+    <AbsoluteFill style={{ overflow: "hidden", opacity }}>
+      <Video
+        src={staticFile(`projects/${project}/assets/videos/${videoPath}`)}
+        muted
+        loop
+        style={videoStyle}
+      />
+    </AbsoluteFill>
+  );
+};
@@ -1,14 +1,27 @@
 import type React from "react";
-import { interpolate, spring } from "remotion";
 import videoConfig from "../../config/video.config.json";
-import { bebasNeue, breeSerif } from "../lib/fonts";
+import { bebasNeue, breeSerif, inter } from "../lib/fonts";
+import { getToneShake, getWordAnimationState, TextAnimationPreset } from "../lib/utils";
 
 interface WordProps {
   text: string;
   startFrame: number;
+  /** When the word finishes being spoken (karaoke highlight, typewriter pace) */
+  endFrame?: number;
   currentFrame: number;
   emphasis: { level: "none" | "med" | "high"; tone?: string };
   fps: number;
+  /** Multiplies configured font sizes and stroke (frame size and line fitting) */
+  fontScale?: number;
+}
+
+interface WordStyle {
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  fontWeight: number;
+  strokeColor?: string;
+  strokeWidth?: number;
 }
 
 /**
@@ -18,78 +31,103 @@ function getFontFamily(configFontName: string): string {
   const fontMap: Record<string, string> = {
     "Bebas Neue": bebasNeue.fontFamily,
     "Bree Serif": breeSerif.fontFamily,
+    Inter: inter.fontFamily,
   };
   return fontMap[configFontName] || configFontName;
 }
 
 /**
- * Get emphasis styling configuration based on the emphasis level
+ * Subtitle text style with the emphasis level's overrides applied
  */
-function getEmphasisStyle(level: "none" | "med" | "high") {
-  const emphasisConfig = videoConfig.emphasis;
-  return emphasisConfig[level];
+function getWordStyle(level: "none" | "med" | "high"): WordStyle {
+  const { fontFamily, fontSize, color, fontWeight, strokeColor, strokeWidth } = videoConfig.text;
+  return {
+    fontFamily,
+    fontSize,
+    color,
+    fontWeight,
+    strokeColor,
+    strokeWidth,
+    ...videoConfig.emphasis[level],
+  };
+}
+
+/**
+ * Colour and glow for a word's tone (warm/intense), plus shake for intense
+ */
+function getToneStyle(tone?: string): { color?: string; glowColor?: string; glowRadius?: number; shakePx?: number; shakeMs?: number } {
+  const tones: Record<string, { color?: string; glowColor?: string; glowRadius?: number; shakePx?: number; shakeMs?: number }> =
+    videoConfig.emphasis.tones;
+  return (tone && tones[tone]) || {};
 }
 
 export const Word: React.FC<WordProps> = ({
   text,
   startFrame,
+  endFrame,
   currentFrame,
   emphasis,
   fps,
+  fontScale = 1,
 }) => {
-  // Show the word once it has started and keep it on-screen for the rest of the line
-  const isVisible = currentFrame >= startFrame;
-
-  if (!isVisible) {
-    return null;
-  }
-
-  // Calculate frames since word started appearing
-  const framesSinceStart = currentFrame - startFrame;
-
-  // Get emphasis styling
-  const emphasisStyle = getEmphasisStyle(emphasis.level);
-
   // Animation configuration from video.config.json
   const animConfig = videoConfig.animations.text;
-  const animationDurationMs = animConfig.durationMs; // 200ms
-  const animationDurationFrames = (animationDurationMs / 1000) * fps;
+  const preset = (animConfig.preset || "pop") as TextAnimationPreset;
 
-  // Spring animation for pop effect
-  const popProgress = spring({
-    frame: framesSinceStart,
+  const animation = getWordAnimationState({
+    preset,
+    frame: currentFrame,
+    startFrame,
+    endFrame: endFrame ?? startFrame,
     fps,
-    config: {
-      damping: 200,
-    },
-    durationInFrames: animationDurationFrames,
+    durationMs: animConfig.durationMs,
+    scaleFrom: animConfig.scaleFrom,
+    scaleTo: animConfig.scaleTo,
+    upcomingOpacity: animConfig.karaoke.upcomingOpacity,
   });
 
-  // Scale animation: 0.8 -> 1.0
-  const scale = interpolate(
-    popProgress,
-    [0, 1],
-    [animConfig.scaleFrom, animConfig.scaleTo]
-  );
+  // Hidden until the word starts (karaoke shows upcoming words dimmed)
+  if (!animation.visible) {
+    return null;
+  }
+
+  // Get text styling with emphasis and tone overrides
+  const wordStyle = getWordStyle(emphasis.level);
+  const toneStyle = emphasis.level !== "none" ? getToneStyle(emphasis.tone) : {};
+  const color = animation.highlighted
+    ? animConfig.karaoke.highlightColor
+    : toneStyle.color || wordStyle.color;
+  const shakeX = getToneShake(currentFrame, startFrame, fps, (toneStyle.shakePx ?? 0) * fontScale, toneStyle.shakeMs);
 
-  // Y offset animation: 10px -> 0px
-  const yOffset = interpolate(popProgress, [0, 1], [10, 0]);
+  // Typewriter reveals letters; the hidden rest keeps the word's width stable
+  const revealed = Math.ceil(text.length * animation.revealRatio);
 
   return (
     <span
       style={{
         display: "inline-block",
-        fontFamily: getFontFamily(emphasisStyle.fontFamily),
-        fontSize: emphasisStyle.fontSize,
-        color: emphasisStyle.color,
-        fontWeight: emphasisStyle.fontWeight,
-        transform: `scale(${scale}) translateY(${yOffset}px)`,
+        fontFamily: getFontFamily(wordStyle.fontFamily),
+        fontSize: wordStyle.fontSize * fontScale,
+        color,
+        fontWeight: wordStyle.fontWeight,
+        WebkitTextStroke: wordStyle.strokeWidth && wordStyle.strokeColor
+          ? `${wordStyle.strokeWidth * fontScale}px ${wordStyle.strokeColor}`
+          : undefined,
+        paintOrder: "stroke fill",
+        textShadow: toneStyle.glowColor
+          ? `0 0 ${(toneStyle.glowRadius ?? 12) * fontScale}px ${toneStyle.glowColor}`
+          : undefined,
+        opacity: animation.opacity,
+        transform: `translateX(${shakeX}px) scale(${animation.scale}) translateY(${animation.translateY}px)`,
         textTransform: "uppercase",
         whiteSpace: "nowrap",
         transformOrigin: "center center",
       }}
     >
-      {text}
+      {text.slice(0, revealed)}
+      {revealed < text.length && (
+        <span style={{ visibility: "hidden" }}>{text.slice(revealed)}</span>
+      )}
     </span>
   );
 };
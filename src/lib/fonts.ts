@@ -1,9 +1,11 @@
 import { loadFont as loadBebasNeue } from "@remotion/google-fonts/BebasNeue";
 import { loadFont as loadBreeSerif } from "@remotion/google-fonts/BreeSerif";
+import { loadFont as loadInter } from "@remotion/google-fonts/Inter";
 
-// Load fonts used in video.config.json emphasis settings
+// Load fonts used in video.config.json text and emphasis settings
 export const bebasNeue = loadBebasNeue();
 export const breeSerif = loadBreeSerif();
+export const inter = loadInter("normal", { weights: ["400", "700"], subsets: ["latin"] });
 
 // Export for convenience - default to Bebas Neue for high emphasis
 export const { fontFamily } = bebasNeue;
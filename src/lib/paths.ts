@@ -23,6 +23,12 @@ export interface ProjectPaths {
   assetsMusic: string;
   tags: string;
   timeline: string;
+  pipelineState: string;
+  gatherCheckpoint: string;
+  lexicon: string;
+  captionsSrt: string;
+  captionsVtt: string;
+  captionsAss: string;
 }
 
 /**
@@ -52,6 +58,12 @@ export function getProjectPaths(projectId: string): ProjectPaths {
     assetsMusic: path.join(root, 'assets', 'music'),
     tags: path.join(root, 'tags.json'),
     timeline: path.join(root, 'timeline.json'),
+    pipelineState: path.join(root, 'pipeline-state.json'),
+    gatherCheckpoint: path.join(root, 'gather-checkpoint.json'),
+    lexicon: path.join(root, 'lexicon.json'),
+    captionsSrt: path.join(root, 'captions.srt'),
+    captionsVtt: path.join(root, 'captions.vtt'),
+    captionsAss: path.join(root, 'captions.ass'),
   };
 }
 
@@ -114,3 +126,10 @@ export function getVideoClipPath(projectId: string, videoId: string): string {
 export function getBackgroundMusicPath(projectId: string, musicId: string): string {
   return path.join(getProjectDir(projectId), 'assets', 'music', `${musicId}.mp3`);
 }
+
+/**
+ * Get the shared sound effects library directory (public/sfx)
+ */
+export function getSfxLibraryDir(): string {
+  return path.join(PUBLIC_DIR, 'sfx');
+}
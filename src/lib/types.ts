@@ -5,19 +5,55 @@ const BackgroundTransitionTypeSchema = z.union([
   z.literal("fade"),
   z.literal("blur"),
   z.literal("none"),
+  // Cross transitions between touching backgrounds, which overlap at the cut
+  z.literal("crossfade"),
+  z.literal("slide"),
+  z.literal("wipe"),
+  z.literal("zoom"),
 ]);
 
 const TimelineElementSchema = z.object({
   startMs: z.number(),
   endMs: z.number(),
+  startFrame: z.number().optional(),
+  endFrame: z.number().optional(),
 });
 
-const ElementAnimationSchema = TimelineElementSchema.extend({
+const AnimationEasingSchema = z.union([
+  z.literal("linear"),
+  z.literal("easeIn"),
+  z.literal("easeOut"),
+  z.literal("easeInOut"),
+]);
+
+// Zoom in (from < to) or out (from > to)
+const ScaleAnimationSchema = TimelineElementSchema.extend({
   type: z.literal("scale"),
   from: z.number(),
   to: z.number(),
+  easing: AnimationEasingSchema.optional(),
+});
+
+// Camera pan across the media; distance is a fraction of the frame,
+// scale zooms in far enough to keep the edges out of view
+const PanAnimationSchema = TimelineElementSchema.extend({
+  type: z.literal("pan"),
+  direction: z.union([
+    z.literal("left"),
+    z.literal("right"),
+    z.literal("up"),
+    z.literal("down"),
+  ]),
+  distance: z.number(),
+  scale: z.number().optional(),
+  easing: AnimationEasingSchema.optional(),
 });
 
+const ElementAnimationSchema = z.discriminatedUnion("type", [
+  ScaleAnimationSchema,
+  PanAnimationSchema,
+]);
+
 // Media metadata schema for aspect-fit information
 const MediaMetadataSchema = z.object({
   width: z.number().positive(),
@@ -81,6 +117,19 @@ const VideoClipElementSchema = TimelineElementSchema.extend({
 const BackgroundMusicElementSchema = TimelineElementSchema.extend({
   musicUrl: z.string(),
   volume: z.number().min(0).max(1).optional(), // 0.0 to 1.0, defaults to 0.2
+  fadeInMs: z.number().min(0).optional(),
+  fadeOutMs: z.number().min(0).optional(),
+  ducking: z.object({
+    volume: z.number().min(0).max(1), // multiplier applied while narration plays
+    fadeMs: z.number().min(0),
+  }).optional(),
+});
+
+// Short one-shot effects from the shared SFX library (public/sfx)
+const SoundEffectElementSchema = TimelineElementSchema.extend({
+  sfxUrl: z.string(), // file name inside public/sfx
+  tag: z.string().optional(), // library tag that picked it (whoosh, pop, riser)
+  volume: z.number().min(0).max(1).optional(), // 0.0 to 1.0, defaults to 0.5
 });
 
 // Aspect ratio enum
@@ -96,6 +145,7 @@ const TimelineSchema = z.object({
   durationSeconds: z.number().positive().optional(), // calculated from elements if not provided
   videoClips: z.array(VideoClipElementSchema).optional(), // for stock video clips
   backgroundMusic: z.array(BackgroundMusicElementSchema).optional(), // for background music with ducking
+  soundEffects: z.array(SoundEffectElementSchema).optional(), // for transition/emphasis sound effects
 });
 
 export type BackgroundTransitionType = z.infer<
@@ -103,19 +153,23 @@ export type BackgroundTransitionType = z.infer<
 >;
 
 export type TimelineElement = z.infer<typeof TimelineElementSchema>;
+export type AnimationEasing = z.infer<typeof AnimationEasingSchema>;
 export type ElementAnimation = z.infer<typeof ElementAnimationSchema>;
+export type PanDirection = z.infer<typeof PanAnimationSchema>["direction"];
 export type MediaMetadata = z.infer<typeof MediaMetadataSchema>;
 export type BackgroundElement = z.infer<typeof BackgroundElementSchema>;
 export type TextElement = z.infer<typeof TextElementSchema>;
 export type AudioElement = z.infer<typeof AudioElementSchema>;
 export type VideoClipElement = z.infer<typeof VideoClipElementSchema>;
 export type BackgroundMusicElement = z.infer<typeof BackgroundMusicElementSchema>;
+export type SoundEffectElement = z.infer<typeof SoundEffectElementSchema>;
 export type AspectRatio = z.infer<typeof AspectRatioSchema>;
 export type Timeline = z.infer<typeof TimelineSchema>;
 
 export {
   BackgroundTransitionTypeSchema,
   TimelineElementSchema,
+  AnimationEasingSchema,
   ElementAnimationSchema,
   MediaMetadataSchema,
   BackgroundElementSchema,
@@ -123,6 +177,7 @@ export {
   AudioElementSchema,
   VideoClipElementSchema,
   BackgroundMusicElementSchema,
+  SoundEffectElementSchema,
   AspectRatioSchema,
   TimelineSchema,
 };
@@ -1,5 +1,11 @@
-import { staticFile } from "remotion";
-import { BackgroundElement, Timeline } from "./types";
+import { Easing, interpolate, spring, staticFile } from "remotion";
+import {
+  AnimationEasing,
+  BackgroundElement,
+  BackgroundTransitionType,
+  ElementAnimation,
+  Timeline,
+} from "./types";
 import { FPS, INTRO_DURATION, INTRO_DURATION_MS, DEFAULT_ASPECT_RATIO } from "./constants";
 
 /**
@@ -29,6 +35,10 @@ export const normalizeTimeline = (timeline: Timeline): Timeline => {
     normalized.backgroundMusic = [];
   }
 
+  if (!normalized.soundEffects) {
+    normalized.soundEffects = [];
+  }
+
   return normalized;
 };
 
@@ -83,11 +93,13 @@ export const calculateFrameTiming = (
   return { startFrame, duration };
 };
 
+type TransitionTiming = Pick<BackgroundElement, "startMs" | "endMs" | "enterTransition" | "exitTransition">;
+
 export const calculateBlur = ({
   item,
   localMs,
 }: {
-  item: BackgroundElement;
+  item: TransitionTiming;
   localMs: number;
 }) => {
   const maxBlur = 1;
@@ -110,6 +122,89 @@ export const calculateBlur = ({
   return 0;
 };
 
+/**
+ * Calculates opacity for "fade" enter/exit transitions (1 = fully visible).
+ */
+export const calculateFadeOpacity = ({
+  item,
+  localMs,
+  fadeMs = 500,
+}: {
+  item: TransitionTiming;
+  localMs: number;
+  fadeMs?: number;
+}) => {
+  const durationMs = item.endMs - item.startMs;
+  let opacity = 1;
+
+  if (item.enterTransition === "fade" && localMs < fadeMs) {
+    opacity = Math.min(opacity, localMs / fadeMs);
+  }
+
+  if (item.exitTransition === "fade" && localMs > durationMs - fadeMs) {
+    opacity = Math.min(opacity, (durationMs - localMs) / fadeMs);
+  }
+
+  return Math.max(0, Math.min(1, opacity));
+};
+
+/**
+ * Calculates background music volume for a frame of the music sequence.
+ * Fades in/out at the edges and ducks while narration plays; speech ranges
+ * are frames relative to the start of the music sequence.
+ */
+export const calculateMusicVolume = ({
+  frame,
+  durationInFrames,
+  fps,
+  volume,
+  fadeInMs = 0,
+  fadeOutMs = 0,
+  ducking,
+  speechRanges = [],
+}: {
+  frame: number;
+  durationInFrames: number;
+  fps: number;
+  volume: number;
+  fadeInMs?: number;
+  fadeOutMs?: number;
+  ducking?: { volume: number; fadeMs: number };
+  speechRanges?: Array<{ from: number; to: number }>;
+}) => {
+  const fadeInFrames = (fadeInMs / 1000) * fps;
+  const fadeOutFrames = (fadeOutMs / 1000) * fps;
+
+  let envelope = 1;
+  if (fadeInFrames > 0 && frame < fadeInFrames) {
+    envelope = Math.min(envelope, frame / fadeInFrames);
+  }
+  if (fadeOutFrames > 0 && frame > durationInFrames - fadeOutFrames) {
+    envelope = Math.min(envelope, (durationInFrames - frame) / fadeOutFrames);
+  }
+  envelope = Math.max(0, Math.min(1, envelope));
+
+  // How far into the duck we are: 1 during speech, ramping over fadeMs around it
+  let duckAmount = 0;
+  if (ducking) {
+    const duckFadeFrames = (ducking.fadeMs / 1000) * fps;
+    for (const { from, to } of speechRanges) {
+      let amount = 0;
+      if (frame >= from && frame < to) {
+        amount = 1;
+      } else if (duckFadeFrames > 0) {
+        const distance = frame < from ? from - frame : frame - to;
+        amount = Math.max(0, 1 - distance / duckFadeFrames);
+      }
+      duckAmount = Math.max(duckAmount, amount);
+    }
+  }
+
+  const duckFactor = ducking ? 1 - duckAmount * (1 - ducking.volume) : 1;
+
+  return volume * duckFactor * envelope;
+};
+
 /**
  * Converts milliseconds to frames based on FPS.
  * Used for word-level subtitle timing.
@@ -240,3 +335,280 @@ export const calculateSpeakingVelocity = (words: Array<{ startMs: number; endMs:
 
   return { avgWordDuration, avgGapDuration, wordsPerMinute };
 };
+
+/**
+ * Subtitle settings from the `text` block of video.config.json
+ */
+export interface SubtitleTextConfig {
+  maxCharactersPerLine?: number;
+  maxLines?: number;
+  fontSize?: number;
+  padding?: number;
+}
+
+// Share of the frame width a subtitle may use, and distance from the top/bottom edge
+const SUBTITLE_FRAME = {
+  landscape: { widthFraction: 0.75, topFraction: 0.08, bottomFraction: 0.1 },
+  // Keep clear of the Shorts/Reels overlay (title, buttons) along the bottom
+  portrait: { widthFraction: 0.9, topFraction: 0.15, bottomFraction: 0.22 },
+} as const;
+
+// Config sizes are authored for a 1080px short side
+const SUBTITLE_REFERENCE_SIZE = 1080;
+
+/**
+ * Where and how large subtitles are drawn for a frame size.
+ * maxCharactersPerLine is authored for 16:9; narrower frames fit fewer.
+ */
+export const getSubtitleLayout = (
+  position: "top" | "center" | "bottom",
+  width: number,
+  height: number,
+  config: SubtitleTextConfig = {},
+) => {
+  const frame = width >= height ? SUBTITLE_FRAME.landscape : SUBTITLE_FRAME.portrait;
+  const scale = Math.min(width, height) / SUBTITLE_REFERENCE_SIZE;
+  const maxWidth = Math.round(width * frame.widthFraction);
+  const landscapeLineWidth = Math.max(width, height) * SUBTITLE_FRAME.landscape.widthFraction;
+
+  return {
+    top: position === "top" ? Math.round(height * frame.topFraction) : undefined,
+    bottom: position === "bottom" ? Math.round(height * frame.bottomFraction) : undefined,
+    centered: position === "center",
+    maxWidth,
+    maxCharactersPerLine: Math.max(8, Math.round((config.maxCharactersPerLine ?? 40) * (maxWidth / landscapeLineWidth))),
+    maxLines: Math.max(1, config.maxLines ?? 2),
+    scale,
+    padding: Math.round((config.padding ?? 0) * scale),
+  };
+};
+
+/**
+ * Greedy line breaking by character count
+ */
+const breakLines = (words: string[], maxCharactersPerLine: number): number[][] => {
+  const lines: number[][] = [];
+  let current: number[] = [];
+  let length = 0;
+
+  words.forEach((word, index) => {
+    const added = current.length === 0 ? word.length : length + 1 + word.length;
+    if (current.length > 0 && added > maxCharactersPerLine) {
+      lines.push(current);
+      current = [index];
+      length = word.length;
+    } else {
+      current.push(index);
+      length = added;
+    }
+  });
+  if (current.length > 0) lines.push(current);
+
+  return lines;
+};
+
+/**
+ * Wraps a sentence into at most maxLines lines. When it does not fit at
+ * maxCharactersPerLine, lines get longer and fontScale shrinks the text so
+ * they still fit the same width.
+ * @returns Word indices per line and the font scale to apply
+ */
+export const wrapSubtitleWords = (
+  words: string[],
+  maxCharactersPerLine: number,
+  maxLines: number,
+): { lines: number[][]; fontScale: number } => {
+  let charactersPerLine = maxCharactersPerLine;
+  let lines = breakLines(words, charactersPerLine);
+
+  while (lines.length > maxLines) {
+    charactersPerLine++;
+    lines = breakLines(words, charactersPerLine);
+  }
+
+  // Shrink to the longest line actually produced (also covers one very long word)
+  const longest = Math.max(0, ...lines.map((line) => line.reduce((sum, index) => sum + words[index].length, line.length - 1)));
+  return { lines, fontScale: longest > maxCharactersPerLine ? maxCharactersPerLine / longest : 1 };
+};
+
+export type TextAnimationPreset = "pop" | "karaoke" | "typewriter" | "bounce" | "fade-up";
+
+/**
+ * Per-frame state of a subtitle word for an animation preset.
+ * Karaoke shows the whole sentence up front (upcoming words dimmed) and
+ * highlights the word being spoken; the other presets reveal each word
+ * when it starts.
+ */
+export const getWordAnimationState = ({
+  preset,
+  frame,
+  startFrame,
+  endFrame,
+  fps,
+  durationMs,
+  scaleFrom = 0.8,
+  scaleTo = 1,
+  upcomingOpacity = 0.35,
+}: {
+  preset: TextAnimationPreset;
+  frame: number;
+  startFrame: number;
+  endFrame: number;
+  fps: number;
+  durationMs: number;
+  scaleFrom?: number;
+  scaleTo?: number;
+  upcomingOpacity?: number;
+}) => {
+  const framesSinceStart = frame - startFrame;
+  const durationInFrames = Math.max(1, (durationMs / 1000) * fps);
+  const state = { visible: true, opacity: 1, scale: 1, translateY: 0, revealRatio: 1, highlighted: false };
+
+  if (framesSinceStart < 0) {
+    return preset === "karaoke" ? { ...state, opacity: upcomingOpacity } : { ...state, visible: false };
+  }
+
+  switch (preset) {
+    case "karaoke":
+      return { ...state, highlighted: frame < Math.max(endFrame, startFrame + 1) };
+    case "typewriter": {
+      // Letters appear across the spoken word, but never slower than durationMs
+      const revealFrames = Math.max(1, Math.min(endFrame - startFrame, durationInFrames));
+      return { ...state, revealRatio: Math.min(1, (framesSinceStart + 1) / revealFrames) };
+    }
+    case "fade-up": {
+      const progress = interpolate(framesSinceStart, [0, durationInFrames], [0, 1], {
+        extrapolateRight: "clamp",
+      });
+      return { ...state, opacity: progress, translateY: (1 - progress) * 20 };
+    }
+    case "bounce": {
+      // Low damping overshoots and settles
+      const progress = spring({ frame: framesSinceStart, fps, config: { damping: 8, mass: 0.6 } });
+      return {
+        ...state,
+        scale: interpolate(progress, [0, 1], [scaleFrom, scaleTo]),
+        translateY: (1 - progress) * 30,
+      };
+    }
+    case "pop":
+    default: {
+      const progress = spring({
+        frame: framesSinceStart,
+        fps,
+        config: { damping: 200 },
+        durationInFrames,
+      });
+      return {
+        ...state,
+        scale: interpolate(progress, [0, 1], [scaleFrom, scaleTo]),
+        translateY: interpolate(progress, [0, 1], [10, 0]),
+      };
+    }
+  }
+};
+
+/**
+ * Horizontal shake for intense words: a quick, decaying jitter after the
+ * word starts
+ * @param amplitude - Peak offset in pixels
+ */
+export const getToneShake = (frame: number, startFrame: number, fps: number, amplitude: number, shakeMs = 400) => {
+  const elapsed = frame - startFrame;
+  const shakeFrames = (shakeMs / 1000) * fps;
+  if (amplitude <= 0 || elapsed < 0 || elapsed >= shakeFrames) {
+    return 0;
+  }
+  return amplitude * (1 - elapsed / shakeFrames) * Math.sin(elapsed * 2.5);
+};
+
+const EASINGS: Record<AnimationEasing, (t: number) => number> = {
+  linear: Easing.linear,
+  easeIn: Easing.in(Easing.ease),
+  easeOut: Easing.out(Easing.ease),
+  easeInOut: Easing.inOut(Easing.ease),
+};
+
+/**
+ * Camera motion of an element at localMs from its latest started scale or
+ * pan animation, eased over the animation's range (linear when no easing is
+ * set). Translations are fractions of the frame; a pan moves the camera, so
+ * the media slides the other way. After an animation ends the last pose holds.
+ */
+export const getElementMotion = (animations: ElementAnimation[] | undefined, localMs: number) => {
+  const motion = { scale: 1, translateX: 0, translateY: 0 };
+  const started = (animations || []).filter((anim) => anim.startMs <= localMs);
+  const anim = started[started.length - 1];
+  if (!anim) {
+    return motion;
+  }
+
+  const progress = anim.endMs > anim.startMs
+    ? interpolate(localMs, [anim.startMs, anim.endMs], [0, 1], {
+        easing: EASINGS[anim.easing || "linear"],
+        extrapolateLeft: "clamp",
+        extrapolateRight: "clamp",
+      })
+    : 1;
+
+  if (anim.type === "scale") {
+    return { ...motion, scale: anim.from + progress * (anim.to - anim.from) };
+  }
+
+  // Zooming in by the pan distance keeps the edges out of view
+  const offset = anim.distance * (progress - 0.5);
+  return {
+    scale: anim.scale ?? 1 + anim.distance,
+    translateX: anim.direction === "left" ? offset : anim.direction === "right" ? -offset : 0,
+    translateY: anim.direction === "up" ? offset : anim.direction === "down" ? -offset : 0,
+  };
+};
+
+export type CrossTransitionType = Extract<BackgroundTransitionType, "crossfade" | "slide" | "wipe" | "zoom">;
+
+export const CROSS_TRANSITION_TYPES: CrossTransitionType[] = ["crossfade", "slide", "wipe", "zoom"];
+
+export const isCrossTransition = (type: BackgroundTransitionType | undefined): type is CrossTransitionType =>
+  CROSS_TRANSITION_TYPES.includes(type as CrossTransitionType);
+
+/**
+ * Cross transitions into and out of the background at index. A cut between
+ * touching backgrounds uses the incoming background's enterTransition when
+ * that is a cross transition.
+ */
+export const getCutTransitions = (elements: TransitionTiming[], index: number) => {
+  const cutTransition = (from?: TransitionTiming, to?: TransitionTiming) =>
+    from && to && Math.abs(from.endMs - to.startMs) <= 1 && isCrossTransition(to.enterTransition)
+      ? to.enterTransition
+      : undefined;
+
+  return {
+    enter: cutTransition(elements[index - 1], elements[index]),
+    exit: cutTransition(elements[index], elements[index + 1]),
+  };
+};
+
+/**
+ * Pose of a background during a cross transition. progress runs 0 -> 1 over
+ * the overlap, with the incoming background drawn above the outgoing one;
+ * translateX is a fraction of the frame width and clipRight the fraction
+ * hidden on the right.
+ */
+export const getCrossTransitionStyle = (type: CrossTransitionType, progress: number, incoming: boolean) => {
+  const eased = EASINGS.easeInOut(Math.max(0, Math.min(1, progress)));
+  const pose = { opacity: 1, translateX: 0, scale: 1, clipRight: 0 };
+
+  switch (type) {
+    case "crossfade":
+      return incoming ? { ...pose, opacity: eased } : pose;
+    case "slide":
+      return { ...pose, translateX: incoming ? 1 - eased : -eased };
+    case "wipe":
+      return incoming ? { ...pose, clipRight: 1 - eased } : pose;
+    case "zoom":
+      // The outgoing background rushes towards the camera as the next one settles in
+      return incoming
+        ? { ...pose, opacity: eased, scale: 0.7 + 0.3 * eased }
+        : { ...pose, scale: 1 + 0.5 * eased };
+  }
+};
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+/**
+ * Beat Detection Tests
+ * Tests onset analysis, tempo/grid fitting and beat snapping on synthetic
+ * click tracks, decoded through a stand-in ffmpeg executable
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  computeOnsetEnvelope,
+  estimateTempo,
+  buildBeatGrid,
+  detectBeats,
+  snapToBeat,
+} from '../cli/services/audio/beats';
+
+const SAMPLE_RATE = 11025;
+const HOP_SIZE = 256;
+const FRAMES_PER_SECOND = SAMPLE_RATE / HOP_SIZE;
+
+/**
+ * Low noise floor with a decaying 100Hz thump on every beat
+ */
+function clickTrack(bpm: number, seconds: number, firstBeatSec: number): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = 0.02 * (seed / 2147483647 - 0.5);
+  }
+  for (let t = firstBeatSec; t < seconds; t += 60 / bpm) {
+    const start = Math.round(t * SAMPLE_RATE);
+    for (let k = 0; k < 800 && start + k < samples.length; k++) {
+      samples[start + k] += 0.6 * Math.sin((2 * Math.PI * 100 * k) / SAMPLE_RATE) * Math.exp(-k / 200);
+    }
+  }
+  return samples;
+}
+
+let tmpDir: string;
+let ffmpegPath: string;
+
+before(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'beats-test-'));
+
+  // Decoding prints the prepared PCM for the input file to stdout
+  ffmpegPath = path.join(tmpDir, 'ffmpeg');
+  await fs.writeFile(
+    ffmpegPath,
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const input = args[args.indexOf('-i') + 1];
+if (!fs.existsSync(input + '.pcm')) {
+  process.stderr.write(input + ': No such file or directory\\n');
+  process.exit(1);
+}
+process.stdout.write(fs.readFileSync(input + '.pcm'));
+`,
+    { mode: 0o755 }
+  );
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('computeOnsetEnvelope peaks on each click', () => {
+  const envelope = computeOnsetEnvelope(clickTrack(120, 4, 0.5), HOP_SIZE);
+  const strongest = Array.from(envelope)
+    .map((value, frame) => ({ value, frame }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 7)
+    .map(({ frame }) => Math.round((frame / FRAMES_PER_SECOND) * 10) / 10)
+    .sort((a, b) => a - b);
+
+  assert.deepStrictEqual(strongest, [0.5, 1, 1.5, 2, 2.5, 3, 3.5]);
+});
+
+test('estimateTempo and buildBeatGrid recover tempo and phase', () => {
+  const envelope = computeOnsetEnvelope(clickTrack(120, 20, 0.3), HOP_SIZE);
+  const tempo = estimateTempo(envelope, FRAMES_PER_SECOND, 70, 180);
+  assert.ok(tempo, 'tempo should be found');
+  assert.ok(Math.abs(tempo.bpm - 120) < 2, `bpm ${tempo.bpm} should be near 120`);
+
+  const grid = buildBeatGrid(envelope, tempo.periodFrames, FRAMES_PER_SECOND);
+  assert.ok(Math.abs((60 * FRAMES_PER_SECOND) / grid.periodFrames - 120) < 0.2);
+  assert.strictEqual(grid.beatsMs.length, 40);
+  grid.beatsMs.forEach((beatMs, i) => {
+    assert.ok(Math.abs(beatMs - (300 + i * 500)) <= 30, `beat ${i} at ${beatMs}ms should be near ${300 + i * 500}ms`);
+  });
+});
+
+test('estimateTempo gives up on silence', () => {
+  assert.strictEqual(estimateTempo(new Float32Array(2000), FRAMES_PER_SECOND, 70, 180), undefined);
+});
+
+test('detectBeats decodes with ffmpeg and returns the beat grid', async () => {
+  const samples = clickTrack(100, 12, 0.2);
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => pcm.writeInt16LE(Math.round(sample * 32767), i * 2));
+  const musicPath = path.join(tmpDir, 'background.mp3');
+  await fs.writeFile(`${musicPath}.pcm`, pcm);
+
+  const grid = await detectBeats(musicPath, { ffmpegPath, minBpm: 70, maxBpm: 180 });
+
+  assert.ok(Math.abs(grid.bpm - 100) < 1, `bpm ${grid.bpm} should be near 100`);
+  assert.strictEqual(grid.durationMs, 12000);
+  assert.ok(grid.confidence > 0 && grid.confidence <= 1);
+  assert.ok(Math.abs(grid.beatsMs[0] - 200) <= 30);
+  assert.ok(Math.abs(grid.beatsMs[10] - 6200) <= 30);
+
+  await assert.rejects(
+    () => detectBeats(path.join(tmpDir, 'missing.mp3'), { ffmpegPath }),
+    /ffmpeg exited with code 1: .*No such file/
+  );
+});
+
+test('snapToBeat moves to the nearest beat only within tolerance', () => {
+  const beatsMs = [500, 1000, 1500, 2000];
+
+  assert.strictEqual(snapToBeat(1180, beatsMs, 250), 1000);
+  assert.strictEqual(snapToBeat(1300, beatsMs, 250), 1500);
+  assert.strictEqual(snapToBeat(2200, beatsMs, 250), 2000);
+  assert.strictEqual(snapToBeat(2200, beatsMs, 150), 2200);
+  assert.strictEqual(snapToBeat(100, beatsMs, 250), 100);
+  assert.strictEqual(snapToBeat(1200, [], 250), 1200);
+});
+
+console.log('\n✅ All beat detection tests passed!');
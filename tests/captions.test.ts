@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+/**
+ * Caption Export Tests
+ * Tests cue building from text elements and the SRT, WebVTT and ASS writers
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildCaptionCues,
+  formatCaptionTime,
+  toAss,
+  toAssColor,
+  toSrt,
+  toVtt,
+  writeCaptionFiles,
+} from '../cli/services/captions';
+import type { TextElement } from '../src/lib/types';
+
+const word = (text: string, startMs: number, endMs: number, level: 'none' | 'med' | 'high' = 'none') => ({
+  text,
+  startMs,
+  endMs,
+  emphasis: { level },
+});
+
+const TEXT_ELEMENTS: TextElement[] = [
+  {
+    text: 'Rome was not built',
+    position: 'bottom',
+    startMs: 1000,
+    endMs: 2300,
+    words: [word('Rome', 1000, 1400, 'high'), word('was', 1450, 1600), word('not', 1650, 1900), word('built', 1950, 2300)],
+    holdFrames: 9,
+  },
+  {
+    text: 'in a day.',
+    position: 'bottom',
+    startMs: 2400,
+    endMs: 3000,
+    words: [word('in', 2400, 2500), word('a', 2550, 2600), word('day.', 2650, 3000)],
+  },
+];
+
+test('buildCaptionCues uses word timings and hold buffers without overlapping', () => {
+  const cues = buildCaptionCues(TEXT_ELEMENTS, { fps: 30, maxCharactersPerLine: 10, maxLines: 2 });
+
+  // 9 frames of hold would run to 2600ms, past the next sentence
+  assert.deepStrictEqual(cues.map((cue) => [cue.startMs, cue.endMs]), [[1000, 2400], [2400, 3200]]);
+  assert.deepStrictEqual(cues[0].lines, [[0, 1], [2, 3]]);
+  assert.strictEqual(cues[0].words[0].emphasis, 'high');
+
+  // Phrase elements without words keep their own timing
+  const legacy = buildCaptionCues(
+    [{ text: 'Old style phrase', position: 'bottom', startMs: 500, endMs: 1500 }],
+    { fps: 30 }
+  );
+  assert.deepStrictEqual(legacy.map((cue) => [cue.startMs, cue.endMs, cue.words.length]), [[500, 1500, 3]]);
+});
+
+test('formatCaptionTime writes each format\'s timestamp', () => {
+  assert.strictEqual(formatCaptionTime(3723456, 'srt'), '01:02:03,456');
+  assert.strictEqual(formatCaptionTime(3723456, 'vtt'), '01:02:03.456');
+  assert.strictEqual(formatCaptionTime(3723456, 'ass'), '1:02:03.45');
+  assert.strictEqual(formatCaptionTime(-20, 'srt'), '00:00:00,000');
+});
+
+test('toSrt and toVtt write numbered and karaoke cues', () => {
+  const cues = buildCaptionCues(TEXT_ELEMENTS, { fps: 30, maxCharactersPerLine: 10, maxLines: 2 });
+
+  assert.strictEqual(
+    toSrt(cues),
+    '1\n00:00:01,000 --> 00:00:02,400\nRome was\nnot built\n\n2\n00:00:02,400 --> 00:00:03,200\nin a day.\n'
+  );
+  assert.strictEqual(
+    toVtt(cues),
+    'WEBVTT\n\n00:00:01.000 --> 00:00:02.400\nRome was\nnot built\n\n00:00:02.400 --> 00:00:03.200\nin a day.\n'
+  );
+  assert.ok(toVtt(cues, { karaoke: true }).includes(
+    '00:00:01.000 --> 00:00:02.400\nRome <00:00:01.450>was\n<00:00:01.650>not <00:00:01.950>built'
+  ));
+});
+
+test('toAssColor converts hex and rgba colors', () => {
+  assert.strictEqual(toAssColor('#FFD700', '#FFFFFF'), '&H0000D7FF');
+  assert.strictEqual(toAssColor('rgba(0, 0, 0, 0.7)', '#FFFFFF'), '&H4D000000');
+  assert.strictEqual(toAssColor(undefined, '#000000'), '&H00000000');
+  assert.strictEqual(toAssColor('teal', '#FFFFFF'), '&H00FFFFFF');
+});
+
+test('toAss styles captions from the text config and adds karaoke timing', () => {
+  const cues = buildCaptionCues(TEXT_ELEMENTS, { fps: 30, maxCharactersPerLine: 10, maxLines: 2 });
+  const ass = toAss(
+    cues,
+    {
+      width: 1080,
+      height: 1920,
+      position: 'bottom',
+      fontFamily: 'Inter',
+      fontSize: 48,
+      fontWeight: 700,
+      color: '#FFFFFF',
+      strokeColor: '#000000',
+      strokeWidth: 2,
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      emphasisColors: { high: '#FFD700' },
+    },
+    { karaoke: true, title: 'Rome' }
+  );
+
+  assert.match(ass, /^\[Script Info\]\nTitle: Rome\n/);
+  assert.match(ass, /PlayResX: 1080\nPlayResY: 1920\n/);
+  assert.match(
+    ass,
+    /Style: Default,Inter,48,&H00FFFFFF,&H80FFFFFF,&H00000000,&H4D000000,-1,0,0,0,100,100,0,0,3,2,0,2,54,54,422,1\n/
+  );
+  assert.ok(ass.includes(
+    'Dialogue: 0,0:00:01.00,0:00:02.40,Default,,0,0,0,,{\\k40}{\\c&H00D7FF&}Rome{\\c} {\\k20}was\\N{\\k30}not {\\k40}built\n'
+  ));
+});
+
+test('writeCaptionFiles writes the requested formats', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'captions-test-'));
+  try {
+    const outputPaths = {
+      srt: path.join(dir, 'captions.srt'),
+      vtt: path.join(dir, 'captions.vtt'),
+      ass: path.join(dir, 'captions.ass'),
+    };
+    const written = await writeCaptionFiles(TEXT_ELEMENTS, outputPaths, {
+      formats: ['srt', 'ass'],
+      fps: 30,
+      style: { width: 1920, height: 1080 },
+    });
+
+    assert.deepStrictEqual(written, { srt: outputPaths.srt, ass: outputPaths.ass });
+    assert.match(await fs.readFile(outputPaths.srt, 'utf-8'), /^1\n00:00:01,000 --> /);
+    await assert.rejects(() => fs.access(outputPaths.vtt), /ENOENT/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+console.log('\n✅ All caption export tests passed!');
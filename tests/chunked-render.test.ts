@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+/**
+ * Chunked Render Tests
+ * Tests chunk planning at segment boundaries, the concat join (through a
+ * stand-in ffmpeg executable) and per-chunk retry and resume with a stand-in
+ * renderer
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { VideoConfig } from 'remotion';
+import {
+  buildConcatList,
+  concatChunks,
+  hashRenderSources,
+  planChunks,
+  renderChunked,
+  ChunkedRenderOptions,
+  RenderJob,
+  RenderResult,
+  toEncoderSettings,
+} from '../cli/services/render';
+
+let tmpDir: string;
+let ffmpegPath: string;
+
+before(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunked-render-test-'));
+
+  // Joining writes the concat list and the arguments into the output file
+  ffmpegPath = path.join(tmpDir, 'ffmpeg');
+  await fs.writeFile(
+    ffmpegPath,
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const list = fs.readFileSync(args[args.indexOf('-i') + 1], 'utf-8');
+fs.writeFileSync(args[args.length - 1], JSON.stringify({ args, list }));
+`,
+    { mode: 0o755 }
+  );
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+const composition = {
+  id: 'demo',
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  durationInFrames: 900,
+} as VideoConfig;
+
+function chunkOptions(workDir: string, overrides: Partial<ChunkedRenderOptions> = {}): ChunkedRenderOptions {
+  return {
+    serveUrl: 'http://localhost/bundle',
+    composition,
+    outputLocation: path.join(workDir, '..', `${path.basename(workDir)}.mp4`),
+    encoder: toEncoderSettings({ codec: 'h264', crf: 23, preset: 'fast' }, 4),
+    workDir,
+    boundaryFrames: [0, 150, 300, 450, 600, 750],
+    chunks: 3,
+    workers: 2,
+    minChunkFrames: 100,
+    maxAttempts: 2,
+    cacheKey: 'timeline-v1',
+    ffmpegPath,
+    ...overrides,
+  };
+}
+
+/**
+ * Renderer that writes a marker file, failing the given frame ranges a set number of times
+ */
+function fakeRenderer(failures: Record<number, number> = {}) {
+  const jobs: RenderJob[] = [];
+  const renderer = async (job: RenderJob): Promise<RenderResult> => {
+    jobs.push(job);
+    const start = job.frameRange ? job.frameRange[0] : -1;
+    if (failures[start] > 0) {
+      failures[start]--;
+      throw new Error(`browser crashed at frame ${start}`);
+    }
+    await fs.writeFile(job.outputLocation, `${job.encoder.codec}:${job.frameRange}`);
+    return {
+      width: 1920,
+      height: 1080,
+      fps: 30,
+      durationInFrames: 900,
+      renderedFrames: job.frameRange ? job.frameRange[1] - job.frameRange[0] + 1 : 900,
+      frameRange: job.frameRange || null,
+    };
+  };
+  return { jobs, renderer };
+}
+
+test('planChunks cuts at the segment boundary nearest each even split', () => {
+  const plan = planChunks(900, [0, 140, 280, 470, 610, 760], { chunks: 3, minChunkFrames: 100 });
+
+  assert.deepStrictEqual(plan, [
+    { index: 0, startFrame: 0, endFrame: 279 },
+    { index: 1, startFrame: 280, endFrame: 609 },
+    { index: 2, startFrame: 610, endFrame: 899 },
+  ]);
+});
+
+test('planChunks keeps chunks at least minChunkFrames long', () => {
+  // Only one boundary leaves room on both sides
+  assert.deepStrictEqual(
+    planChunks(900, [50, 400, 850], { chunks: 4, minChunkFrames: 300 }).map((c) => [c.startFrame, c.endFrame]),
+    [[0, 399], [400, 899]]
+  );
+  // A short video stays in one chunk
+  assert.deepStrictEqual(planChunks(900, [300, 600], { chunks: 4, minChunkFrames: 1800 }), [
+    { index: 0, startFrame: 0, endFrame: 899 },
+  ]);
+});
+
+test('buildConcatList quotes absolute paths for the concat demuxer', () => {
+  assert.strictEqual(
+    buildConcatList(['/tmp/chunks/chunk-001.mp4', "/tmp/it's/chunk-002.mp4"]),
+    "file '/tmp/chunks/chunk-001.mp4'\nfile '/tmp/it'\\''s/chunk-002.mp4'\n"
+  );
+});
+
+test('concatChunks joins chunks and muxes the soundtrack by stream copy', async () => {
+  const dir = path.join(tmpDir, 'concat');
+  await fs.mkdir(dir);
+  const outputPath = path.join(tmpDir, 'joined.mp4');
+
+  await concatChunks([path.join(dir, 'a.mp4'), path.join(dir, 'b.mp4')], path.join(dir, 'audio.aac'), outputPath, {
+    ffmpegPath,
+  });
+
+  const { args, list } = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+  assert.strictEqual(list, buildConcatList([path.join(dir, 'a.mp4'), path.join(dir, 'b.mp4')]));
+  assert.deepStrictEqual(args.slice(args.indexOf('-map')), [
+    '-map', '0:v:0', '-map', '1:a:0', '-c', 'copy', '-movflags', '+faststart', outputPath,
+  ]);
+});
+
+test('renderChunked renders muted chunks, audio once, and cleans up', async () => {
+  const workDir = path.join(tmpDir, 'render-ok');
+  const { jobs, renderer } = fakeRenderer();
+  const progress: number[] = [];
+
+  const result = await renderChunked(
+    chunkOptions(workDir, { onProgress: ({ renderedFrames }) => progress.push(renderedFrames) }),
+    renderer
+  );
+
+  const chunkJobs = jobs.filter((job) => job.frameRange);
+  assert.deepStrictEqual(chunkJobs.map((job) => job.frameRange), [[0, 299], [300, 599], [600, 899]]);
+  assert.ok(chunkJobs.every((job) => job.muted && job.encoder.concurrency === 2 && job.composition === composition));
+
+  const audioJobs = jobs.filter((job) => !job.frameRange);
+  assert.strictEqual(audioJobs.length, 1);
+  assert.strictEqual(audioJobs[0].encoder.codec, 'aac');
+
+  assert.strictEqual(result.renderedFrames, 900);
+  assert.strictEqual(result.reusedChunks, 0);
+  assert.ok(result.chunks.every((chunk) => chunk.status === 'completed' && chunk.attempts === 1));
+  assert.strictEqual(progress[progress.length - 1], 900);
+
+  const { list } = JSON.parse(await fs.readFile(path.join(tmpDir, 'render-ok.mp4'), 'utf-8'));
+  assert.match(list, /chunk-001\.mp4'\nfile .*chunk-002\.mp4'\nfile .*chunk-003\.mp4'\n$/);
+  await assert.rejects(() => fs.access(workDir), /ENOENT/);
+});
+
+test('renderChunked retries a failed chunk on its own', async () => {
+  const { jobs, renderer } = fakeRenderer({ 300: 1 });
+
+  const result = await renderChunked(chunkOptions(path.join(tmpDir, 'render-retry')), renderer);
+
+  assert.deepStrictEqual(
+    jobs.filter((job) => job.frameRange).map((job) => job.frameRange![0]).sort((a, b) => a - b),
+    [0, 300, 300, 600]
+  );
+  assert.deepStrictEqual(result.chunks.map((chunk) => chunk.attempts), [1, 2, 1]);
+});
+
+test('renderChunked keeps completed chunks so a re-run renders only the failed ones', async () => {
+  const workDir = path.join(tmpDir, 'render-resume');
+  const first = fakeRenderer({ 600: 2 });
+
+  await assert.rejects(
+    () => renderChunked(chunkOptions(workDir), first.renderer),
+    (error: any) => error.name === 'RenderError' && /1 of 3 chunk\(s\) failed.*chunk 3 \(frames 600-899\): browser crashed/.test(error.message)
+  );
+  const manifest = JSON.parse(await fs.readFile(path.join(workDir, 'chunks.json'), 'utf-8'));
+  assert.deepStrictEqual(manifest.chunks.map((chunk: any) => chunk.status), ['completed', 'completed', 'failed']);
+
+  const second = fakeRenderer();
+  const result = await renderChunked(chunkOptions(workDir), second.renderer);
+  assert.deepStrictEqual(second.jobs.map((job) => job.frameRange), [[600, 899]]);
+  assert.strictEqual(result.reusedChunks, 2);
+
+  // A changed timeline invalidates earlier chunks
+  const third = fakeRenderer({ 0: 2 });
+  await assert.rejects(() => renderChunked(chunkOptions(workDir), third.renderer));
+  const fourth = fakeRenderer();
+  await renderChunked(chunkOptions(workDir, { cacheKey: 'timeline-v2' }), fourth.renderer);
+  assert.strictEqual(fourth.jobs.length, 4);
+});
+
+test('hashRenderSources changes with any bundled source or config file', async () => {
+  const srcDir = path.join(tmpDir, 'sources', 'src');
+  const configPath = path.join(tmpDir, 'sources', 'video.config.json');
+  await fs.mkdir(path.join(srcDir, 'components'), { recursive: true });
+  await fs.writeFile(path.join(srcDir, 'components', 'Word.tsx'), 'export const Word = 1;');
+  await fs.writeFile(path.join(srcDir, 'index.ts'), 'export {};');
+  await fs.writeFile(configPath, '{"text":{"fontSize":48}}');
+
+  const hash = () => hashRenderSources([srcDir, configPath]);
+  const original = await hash();
+  assert.match(original, /^[0-9a-f]{64}$/);
+  assert.strictEqual(await hash(), original);
+
+  await fs.writeFile(configPath, '{"text":{"fontSize":52}}');
+  const restyled = await hash();
+  assert.notStrictEqual(restyled, original);
+
+  await fs.writeFile(path.join(srcDir, 'components', 'Word.tsx'), 'export const Word = 2;');
+  assert.notStrictEqual(await hash(), restyled);
+});
+
+console.log('\n✅ All chunked render tests passed!');
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+/**
+ * Concurrency Utility Tests
+ * Tests bounded pools used for parallel segment processing in gather
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLimiter, mapConcurrent } from '../cli/utils/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('createLimiter never exceeds maxConcurrent', async () => {
+  const limit = createLimiter(2);
+  let active = 0;
+  let peak = 0;
+
+  await Promise.all(
+    Array.from({ length: 6 }, () =>
+      limit(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(5);
+        active--;
+      })
+    )
+  );
+
+  assert.strictEqual(peak, 2);
+});
+
+test('createLimiter propagates results and errors without leaking slots', async () => {
+  const limit = createLimiter(1);
+
+  await assert.rejects(() => limit(async () => { throw new Error('boom'); }), /boom/);
+  await assert.rejects(() => limit(() => { throw new Error('sync boom'); }), /sync boom/);
+  assert.strictEqual(await limit(async () => 42), 42);
+});
+
+test('mapConcurrent keeps input order regardless of completion order', async () => {
+  const results = await mapConcurrent([30, 5, 15, 1], 4, async (ms, index) => {
+    await delay(ms);
+    return `segment-${index + 1}`;
+  });
+
+  assert.deepStrictEqual(results, ['segment-1', 'segment-2', 'segment-3', 'segment-4']);
+});
+
+test('mapConcurrent stops scheduling after a failure and waits for in-flight work', async () => {
+  const started: number[] = [];
+  let inFlightFinished = false;
+
+  await assert.rejects(
+    () =>
+      mapConcurrent([0, 1, 2, 3, 4], 2, async (item) => {
+        started.push(item);
+        if (item === 0) {
+          throw new Error('segment failed');
+        }
+        await delay(10);
+        inFlightFinished = true;
+      }),
+    /segment failed/
+  );
+
+  assert.deepStrictEqual(started, [0, 1]);
+  assert.strictEqual(inFlightFinished, true);
+});
+
+test('mapConcurrent handles empty input', async () => {
+  assert.deepStrictEqual(await mapConcurrent([], 3, async () => 1), []);
+});
+
+console.log('\n✅ All concurrency tests passed!');
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * ElevenLabs TTS Provider Tests
+ * Runs the provider against a local mock HTTP server
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ElevenLabsTTSProvider, buildWordTimestamps } from '../cli/services/tts/elevenlabs-tts';
+import { TTSError } from '../cli/lib/media-types';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const requests: RecordedRequest[] = [];
+let nextResponse: { status: number; body: any } = { status: 200, body: {} };
+let server: http.Server;
+let baseUrl: string;
+
+const alignment = {
+  characters: ['H', 'i', ' ', 't', 'h', 'e', 'r', 'e', '.'],
+  character_start_times_seconds: [0, 0.1, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5],
+  character_end_times_seconds: [0.1, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.62],
+};
+
+const providerConfig = {
+  modelId: 'eleven_multilingual_v2',
+  outputFormat: 'mp3_44100_128',
+  defaultVoice: { voiceId: 'default-voice', stability: 0.5, similarityBoost: 0.75, style: 0, useSpeakerBoost: true },
+  voices: { domi: { voiceId: 'domi-voice', stability: 0.3 } },
+};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+      res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(nextResponse.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+test('buildWordTimestamps groups characters into words with character timing', () => {
+  const words = buildWordTimestamps(alignment);
+
+  assert.deepStrictEqual(words.map((w) => w.word), ['Hi', 'there.']);
+  assert.strictEqual(words[0].startMs, 0);
+  assert.strictEqual(words[0].endMs, 200);
+  assert.strictEqual(words[1].startMs, 250);
+  assert.strictEqual(words[1].endMs, 620);
+  assert.deepStrictEqual(words[0].characters, [
+    { char: 'H', startMs: 0, endMs: 100 },
+    { char: 'i', startMs: 100, endMs: 200 },
+  ]);
+  assert.strictEqual(words[1].characters?.length, 6);
+});
+
+test('generateAudio calls the with-timestamps endpoint and decodes the response', async () => {
+  requests.length = 0;
+  nextResponse = {
+    status: 200,
+    body: { audio_base64: Buffer.from('fake-mp3').toString('base64'), alignment },
+  };
+
+  const provider = new ElevenLabsTTSProvider('test-key', { ...providerConfig, baseUrl });
+  const result = await provider.generateAudio('Hi there.', { voice: 'domi', speed: 1.1 });
+
+  assert.strictEqual(requests.length, 1);
+  const [request] = requests;
+  assert.strictEqual(request.method, 'POST');
+  assert.strictEqual(request.url, '/v1/text-to-speech/domi-voice/with-timestamps?output_format=mp3_44100_128');
+  assert.strictEqual(request.headers['xi-api-key'], 'test-key');
+  assert.deepStrictEqual(request.body, {
+    text: 'Hi there.',
+    model_id: 'eleven_multilingual_v2',
+    voice_settings: { stability: 0.3, similarity_boost: 0.75, style: 0, use_speaker_boost: true, speed: 1.1 },
+  });
+
+  assert.strictEqual(result.format, 'mp3');
+  assert.strictEqual(result.audioBuffer.toString(), 'fake-mp3');
+  assert.strictEqual(result.durationMs, 620);
+  assert.deepStrictEqual(result.timestamps.map((w) => w.word), ['Hi', 'there.']);
+});
+
+test('generateAudio accepts a raw voice ID', async () => {
+  requests.length = 0;
+  nextResponse = {
+    status: 200,
+    body: { audio_base64: Buffer.from('x').toString('base64'), alignment },
+  };
+
+  const provider = new ElevenLabsTTSProvider('test-key', { ...providerConfig, baseUrl });
+  await provider.generateAudio('Hi there.', { voice: 'custom-id' });
+
+  assert.match(requests[0].url ?? '', /^\/v1\/text-to-speech\/custom-id\/with-timestamps/);
+  assert.strictEqual(requests[0].body.voice_settings.stability, 0.5);
+  assert.strictEqual('speed' in requests[0].body.voice_settings, false);
+});
+
+test('generateAudio wraps HTTP errors in TTSError', async () => {
+  nextResponse = { status: 401, body: { detail: { status: 'invalid_api_key', message: 'Invalid API key' } } };
+
+  const provider = new ElevenLabsTTSProvider('bad-key', { ...providerConfig, baseUrl });
+
+  await assert.rejects(
+    () => provider.generateAudio('Hi there.'),
+    (error: any) => {
+      assert.ok(error instanceof TTSError);
+      assert.strictEqual(error.provider, 'elevenlabs');
+      assert.match(error.message, /HTTP 401: Invalid API key/);
+      return true;
+    }
+  );
+});
+
+test('generateAudio rejects responses without alignment', async () => {
+  nextResponse = { status: 200, body: { audio_base64: Buffer.from('x').toString('base64') } };
+
+  const provider = new ElevenLabsTTSProvider('test-key', { ...providerConfig, baseUrl });
+
+  await assert.rejects(() => provider.generateAudio('Hi'), /No character alignment/);
+});
+
+test('generateAudio rejects non-mp3 output formats', async () => {
+  const provider = new ElevenLabsTTSProvider('test-key', { ...providerConfig, baseUrl, outputFormat: 'pcm_16000' });
+
+  await assert.rejects(() => provider.generateAudio('Hi'), /Unsupported outputFormat/);
+});
+
+console.log('\n✅ All ElevenLabs TTS tests passed!');
@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/**
+ * Gather Checkpoint Tests
+ * Tests per-segment checkpointing, resume and single-segment regathering in the gather stage
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  assembleGatherOutput,
+  createGatherCheckpoint,
+  findCompletedSegment,
+  hashGatherConfig,
+  hashSegmentText,
+  loadGatherCheckpoint,
+  replaceSegmentAssets,
+  saveGatherCheckpoint,
+  SegmentCheckpoint,
+} from '../cli/lib/gather-checkpoint';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gather-checkpoint-test-'));
+const checkpointPath = path.join(tmpDir, 'gather-checkpoint.json');
+const params = { preview: false, scrape: false, configHash: hashGatherConfig({ tts: { provider: 'local' } }) };
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function createSegment(segmentId: string, text: string): SegmentCheckpoint {
+  const audioPath = path.join(tmpDir, `${segmentId}.mp3`);
+  fs.writeFileSync(audioPath, 'audio');
+
+  return {
+    segmentId,
+    textHash: hashSegmentText(text),
+    tags: [{ tag: `${segmentId}-tag`, segmentId, confidence: 0.9 }],
+    images: [{ id: `${segmentId}-img`, segmentId, path: `${segmentId}.jpg`, source: 'pexels', tags: [] }],
+    videos: [],
+    audio: { id: segmentId, path: audioPath, segmentId, durationMs: 1000 },
+    completedAt: new Date().toISOString(),
+  };
+}
+
+test('loadGatherCheckpoint starts empty when no checkpoint exists', async () => {
+  const checkpoint = await loadGatherCheckpoint(path.join(tmpDir, 'missing.json'), params);
+  assert.deepStrictEqual(checkpoint.segments, {});
+});
+
+test('saved checkpoints round-trip and resume completed segments', async () => {
+  const checkpoint = createGatherCheckpoint(params);
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'First segment');
+  await saveGatherCheckpoint(checkpointPath, checkpoint);
+
+  const loaded = await loadGatherCheckpoint(checkpointPath, params);
+  const completed = await findCompletedSegment(loaded, 'segment-1', 'First segment');
+
+  assert.ok(completed, 'segment-1 should be resumed from the checkpoint');
+  assert.strictEqual(completed.audio.durationMs, 1000);
+  assert.strictEqual(await findCompletedSegment(loaded, 'segment-2', 'Second segment'), undefined);
+});
+
+test('checkpoints written with different options are discarded', async () => {
+  const checkpoint = createGatherCheckpoint({ ...params, preview: true });
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'First segment');
+  await saveGatherCheckpoint(checkpointPath, checkpoint);
+
+  const loaded = await loadGatherCheckpoint(checkpointPath, params);
+  assert.deepStrictEqual(loaded.segments, {});
+});
+
+test('checkpoints written with a different gather config are discarded', async () => {
+  const checkpoint = createGatherCheckpoint({ ...params, configHash: hashGatherConfig({ tts: { provider: 'elevenlabs' } }) });
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'First segment');
+  await saveGatherCheckpoint(checkpointPath, checkpoint);
+
+  const loaded = await loadGatherCheckpoint(checkpointPath, params);
+  assert.deepStrictEqual(loaded.segments, {});
+  assert.strictEqual(loaded.params.configHash, params.configHash);
+});
+
+test('edited segment text, speaking notes or missing audio forces a regather', async () => {
+  const checkpoint = createGatherCheckpoint(params);
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'First segment');
+  checkpoint.segments['segment-2'] = createSegment('segment-2', 'Second segment');
+  checkpoint.segments['segment-3'] = { ...createSegment('segment-3', 'Third'), textHash: hashSegmentText('Third', 'slow') };
+
+  assert.strictEqual(await findCompletedSegment(checkpoint, 'segment-1', 'First segment, edited'), undefined);
+  assert.strictEqual(await findCompletedSegment(checkpoint, 'segment-1', 'First segment', 'dramatic pause'), undefined);
+  assert.ok(await findCompletedSegment(checkpoint, 'segment-3', 'Third', 'slow'));
+  assert.strictEqual(await findCompletedSegment(checkpoint, 'segment-3', 'Third', 'fast, upbeat'), undefined);
+
+  fs.rmSync(checkpoint.segments['segment-2'].audio.path);
+  assert.strictEqual(await findCompletedSegment(checkpoint, 'segment-2', 'Second segment'), undefined);
+});
+
+test('assembleGatherOutput follows script order, not completion order', () => {
+  const checkpoint = createGatherCheckpoint(params);
+  checkpoint.segments['segment-2'] = createSegment('segment-2', 'Second segment');
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'First segment');
+
+  const { tags, manifest } = assembleGatherOutput(checkpoint, ['segment-1', 'segment-2']);
+
+  assert.deepStrictEqual(tags.map((t) => t.segmentId), ['segment-1', 'segment-2']);
+  assert.deepStrictEqual(manifest.audio.map((a) => a.segmentId), ['segment-1', 'segment-2']);
+  assert.deepStrictEqual(manifest.images.map((img) => img.id), ['segment-1-img', 'segment-2-img']);
+  assert.deepStrictEqual(manifest.music, []);
+});
+
+test('assembleGatherOutput rejects segments that were never gathered', () => {
+  const checkpoint = createGatherCheckpoint(params);
+  assert.throws(() => assembleGatherOutput(checkpoint, ['segment-1']), /segment-1 missing/);
+});
+
+test('replaceSegmentAssets replaces only the targeted segments', () => {
+  const checkpoint = createGatherCheckpoint(params);
+  for (const id of ['segment-1', 'segment-2', 'segment-3']) {
+    checkpoint.segments[id] = createSegment(id, id);
+  }
+  const existing = {
+    ...assembleGatherOutput(checkpoint, ['segment-1', 'segment-2', 'segment-3']),
+    gatheredAt: '2024-01-01T00:00:00.000Z',
+  };
+  existing.manifest.music.push({ id: 'music-1', path: 'background.mp3', source: 'local', genre: 'calm' });
+
+  const regathered = createSegment('segment-2', 'segment-2');
+  regathered.tags = [
+    { tag: 'new-a', segmentId: 'segment-2', confidence: 0.8 },
+    { tag: 'new-b', segmentId: 'segment-2', confidence: 0.7 },
+  ];
+  regathered.images = [];
+  regathered.videos = [{
+    id: 'new-video', segmentId: 'segment-2', path: 'new.mp4', source: 'pexels', tags: [], width: 1920, height: 1080, duration: 8,
+  }];
+  regathered.audio = { ...regathered.audio, durationMs: 4321 };
+
+  const output = replaceSegmentAssets(existing, [regathered], ['segment-1', 'segment-2', 'segment-3']);
+
+  assert.deepStrictEqual(output.tags.map((t) => t.tag), ['segment-1-tag', 'new-a', 'new-b', 'segment-3-tag']);
+  assert.deepStrictEqual(output.manifest.images.map((img) => img.id), ['segment-1-img', 'segment-3-img']);
+  assert.deepStrictEqual(output.manifest.videos.map((v) => v.id), ['new-video']);
+  assert.deepStrictEqual(output.manifest.audio.map((a) => a.durationMs), [1000, 4321, 1000]);
+  assert.deepStrictEqual(output.manifest.music, existing.manifest.music);
+  assert.strictEqual(output.manifest.images[0], existing.manifest.images[0], 'other segments stay untouched');
+});
+
+test('replaceSegmentAssets keeps audio in script order for newly added segments', () => {
+  const checkpoint = createGatherCheckpoint(params);
+  checkpoint.segments['segment-1'] = createSegment('segment-1', 'segment-1');
+  checkpoint.segments['segment-3'] = createSegment('segment-3', 'segment-3');
+  const existing = { ...assembleGatherOutput(checkpoint, ['segment-1', 'segment-3']), gatheredAt: '' };
+
+  const output = replaceSegmentAssets(
+    existing,
+    [createSegment('segment-2', 'segment-2')],
+    ['segment-1', 'segment-2', 'segment-3']
+  );
+
+  assert.deepStrictEqual(output.manifest.audio.map((a) => a.segmentId), ['segment-1', 'segment-2', 'segment-3']);
+});
+
+console.log('\n✅ All gather checkpoint tests passed!');
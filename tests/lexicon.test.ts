@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Pronunciation Lexicon Tests
+ * Tests term matching, SSML rendering, alias substitution and timestamp remapping
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  toLexiconEntries,
+  findLexiconMatches,
+  applyLexiconSubstitution,
+  remapTimestamps,
+} from '../cli/services/tts/lexicon';
+import { buildSSML } from '../cli/services/tts/ssml-builder';
+import { ConfigManager } from '../cli/lib/config';
+import { WordTimestamp } from '../cli/lib/media-types';
+
+const lexicon = toLexiconEntries(
+  {
+    entries: {
+      SQL: { alias: 'sequel', alphabet: 'ipa', caseSensitive: true },
+      Nguyen: { phoneme: 'wɪn', alphabet: 'ipa', caseSensitive: false },
+      ChatGPT: { alias: 'chat G P T', alphabet: 'ipa', caseSensitive: false },
+      'Hugging Face': { alias: 'hugging fayce', alphabet: 'ipa', caseSensitive: false },
+    },
+  },
+  {
+    entries: {
+      nguyen: { alias: 'win', phoneme: 'ŋwiən', alphabet: 'ipa', caseSensitive: false },
+    },
+  }
+);
+
+/**
+ * One timestamp per spoken word, 100ms each
+ */
+function fakeTimestamps(text: string): WordTimestamp[] {
+  return text.split(/\s+/).map((word, i) => ({ word, startMs: i * 100, endMs: i * 100 + 90 }));
+}
+
+test('toLexiconEntries lets later configs override earlier ones', () => {
+  const nguyen = lexicon.filter((entry) => entry.term.toLowerCase() === 'nguyen');
+  assert.strictEqual(nguyen.length, 1);
+  assert.strictEqual(nguyen[0].phoneme, 'ŋwiən');
+  assert.strictEqual(nguyen[0].alias, 'win');
+});
+
+test('findLexiconMatches ignores punctuation and respects case sensitivity', () => {
+  const words = 'Ask (SQL) experts, not sql fans, about Hugging Face.'.split(/\s+/);
+  const matches = findLexiconMatches(words, lexicon);
+
+  assert.deepStrictEqual(
+    matches.map((m) => [m.start, m.end, m.entry.term]),
+    [[1, 2, 'SQL'], [7, 9, 'Hugging Face']]
+  );
+});
+
+test('buildSSML renders phoneme and sub tags with marks and punctuation outside', () => {
+  const ssml = buildSSML('Mr. Nguyen loves SQL, and Hugging Face.', { lexicon });
+
+  assert.ok(ssml.includes('<mark name="word1"/><phoneme alphabet="ipa" ph="ŋwiən">Nguyen</phoneme>'));
+  assert.ok(ssml.includes('<mark name="word3"/><sub alias="sequel">SQL</sub>,'));
+  assert.ok(ssml.includes('<mark name="word5"/><sub alias="hugging fayce">Hugging Face</sub>.'));
+  assert.ok(!ssml.includes('word6'), 'inner words of a multi-word term have no mark');
+});
+
+test('applyLexiconSubstitution substitutes aliases and maps words to spoken ranges', () => {
+  const substitution = applyLexiconSubstitution('I asked ChatGPT about SQL.', lexicon);
+
+  assert.strictEqual(substitution.text, 'I asked chat G P T about sequel.');
+  assert.deepStrictEqual(substitution.wordMap, [
+    { start: 0, end: 1 },
+    { start: 1, end: 2 },
+    { start: 2, end: 6 },
+    { start: 6, end: 7 },
+    { start: 7, end: 8 },
+  ]);
+});
+
+test('remapTimestamps restores original words and spans', () => {
+  const substitution = applyLexiconSubstitution('I asked ChatGPT about SQL.', lexicon);
+  const spoken = fakeTimestamps(substitution.text);
+  spoken[0].characters = [{ char: 'I', startMs: 0, endMs: 90 }];
+
+  const remapped = remapTimestamps(spoken, substitution);
+
+  assert.deepStrictEqual(remapped.map((t) => t.word), ['I', 'asked', 'ChatGPT', 'about', 'SQL.']);
+  assert.deepStrictEqual(remapped[0].characters, [{ char: 'I', startMs: 0, endMs: 90 }]);
+  assert.strictEqual(remapped[2].startMs, 200);
+  assert.strictEqual(remapped[2].endMs, 590);
+  assert.strictEqual(remapped[2].characters, undefined);
+  assert.strictEqual(remapped[4].startMs, 700);
+});
+
+test('remapTimestamps splits a multi-word term across its alias span', () => {
+  const substitution = applyLexiconSubstitution('Meet Hugging Face', lexicon);
+  assert.strictEqual(substitution.text, 'Meet hugging fayce');
+
+  const remapped = remapTimestamps(fakeTimestamps(substitution.text), substitution);
+
+  assert.deepStrictEqual(remapped.map((t) => t.word), ['Meet', 'Hugging', 'Face']);
+  assert.strictEqual(remapped[1].startMs, 100);
+  assert.strictEqual(remapped[2].endMs, 290);
+  assert.ok(remapped[1].endMs > remapped[1].startMs && remapped[1].endMs === remapped[2].startMs);
+});
+
+test('phoneme-only entries leave text unchanged for non-SSML providers', () => {
+  const phonemeOnly = toLexiconEntries({
+    entries: { Nguyen: { phoneme: 'wɪn', alphabet: 'ipa', caseSensitive: false } },
+  });
+  assert.strictEqual(applyLexiconSubstitution('Hello Nguyen', phonemeOnly).text, 'Hello Nguyen');
+});
+
+test('loadProjectLexicon validates entries and tolerates a missing file', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lexicon-test-'));
+  try {
+    assert.strictEqual(await ConfigManager.loadProjectLexicon(path.join(dir, 'missing.json')), undefined);
+
+    const valid = path.join(dir, 'valid.json');
+    await fs.writeFile(valid, JSON.stringify({ entries: { Kubernetes: { alias: 'koo ber net ees' } } }));
+    const loaded = await ConfigManager.loadProjectLexicon(valid);
+    assert.deepStrictEqual(loaded?.entries.Kubernetes, {
+      alias: 'koo ber net ees',
+      alphabet: 'ipa',
+      caseSensitive: false,
+    });
+
+    const invalid = path.join(dir, 'invalid.json');
+    await fs.writeFile(invalid, JSON.stringify({ entries: { Empty: {} } }));
+    await assert.rejects(() => ConfigManager.loadProjectLexicon(invalid), /needs an alias or a phoneme/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+console.log('\n✅ All lexicon tests passed!');
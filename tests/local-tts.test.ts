@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+/**
+ * Local TTS Provider Tests
+ * Tests WAV duration parsing, word timing estimation, and the engine/ffmpeg
+ * invocation using stand-in executables
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LocalTTSProvider,
+  getWavDurationMs,
+  parsePhonemeWeights,
+  estimateWordTimestamps,
+} from '../cli/services/tts/local-tts';
+import { TTSError } from '../cli/lib/media-types';
+
+/**
+ * Build a mono 16-bit PCM WAV of the given duration
+ */
+function makeWav(durationMs: number, sampleRate = 22050, dataSizeOverride?: number): Buffer {
+  const dataSize = Math.round((sampleRate * 2 * durationMs) / 1000);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSizeOverride ?? dataSize, 40);
+  return Buffer.concat([header, Buffer.alloc(dataSize)]);
+}
+
+let binDir: string;
+
+before(async () => {
+  binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-tts-test-'));
+  const wavBase64 = makeWav(1500).toString('base64');
+
+  // Stand-in espeak-ng: records its args and stdin, writes a 1.5s WAV to -w and prints IPA.
+  // Like the real binary, -q (quiet) turns off speech output, so no WAV is written
+  await fs.writeFile(
+    path.join(binDir, 'espeak-ng'),
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const input = fs.readFileSync(0, 'utf8');
+fs.writeFileSync(${JSON.stringify(path.join(binDir, 'espeak-args.json'))}, JSON.stringify({ args, input }));
+if (args.includes('-w') && !args.includes('-q')) fs.writeFileSync(args[args.indexOf('-w') + 1], Buffer.from(${JSON.stringify(wavBase64)}, 'base64'));
+process.stdout.write(' hˈɛloʊ wˈɜːld\\n');
+`,
+    { mode: 0o755 }
+  );
+
+  // Stand-in ffmpeg: copies the input file to the output path
+  await fs.writeFile(
+    path.join(binDir, 'ffmpeg'),
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.copyFileSync(args[args.indexOf('-i') + 1], args[args.length - 1]);
+`,
+    { mode: 0o755 }
+  );
+
+  await fs.writeFile(path.join(binDir, 'failing-engine'), '#!/bin/sh\necho "voice not found" >&2\nexit 2\n', { mode: 0o755 });
+});
+
+after(async () => {
+  await fs.rm(binDir, { recursive: true, force: true });
+});
+
+test('getWavDurationMs reads duration from the WAV header', () => {
+  assert.strictEqual(getWavDurationMs(makeWav(2000)), 2000);
+  assert.strictEqual(getWavDurationMs(makeWav(750, 16000)), 750);
+});
+
+test('getWavDurationMs handles streamed WAVs with an unset data size', () => {
+  assert.strictEqual(getWavDurationMs(makeWav(1000, 22050, 0xffffffff)), 1000);
+  assert.throws(() => getWavDurationMs(Buffer.from('not a wav file at all')), /Not a WAV file/);
+});
+
+test('parsePhonemeWeights counts IPA symbols per word', () => {
+  assert.deepStrictEqual(parsePhonemeWeights(' hˈɛloʊ wˈɜːld\n', 2), [5, 4]);
+  assert.strictEqual(parsePhonemeWeights('wˈʌn θˈaʊzənd', 1), undefined);
+});
+
+test('estimateWordTimestamps spreads duration by weight and pauses at punctuation', () => {
+  const timestamps = estimateWordTimestamps(['Hi,', 'there.', 'Bye'], 1100, [2, 3, 2]);
+
+  // Total weight: 2 + 3 + 2 words, + 2 (comma) + 4 (sentence) pauses = 13
+  assert.deepStrictEqual(timestamps.map((t) => t.word), ['Hi,', 'there.', 'Bye']);
+  assert.strictEqual(timestamps[0].startMs, 0);
+  assert.strictEqual(timestamps[0].endMs, Math.round((2 / 13) * 1100));
+  assert.strictEqual(timestamps[1].startMs, Math.round((4 / 13) * 1100));
+  assert.strictEqual(timestamps[2].startMs, Math.round((11 / 13) * 1100));
+  assert.strictEqual(timestamps[2].endMs, 1100);
+});
+
+test('estimateWordTimestamps falls back to letter counts', () => {
+  const timestamps = estimateWordTimestamps(['a', 'abc'], 400);
+  assert.strictEqual(timestamps[0].endMs, 100);
+  assert.strictEqual(timestamps[1].startMs, 100);
+  assert.deepStrictEqual(estimateWordTimestamps([], 400), []);
+});
+
+test('generateAudio runs espeak-ng and ffmpeg and estimates timestamps', async () => {
+  const provider = new LocalTTSProvider({
+    engine: 'espeak-ng',
+    binaryPath: path.join(binDir, 'espeak-ng'),
+    ffmpegPath: path.join(binDir, 'ffmpeg'),
+    defaultVoice: 'en-gb',
+    espeak: { wordsPerMinute: 160 },
+  });
+
+  const result = await provider.generateAudio('Hello world', { speed: 1.5 });
+
+  const { args, input } = JSON.parse(await fs.readFile(path.join(binDir, 'espeak-args.json'), 'utf8'));
+  assert.strictEqual(input, 'Hello world');
+  assert.strictEqual(args[args.indexOf('-v') + 1], 'en-gb');
+  assert.strictEqual(args[args.indexOf('-s') + 1], '240');
+  assert.strictEqual(args[args.indexOf('-p') + 1], '50');
+  assert.ok(!args.includes('-q'), 'quiet mode would skip writing the WAV');
+
+  assert.strictEqual(result.format, 'mp3');
+  assert.strictEqual(result.durationMs, 1500);
+  assert.ok(result.audioBuffer.length > 0);
+  assert.deepStrictEqual(result.timestamps, [
+    { word: 'Hello', startMs: 0, endMs: 833 },
+    { word: 'world', startMs: 833, endMs: 1500 },
+  ]);
+});
+
+test('generateAudio wraps engine failures in TTSError', async () => {
+  const provider = new LocalTTSProvider({
+    binaryPath: path.join(binDir, 'failing-engine'),
+    ffmpegPath: path.join(binDir, 'ffmpeg'),
+  });
+
+  await assert.rejects(
+    () => provider.generateAudio('Hello'),
+    (error: any) => {
+      assert.ok(error instanceof TTSError);
+      assert.strictEqual(error.provider, 'local');
+      assert.match(error.message, /exited with code 2: voice not found/);
+      return true;
+    }
+  );
+});
+
+test('constructor validates engine configuration', () => {
+  assert.throws(() => new LocalTTSProvider({ engine: 'say' }), /Unsupported local TTS engine/);
+  assert.throws(() => new LocalTTSProvider({ engine: 'piper', piper: {} }), /piper\.model/);
+});
+
+console.log('\n✅ All local TTS tests passed!');
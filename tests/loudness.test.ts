@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * Loudness Normalization Tests
+ * Tests loudnorm/silencedetect parsing, trim decisions and the two-pass
+ * ffmpeg invocation using a stand-in executable
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseLoudnormOutput,
+  parseSilenceDetect,
+  parseDurationMs,
+  computeTrimRange,
+  buildLoudnormFilter,
+  masterNarration,
+  masterMix,
+} from '../cli/services/audio/loudness';
+
+const MEASURE_OUTPUT = `Input #0, mp3, from 'segment-1.mp3':
+  Duration: 00:00:05.00, start: 0.000000, bitrate: 128 kb/s
+  Stream #0:0: Audio: mp3, 24000 Hz, mono, fltp, 128 kb/s
+[silencedetect @ 0x1] silence_start: 0
+[silencedetect @ 0x1] silence_end: 0.4 | silence_duration: 0.4
+[silencedetect @ 0x1] silence_start: 2.1
+[silencedetect @ 0x1] silence_end: 2.5 | silence_duration: 0.4
+[silencedetect @ 0x1] silence_start: 4.3
+[Parsed_loudnorm_1 @ 0x2]
+{
+	"input_i" : "-22.41",
+	"input_tp" : "-4.12",
+	"input_lra" : "3.20",
+	"input_thresh" : "-32.77",
+	"output_i" : "-16.02",
+	"output_tp" : "-1.50",
+	"output_lra" : "2.90",
+	"output_thresh" : "-26.30",
+	"normalization_type" : "dynamic",
+	"target_offset" : "0.02"
+}
+`;
+
+const target = { targetLufs: -16, truePeak: -1.5, lra: 11 };
+
+let tmpDir: string;
+let ffmpegPath: string;
+let argsLog: string;
+
+before(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'loudness-test-'));
+  argsLog = path.join(tmpDir, 'args.log');
+  await fs.writeFile(path.join(tmpDir, 'measure.txt'), MEASURE_OUTPUT);
+
+  // Measurement passes print canned output; apply passes copy input to output
+  ffmpegPath = path.join(tmpDir, 'ffmpeg');
+  await fs.writeFile(
+    ffmpegPath,
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.appendFileSync(${JSON.stringify(argsLog)}, JSON.stringify(args) + '\\n');
+if (args.includes('null')) {
+  process.stderr.write(fs.readFileSync(${JSON.stringify(path.join(tmpDir, 'measure.txt'))}, 'utf-8'));
+} else {
+  fs.copyFileSync(args[args.indexOf('-i') + 1], args[args.length - 1]);
+}
+`,
+    { mode: 0o755 }
+  );
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+async function readArgs(): Promise<string[][]> {
+  const log = await fs.readFile(argsLog, 'utf-8');
+  await fs.rm(argsLog);
+  return log.trim().split('\n').map((line) => JSON.parse(line));
+}
+
+test('parses loudnorm, silencedetect and duration output', () => {
+  assert.deepStrictEqual(parseLoudnormOutput(MEASURE_OUTPUT), {
+    inputI: -22.41,
+    inputTp: -4.12,
+    inputLra: 3.2,
+    inputThresh: -32.77,
+    targetOffset: 0.02,
+  });
+  assert.deepStrictEqual(parseSilenceDetect(MEASURE_OUTPUT), [
+    { startMs: 0, endMs: 400 },
+    { startMs: 2100, endMs: 2500 },
+    { startMs: 4300 },
+  ]);
+  assert.strictEqual(parseDurationMs(MEASURE_OUTPUT), 5000);
+});
+
+test('parseLoudnormOutput rejects missing or silent measurements', () => {
+  assert.throws(() => parseLoudnormOutput('no json here'), /measurement not found/);
+  assert.throws(
+    () => parseLoudnormOutput(MEASURE_OUTPUT.replace('"-22.41"', '"-inf"')),
+    /not usable/
+  );
+});
+
+test('computeTrimRange trims edges with padding but never into words', () => {
+  const silences = parseSilenceDetect(MEASURE_OUTPUT);
+
+  assert.deepStrictEqual(computeTrimRange(silences, 5000, { paddingMs: 50 }), { startMs: 350, endMs: 4350 });
+  assert.deepStrictEqual(
+    computeTrimRange(silences, 5000, { paddingMs: 50, keepStartMs: 200, keepEndMs: 4600 }),
+    { startMs: 200, endMs: 4600 }
+  );
+  assert.deepStrictEqual(computeTrimRange([{ startMs: 2100, endMs: 2500 }], 5000, { paddingMs: 50 }), {
+    startMs: 0,
+    endMs: 5000,
+  });
+  assert.deepStrictEqual(computeTrimRange([{ startMs: 0 }], 5000, { paddingMs: 50 }), { startMs: 0, endMs: 5000 });
+});
+
+test('buildLoudnormFilter builds measurement and linear passes', () => {
+  assert.strictEqual(buildLoudnormFilter(target), 'loudnorm=I=-16:TP=-1.5:LRA=11:print_format=json');
+  assert.strictEqual(
+    buildLoudnormFilter(target, parseLoudnormOutput(MEASURE_OUTPUT)),
+    'loudnorm=I=-16:TP=-1.5:LRA=11:measured_I=-22.41:measured_TP=-4.12:measured_LRA=3.2' +
+      ':measured_thresh=-32.77:offset=0.02:linear=true:print_format=summary'
+  );
+});
+
+test('masterNarration measures, trims and normalizes in place', async () => {
+  const audioPath = path.join(tmpDir, 'segment-1.mp3');
+  await fs.writeFile(audioPath, 'fake-mp3');
+
+  const result = await masterNarration(audioPath, {
+    ...target,
+    trimSilence: { thresholdDb: -50, minSilenceMs: 150, paddingMs: 50 },
+    keepEndMs: 4600,
+    ffmpegPath,
+  });
+
+  assert.deepStrictEqual(result, {
+    measuredLufs: -22.41,
+    targetLufs: -16,
+    trimmedLeadingMs: 350,
+    trimmedTrailingMs: 400,
+    durationMs: 4250,
+  });
+
+  const [measure, apply] = await readArgs();
+  assert.ok(measure.includes('silencedetect=noise=-50dB:d=0.15,loudnorm=I=-16:TP=-1.5:LRA=11:print_format=json'));
+  const filter = apply[apply.indexOf('-af') + 1];
+  assert.ok(filter.startsWith('atrim=start=0.35:end=4.6,asetpts=PTS-STARTPTS,loudnorm=I=-16'));
+  assert.strictEqual(apply[apply.indexOf('-ar') + 1], '24000');
+  assert.strictEqual(await fs.readFile(audioPath, 'utf-8'), 'fake-mp3');
+  assert.deepStrictEqual((await fs.readdir(tmpDir)).filter((f) => f.includes('mastering')), []);
+});
+
+test('masterMix copies video and re-encodes normalized audio', async () => {
+  const videoPath = path.join(tmpDir, 'output.mp4');
+  await fs.writeFile(videoPath, 'fake-mp4');
+
+  const measured = await masterMix(videoPath, { ...target, audioBitrate: '320k', ffmpegPath });
+  assert.strictEqual(measured, -22.41);
+
+  const [, apply] = await readArgs();
+  assert.strictEqual(apply[apply.indexOf('-c:v') + 1], 'copy');
+  assert.strictEqual(apply[apply.indexOf('-b:a') + 1], '320k');
+  assert.strictEqual(apply[apply.length - 1], path.join(tmpDir, 'output.mastering.mp4'));
+  assert.strictEqual(await fs.readFile(videoPath, 'utf-8'), 'fake-mp4');
+});
+
+test('masterNarration leaves the file untouched when ffmpeg is missing', async () => {
+  const audioPath = path.join(tmpDir, 'segment-2.mp3');
+  await fs.writeFile(audioPath, 'original');
+
+  await assert.rejects(
+    () => masterNarration(audioPath, { ...target, ffmpegPath: path.join(tmpDir, 'no-such-ffmpeg') }),
+    /Failed to start ffmpeg/
+  );
+  assert.strictEqual(await fs.readFile(audioPath, 'utf-8'), 'original');
+});
+
+console.log('\n✅ All loudness tests passed!');
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * Music Mood Matching Tests
+ * Tests the mood prompt, AI mood selection and the default-genre fallback
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { selectMusicMood, MoodContext } from '../cli/services/music/mood-matcher';
+import { musicMoodPrompt, MusicMoodSchema } from '../config/prompts/music.prompt';
+import type { AIProvider } from '../cli/lib/types';
+
+const context: MoodContext = {
+  refinedTopic: {
+    refinedTitle: 'The Lost Colony of Roanoke',
+    refinedDescription: 'What happened to 115 settlers who vanished in 1590',
+    targetAudience: 'History fans',
+  },
+  script: {
+    title: 'Roanoke',
+    segments: [
+      { text: 'In 1590, John White returned to an empty island.', speakingNotes: 'Slow, ominous' },
+      { text: 'The only clue was a single carved word.', speakingNotes: 'Slow, ominous' },
+      { text: 'Historians still argue about it.' },
+    ],
+  },
+};
+
+/**
+ * Provider that records prompts and answers with the given payload
+ */
+function fakeProvider(respond: (prompt: string) => unknown): AIProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    name: 'fake-ai',
+    prompts,
+    complete: async () => '',
+    structuredComplete: async <T>(prompt: string, schema: z.ZodSchema<T>): Promise<T> => {
+      prompts.push(prompt);
+      return schema.parse(respond(prompt));
+    },
+  };
+}
+
+test('musicMoodPrompt includes topic, deduplicated tone notes and narration', () => {
+  const prompt = musicMoodPrompt({
+    title: 'The Lost Colony of Roanoke',
+    description: 'Vanished settlers',
+    speakingNotes: ['Slow, ominous', 'Slow, ominous', '', 'Curious'],
+    openingText: 'In 1590, John White returned.',
+  });
+
+  assert.ok(prompt.includes('Title: "The Lost Colony of Roanoke"'));
+  assert.ok(prompt.includes('Description: Vanished settlers'));
+  assert.strictEqual(prompt.split('- Slow, ominous').length - 1, 1);
+  assert.ok(prompt.includes('- Curious'));
+  assert.ok(prompt.includes('"In 1590, John White returned."'));
+  assert.ok(!prompt.includes('Audience:'));
+});
+
+test('MusicMoodSchema only accepts known moods', () => {
+  assert.ok(MusicMoodSchema.safeParse({ mood: 'mysterious', reasoning: 'unsolved' }).success);
+  assert.ok(!MusicMoodSchema.safeParse({ mood: 'ambient', reasoning: 'x' }).success);
+});
+
+test('selectMusicMood returns the AI mood and reasoning', async () => {
+  const provider = fakeProvider(() => ({ mood: 'mysterious', reasoning: 'An unsolved disappearance' }));
+
+  const selection = await selectMusicMood(provider, context, 'ambient');
+
+  assert.deepStrictEqual(selection, { mood: 'mysterious', reasoning: 'An unsolved disappearance', source: 'ai' });
+  assert.ok(provider.prompts[0].includes('The Lost Colony of Roanoke'));
+  assert.ok(provider.prompts[0].includes('Audience: History fans'));
+});
+
+test('selectMusicMood uses the script title without a refined topic', async () => {
+  const provider = fakeProvider(() => ({ mood: 'calm', reasoning: 'Explainer' }));
+
+  await selectMusicMood(provider, { script: context.script }, 'ambient');
+
+  assert.ok(provider.prompts[0].includes('Title: "Roanoke"'));
+});
+
+test('selectMusicMood falls back to the default genre on invalid output or errors', async () => {
+  const invalid = await selectMusicMood(fakeProvider(() => ({ mood: 'spooky' })), context, 'ambient');
+  assert.strictEqual(invalid.mood, 'ambient');
+  assert.strictEqual(invalid.source, 'default');
+  assert.match(invalid.reasoning, /Mood matching failed/);
+
+  const failing = fakeProvider(() => {
+    throw new Error('CLI not installed');
+  });
+  const failed = await selectMusicMood(failing, context, 'lofi');
+  assert.strictEqual(failed.mood, 'lofi');
+  assert.match(failed.reasoning, /CLI not installed/);
+
+  const disabled = await selectMusicMood(undefined, context, 'ambient');
+  assert.deepStrictEqual(disabled, {
+    mood: 'ambient',
+    reasoning: 'Mood matching disabled; using default genre',
+    source: 'default',
+  });
+});
+
+console.log('\n✅ All music mood tests passed!');
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * Pipeline State Tests
+ * Tests input hashing, skip detection and stale propagation in pipeline-state.json
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ensureProjectDirs, getProjectPaths, ProjectPaths } from '../src/lib/paths';
+import {
+  assertUpstreamFresh,
+  findStaleUpstream,
+  getStageFreshness,
+  loadPipelineState,
+  markStageCompleted,
+  markStageFailed,
+} from '../cli/lib/pipeline-state';
+import { PipelineError } from '../cli/lib/pipeline';
+
+const createdProjects: string[] = [];
+
+function createProject(): ProjectPaths & { id: string } {
+  const id = `test-pipeline-state-${Date.now()}-${createdProjects.length}`;
+  createdProjects.push(id);
+  const paths = ensureProjectDirs(id);
+
+  fs.writeFileSync(paths.refined, JSON.stringify({ topic: { refinedTitle: 'Original' } }));
+  fs.writeFileSync(path.join(paths.scripts, 'script-v1.json'), JSON.stringify({ segments: [] }));
+  fs.writeFileSync(paths.tags, JSON.stringify({ tags: [] }));
+  fs.writeFileSync(paths.timeline, JSON.stringify({ elements: [] }));
+
+  return { ...paths, id };
+}
+
+after(() => {
+  for (const id of createdProjects) {
+    fs.rmSync(getProjectPaths(id).root, { recursive: true, force: true });
+  }
+});
+
+test('markStageCompleted records status and input hashes', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'script');
+
+  const state = await loadPipelineState(project.id);
+  const record = state.stages.script;
+
+  assert.ok(record, 'script stage should be recorded');
+  assert.strictEqual(record.status, 'completed');
+  assert.match(record.inputHashes['refined.json'] ?? '', /^[a-f0-9]{64}$/);
+  assert.ok('config/ai.config.json' in record.inputHashes, 'config inputs should be hashed');
+  assert.ok(fs.existsSync(project.pipelineState), 'pipeline-state.json should be written');
+});
+
+test('build tracks the shared SFX library as an input', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'build');
+
+  const state = await loadPipelineState(project.id);
+  assert.match(
+    state.stages.build?.inputHashes['public/sfx/library.json'] ?? '',
+    /^[a-f0-9]{64}$/,
+    'editing the SFX library should mark build stale'
+  );
+});
+
+test('getStageFreshness skips unchanged stages', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'script');
+
+  const freshness = await getStageFreshness(project.id, 'script');
+  assert.deepStrictEqual(freshness, { upToDate: true });
+});
+
+test('getStageFreshness reports stages that never ran', async () => {
+  const project = createProject();
+
+  const freshness = await getStageFreshness(project.id, 'build');
+  assert.deepStrictEqual(freshness, { upToDate: false, reason: 'never run' });
+});
+
+test('changed inputs mark the stage and everything downstream stale', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'script');
+  await markStageCompleted(project.id, 'gather', { params: { preview: false, scrape: false } });
+  await markStageCompleted(project.id, 'build');
+
+  fs.writeFileSync(project.refined, JSON.stringify({ topic: { refinedTitle: 'Edited' } }));
+
+  const scriptFreshness = await getStageFreshness(project.id, 'script');
+  assert.strictEqual(scriptFreshness.upToDate, false);
+  assert.match(scriptFreshness.reason ?? '', /inputs changed: refined\.json/);
+
+  const stale = await findStaleUpstream(project.id, 'build');
+  assert.deepStrictEqual(stale.map((entry) => entry.stage), ['script', 'gather']);
+
+  const state = await loadPipelineState(project.id);
+  assert.strictEqual(state.stages.build?.status, 'stale');
+  assert.match(state.stages.build?.staleReason ?? '', /upstream stage script/);
+});
+
+test('stale stages stay stale until they run again', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'gather', { params: { preview: false, scrape: false } });
+  await markStageCompleted(project.id, 'build');
+
+  fs.writeFileSync(path.join(project.scripts, 'script-v1.json'), JSON.stringify({ segments: [{ id: 'segment-1' }] }));
+  await findStaleUpstream(project.id, 'render');
+
+  // Re-running gather makes it fresh, but build still needs a re-run
+  await markStageCompleted(project.id, 'gather', { params: { preview: false, scrape: false } });
+  assert.strictEqual((await getStageFreshness(project.id, 'gather', { preview: false, scrape: false })).upToDate, true);
+  assert.strictEqual((await getStageFreshness(project.id, 'build')).upToDate, false);
+
+  await markStageCompleted(project.id, 'build');
+  assert.strictEqual((await getStageFreshness(project.id, 'build')).upToDate, true);
+});
+
+test('changed params or missing outputs prevent skipping', async () => {
+  const project = createProject();
+  await markStageCompleted(project.id, 'gather', { params: { preview: true, scrape: false } });
+
+  const changedParams = await getStageFreshness(project.id, 'gather', { scrape: false, preview: false });
+  assert.deepStrictEqual(changedParams, { upToDate: false, reason: 'options changed' });
+
+  const sameParams = await getStageFreshness(project.id, 'gather', { scrape: false, preview: true });
+  assert.strictEqual(sameParams.upToDate, true, 'param key order should not matter');
+
+  fs.rmSync(project.tags);
+  const missingOutput = await getStageFreshness(project.id, 'gather', { preview: true, scrape: false });
+  assert.strictEqual(missingOutput.upToDate, false);
+  assert.match(missingOutput.reason ?? '', /output missing: tags\.json/);
+});
+
+test('assertUpstreamFresh blocks failed upstream stages unless forced', async () => {
+  const project = createProject();
+  await markStageFailed(project.id, 'gather', new Error('TTS quota exceeded'));
+
+  await assert.rejects(() => assertUpstreamFresh(project.id, 'build'), PipelineError);
+  await assert.doesNotReject(() => assertUpstreamFresh(project.id, 'build', true));
+
+  const state = await loadPipelineState(project.id);
+  assert.strictEqual(state.stages.gather?.status, 'failed');
+  assert.strictEqual(state.stages.gather?.error, 'TTS quota exceeded');
+});
+
+test('assertUpstreamFresh passes when no state has been recorded', async () => {
+  const project = createProject();
+  await assert.doesNotReject(() => assertUpstreamFresh(project.id, 'render'));
+});
+
+console.log('\n✅ All pipeline state tests passed!');
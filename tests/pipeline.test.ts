@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+/**
+ * Pipeline Orchestrator Tests
+ * Tests stage ordering and --from/--to range resolution
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PIPELINE_STAGES, PipelineError, isPipelineStage, resolveStageRange } from '../cli/lib/pipeline';
+
+test('PIPELINE_STAGES lists all seven stages in order', () => {
+  assert.deepStrictEqual(
+    [...PIPELINE_STAGES],
+    ['discover', 'curate', 'refine', 'script', 'gather', 'build', 'render']
+  );
+});
+
+test('resolveStageRange returns every stage by default', () => {
+  assert.deepStrictEqual(resolveStageRange(), [...PIPELINE_STAGES]);
+});
+
+test('resolveStageRange honors --from', () => {
+  assert.deepStrictEqual(resolveStageRange('gather'), ['gather', 'build', 'render']);
+});
+
+test('resolveStageRange honors --to', () => {
+  assert.deepStrictEqual(resolveStageRange(undefined, 'curate'), ['discover', 'curate']);
+});
+
+test('resolveStageRange supports a single-stage range', () => {
+  assert.deepStrictEqual(resolveStageRange('build', 'build'), ['build']);
+});
+
+test('resolveStageRange rejects unknown stages', () => {
+  assert.throws(() => resolveStageRange('assemble'), PipelineError);
+  assert.throws(() => resolveStageRange(undefined, 'publish'), /Unknown stage "publish"/);
+});
+
+test('resolveStageRange rejects inverted ranges', () => {
+  assert.throws(() => resolveStageRange('render', 'gather'), /comes after/);
+});
+
+test('isPipelineStage narrows known names only', () => {
+  assert.strictEqual(isPipelineStage('script'), true);
+  assert.strictEqual(isPipelineStage('Script'), false);
+});
+
+console.log('\n✅ All pipeline tests passed!');
@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+/**
+ * Render Verification Tests
+ * Tests ffprobe/blackdetect/silencedetect parsing, check severities and the
+ * full verification pass through stand-in ffprobe and ffmpeg executables
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  evaluateVerification,
+  parseBlackdetect,
+  parseProbeOutput,
+  parseSilencedetect,
+  verifyRender,
+  ProbedMedia,
+  VerificationThresholds,
+} from '../cli/services/render';
+
+const THRESHOLDS: VerificationThresholds = {
+  durationToleranceSeconds: 1.5,
+  blackMinSeconds: 2,
+  failBlackSeconds: 5,
+  silenceMinSeconds: 3,
+  failSilenceSeconds: 8,
+  silenceNoiseDb: -50,
+};
+
+const EXPECTED = { durationSeconds: 61, width: 1920, height: 1080, fps: 30 };
+
+const PROBE_JSON = JSON.stringify({
+  streams: [
+    { codec_type: 'video', codec_name: 'h264', width: 1920, height: 1080, avg_frame_rate: '30/1', r_frame_rate: '30/1' },
+    { codec_type: 'audio', codec_name: 'aac' },
+  ],
+  format: { duration: '60.533333' },
+});
+
+const DETECT_LOG = [
+  '[blackdetect @ 0x55d] black_start:0 black_end:2.4 black_duration:2.4',
+  '[silencedetect @ 0x56a] silence_start: 12.5',
+  '[silencedetect @ 0x56a] silence_end: 16.25 | silence_duration: 3.75',
+  '[silencedetect @ 0x56a] silence_start: 57.1',
+].join('\n');
+
+let tmpDir: string;
+let ffprobePath: string;
+let ffmpegPath: string;
+
+before(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'render-verify-test-'));
+
+  // Both tools print the prepared output for the input file
+  ffprobePath = path.join(tmpDir, 'ffprobe');
+  await fs.writeFile(
+    ffprobePath,
+    `#!/usr/bin/env node
+const fs = require('fs');
+process.stdout.write(fs.readFileSync(process.argv[process.argv.length - 1] + '.probe.json'));
+`,
+    { mode: 0o755 }
+  );
+  ffmpegPath = path.join(tmpDir, 'ffmpeg');
+  await fs.writeFile(
+    ffmpegPath,
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const input = args[args.indexOf('-i') + 1];
+fs.writeFileSync(input + '.args.json', JSON.stringify(args));
+process.stderr.write(fs.readFileSync(input + '.detect.log', 'utf-8'));
+`,
+    { mode: 0o755 }
+  );
+});
+
+after(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+test('parseProbeOutput reads duration, resolution, fps and audio', () => {
+  assert.deepStrictEqual(parseProbeOutput(PROBE_JSON), {
+    durationSeconds: 60.533333,
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    videoCodec: 'h264',
+    audioCodec: 'aac',
+    hasAudio: true,
+  });
+
+  const videoOnly = parseProbeOutput(JSON.stringify({
+    streams: [{ codec_type: 'video', width: 1080, height: 1920, avg_frame_rate: '30000/1001', duration: '9.5' }],
+    format: {},
+  }));
+  assert.strictEqual(videoOnly.hasAudio, false);
+  assert.strictEqual(videoOnly.fps, 29.97);
+  assert.strictEqual(videoOnly.durationSeconds, 9.5);
+});
+
+test('parseBlackdetect and parseSilencedetect collect stretches', () => {
+  assert.deepStrictEqual(parseBlackdetect(DETECT_LOG), [
+    { startSeconds: 0, endSeconds: 2.4, durationSeconds: 2.4 },
+  ]);
+  // Silence still open at the end of the file runs to its duration
+  assert.deepStrictEqual(parseSilencedetect(DETECT_LOG, 60.5), [
+    { startSeconds: 12.5, endSeconds: 16.25, durationSeconds: 3.75 },
+    { startSeconds: 57.1, endSeconds: 60.5, durationSeconds: 3.4 },
+  ]);
+});
+
+test('evaluateVerification passes a matching file and warns on short stretches', () => {
+  const probe = parseProbeOutput(PROBE_JSON);
+  const result = evaluateVerification(
+    probe,
+    EXPECTED,
+    parseBlackdetect(DETECT_LOG),
+    parseSilencedetect(DETECT_LOG, probe.durationSeconds),
+    THRESHOLDS
+  );
+
+  assert.strictEqual(result.passed, true);
+  assert.deepStrictEqual(
+    result.checks.map(check => [check.name, check.status]),
+    [['duration', 'pass'], ['resolution', 'pass'], ['fps', 'pass'], ['audio', 'pass'], ['black', 'warn'], ['silence', 'warn']]
+  );
+  assert.match(result.checks[5].message, /2 silent stretch\(es\), longest 3\.8s: 12\.5-16\.3s, 57\.1-60\.5s/);
+});
+
+test('evaluateVerification fails on serious problems', () => {
+  const probe: ProbedMedia = { durationSeconds: 45, width: 1080, height: 1920, fps: 25, hasAudio: false };
+  const result = evaluateVerification(
+    probe,
+    EXPECTED,
+    [{ startSeconds: 20, endSeconds: 27, durationSeconds: 7 }],
+    [],
+    THRESHOLDS
+  );
+
+  assert.strictEqual(result.passed, false);
+  assert.deepStrictEqual(
+    result.checks.map(check => [check.name, check.status]),
+    [['duration', 'fail'], ['resolution', 'fail'], ['fps', 'fail'], ['audio', 'fail'], ['black', 'fail']]
+  );
+  assert.strictEqual(result.checks[3].message, 'No audio stream');
+});
+
+test('verifyRender probes the file and runs both detectors in one pass', async () => {
+  const videoPath = path.join(tmpDir, 'output.mp4');
+  await fs.writeFile(`${videoPath}.probe.json`, PROBE_JSON);
+  await fs.writeFile(`${videoPath}.detect.log`, DETECT_LOG);
+
+  const result = await verifyRender(videoPath, EXPECTED, { ...THRESHOLDS, ffprobePath, ffmpegPath });
+
+  assert.strictEqual(result.passed, true);
+  assert.strictEqual(result.blackStretches.length, 1);
+  assert.strictEqual(result.silenceStretches.length, 2);
+
+  const args: string[] = JSON.parse(await fs.readFile(`${videoPath}.args.json`, 'utf-8'));
+  assert.strictEqual(args[args.indexOf('-vf') + 1], 'blackdetect=d=2:pix_th=0.10');
+  assert.strictEqual(args[args.indexOf('-af') + 1], 'silencedetect=n=-50dB:d=3');
+
+  await assert.rejects(
+    () => verifyRender(path.join(tmpDir, 'missing.mp4'), EXPECTED, { ...THRESHOLDS, ffprobePath, ffmpegPath }),
+    /ffprobe exited with code 1/
+  );
+});
+
+console.log('\n✅ All render verification tests passed!');
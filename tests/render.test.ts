@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+/**
+ * Render Service Tests
+ * Tests quality preset mapping, cancellation and the render report
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  toEncoderSettings,
+  createCancellation,
+  getRenderReportPath,
+  writeRenderReport,
+  RenderError,
+  RenderReport,
+} from '../cli/services/render';
+import { ConfigManager } from '../cli/lib/config';
+
+test('toEncoderSettings maps h264 presets to crf, x264 preset and bitrate', () => {
+  assert.deepStrictEqual(
+    toEncoderSettings({ codec: 'h264', crf: 23, preset: 'medium', audioBitrate: '192k' }, 4),
+    {
+      codec: 'h264',
+      crf: 23,
+      proResProfile: undefined,
+      x264Preset: 'medium',
+      audioCodec: 'aac',
+      audioBitrate: '192k',
+      concurrency: 4,
+      imageFormat: 'jpeg',
+    }
+  );
+});
+
+test('toEncoderSettings maps prores presets to a profile without crf', () => {
+  const settings = toEncoderSettings({ codec: 'prores', crf: 10, preset: 'hq' }, 2);
+
+  assert.strictEqual(settings.crf, null);
+  assert.strictEqual(settings.proResProfile, 'hq');
+  assert.strictEqual(settings.x264Preset, undefined);
+  assert.strictEqual(settings.audioBitrate, null);
+});
+
+test('toEncoderSettings rejects unknown codecs', () => {
+  assert.throws(
+    () => toEncoderSettings({ codec: 'divx' }, 4),
+    (error: unknown) => error instanceof RenderError && error.phase === 'render' && /Unsupported codec: divx/.test(error.message)
+  );
+});
+
+test('every configured quality preset maps to encoder settings', async () => {
+  const videoConfig = await ConfigManager.loadVideoConfig();
+  for (const [name, preset] of Object.entries(videoConfig.rendering?.qualities || {})) {
+    assert.doesNotThrow(() => toEncoderSettings(preset, 4), `${name} should map`);
+  }
+});
+
+test('createCancellation records that the render was cancelled', () => {
+  const cancellation = createCancellation();
+  let notified = false;
+  cancellation.cancelSignal(() => {
+    notified = true;
+  });
+
+  assert.strictEqual(cancellation.isCancelled(), false);
+  cancellation.cancel();
+  assert.strictEqual(cancellation.isCancelled(), true);
+  assert.strictEqual(notified, true);
+});
+
+test('writeRenderReport writes render-report.json next to the output', async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'render-test-'));
+  try {
+    const reportPath = getRenderReportPath(path.join(dir, 'output.mp4'));
+    assert.strictEqual(reportPath, path.join(dir, 'render-report.json'));
+
+    const report: RenderReport = {
+      projectId: 'demo',
+      compositionId: 'demo',
+      status: 'completed',
+      output: path.join(dir, 'output.mp4'),
+      quality: 'draft',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      finishedAt: '2026-01-01T00:05:00.000Z',
+      elapsedMs: 300000,
+      encoder: toEncoderSettings({ codec: 'h264', crf: 28, preset: 'ultrafast', audioBitrate: '128k' }, 4),
+      frames: { total: 900, rendered: 300, range: [0, 299] },
+      video: { width: 1920, height: 1080, fps: 30, durationSeconds: 10 },
+      fileSizeBytes: 1048576,
+    };
+    await writeRenderReport(reportPath, report);
+
+    const written = JSON.parse(await fs.readFile(reportPath, 'utf-8'));
+    assert.deepStrictEqual(written, JSON.parse(JSON.stringify(report)));
+    assert.deepStrictEqual(written.frames.range, [0, 299]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+console.log('\n✅ All render tests passed!');
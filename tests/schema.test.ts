@@ -15,6 +15,7 @@ import {
   AudioElementSchema,
   VideoClipElementSchema,
   BackgroundMusicElementSchema,
+  SoundEffectElementSchema,
   AspectRatioSchema,
 } from '../src/lib/types';
 import { ConfigManager } from '../cli/lib/config';
@@ -281,6 +282,51 @@ test('BackgroundMusicElementSchema validates volume range', () => {
   assert.ok(!result.success, 'Volume > 1.0 should be rejected');
 });
 
+test('BackgroundMusicElementSchema accepts fades and ducking', () => {
+  const element = {
+    musicUrl: 'background.mp3',
+    startMs: 0,
+    endMs: 60000,
+    volume: 0.3,
+    fadeInMs: 2000,
+    fadeOutMs: 3000,
+    ducking: { volume: 0.2, fadeMs: 500 },
+  };
+
+  assert.ok(BackgroundMusicElementSchema.safeParse(element).success, 'Fades and ducking should validate');
+  assert.ok(
+    !BackgroundMusicElementSchema.safeParse({ ...element, ducking: { volume: 2, fadeMs: 500 } }).success,
+    'Ducking volume > 1.0 should be rejected'
+  );
+  assert.ok(
+    !BackgroundMusicElementSchema.safeParse({ ...element, fadeInMs: -1 }).success,
+    'Negative fade should be rejected'
+  );
+});
+
+// Test SoundEffectElement Schema
+test('SoundEffectElementSchema validates correctly', () => {
+  const element = { startMs: 5750, endMs: 6350, sfxUrl: 'whoosh-1.wav', tag: 'whoosh', volume: 0.4 };
+
+  assert.ok(SoundEffectElementSchema.safeParse(element).success, 'Valid sound effect should validate');
+  assert.ok(!SoundEffectElementSchema.safeParse({ ...element, volume: 1.5 }).success, 'Volume > 1.0 should be rejected');
+  assert.ok(!SoundEffectElementSchema.safeParse({ startMs: 0, endMs: 100 }).success, 'sfxUrl is required');
+});
+
+test('Shipped SFX library validates and its files exist', async () => {
+  const libraryDir = path.join(process.cwd(), 'public', 'sfx');
+  const library = await ConfigManager.loadSfxLibrary(path.join(libraryDir, 'library.json'));
+
+  for (const tag of ['whoosh', 'pop', 'riser']) {
+    assert.ok(library.effects.some((effect) => effect.tags.includes(tag)), `Library should have a ${tag} effect`);
+  }
+  for (const effect of library.effects) {
+    assert.ok(fs.existsSync(path.join(libraryDir, effect.file)), `${effect.file} should exist`);
+  }
+
+  assert.deepStrictEqual(await ConfigManager.loadSfxLibrary(path.join(libraryDir, 'missing.json')), { effects: [] });
+});
+
 // Test AspectRatio Schema
 test('AspectRatioSchema validates correctly', () => {
   assert.ok(AspectRatioSchema.safeParse('16:9').success, '16:9 should validate');
@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * SSML Builder Tests
+ * Tests speaking-note parsing and SSML generation with word marks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSSML, parseSpeakingNotes, escapeSSML } from '../cli/services/tts/ssml-builder';
+
+test('parseSpeakingNotes maps pacing and tone cues', () => {
+  assert.deepStrictEqual(parseSpeakingNotes('Slow and serious'), {
+    rate: 0.9,
+    pitchSemitones: -2,
+    emphasizedTerms: [],
+  });
+  assert.strictEqual(parseSpeakingNotes('Upbeat, quick delivery').rate, 1.1);
+  assert.strictEqual(parseSpeakingNotes('Upbeat, quick delivery').pitchSemitones, 2);
+  assert.deepStrictEqual(parseSpeakingNotes(undefined), { emphasizedTerms: [] });
+});
+
+test('parseSpeakingNotes ignores contradictory cues', () => {
+  const style = parseSpeakingNotes('Start slow, then get faster');
+  assert.strictEqual(style.rate, undefined);
+});
+
+test('parseSpeakingNotes picks up pauses and quoted terms', () => {
+  const style = parseSpeakingNotes(`Dramatic pause before "never", stress 'the end' but don't rush`);
+  assert.strictEqual(style.sentenceBreakMs, 600);
+  assert.strictEqual(style.clauseBreakMs, 250);
+  assert.deepStrictEqual(style.emphasizedTerms, ['never', 'the end']);
+});
+
+test('buildSSML without notes only adds word marks', () => {
+  assert.strictEqual(
+    buildSSML('Hello big world'),
+    '<speak><mark name="word0"/>Hello <mark name="word1"/>big <mark name="word2"/>world</speak>'
+  );
+});
+
+test('buildSSML wraps prosody and emphasis while keeping every mark', () => {
+  const ssml = buildSSML('It was never found. Ever, again.', {
+    speakingNotes: 'Slow, ominous, with a dramatic pause',
+    emphasis: [{ wordIndex: 2, level: 'high' }, { wordIndex: 4, level: 'med' }],
+  });
+
+  assert.strictEqual(
+    ssml,
+    '<speak><prosody rate="90%" pitch="-2st">' +
+      '<mark name="word0"/>It <mark name="word1"/>was ' +
+      '<emphasis level="strong"><mark name="word2"/>never</emphasis> ' +
+      '<mark name="word3"/>found.<break time="600ms"/> ' +
+      '<emphasis level="moderate"><mark name="word4"/>Ever,</emphasis><break time="250ms"/> ' +
+      '<mark name="word5"/>again.' +
+      '</prosody></speak>'
+  );
+  for (let i = 0; i < 6; i++) {
+    assert.ok(ssml.includes(`<mark name="word${i}"/>`));
+  }
+});
+
+test('buildSSML emphasizes quoted phrases from notes', () => {
+  const ssml = buildSSML('This is the end of the story', { speakingNotes: 'Stress "the end"' });
+
+  assert.ok(ssml.includes('<emphasis level="moderate"><mark name="word2"/>the</emphasis>'));
+  assert.ok(ssml.includes('<emphasis level="moderate"><mark name="word3"/>end</emphasis>'));
+  assert.ok(ssml.includes('<mark name="word5"/>the '), 'second "the" is not part of the phrase');
+});
+
+test('buildSSML escapes reserved characters', () => {
+  assert.strictEqual(escapeSSML(`A&B <c> "d" 'e'`), 'A&amp;B &lt;c&gt; &quot;d&quot; &apos;e&apos;');
+  assert.ok(buildSSML('Salt & pepper').includes('<mark name="word1"/>&amp;'));
+});
+
+console.log('\n✅ All SSML builder tests passed!');
@@ -8,9 +8,30 @@ import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import * as fs from 'fs';
 import * as path from 'path';
-import { normalizeTimeline } from '../src/lib/utils';
-import { TimelineSchema, TextElementSchema, type Timeline } from '../src/lib/types';
+import {
+  normalizeTimeline,
+  calculateMusicVolume,
+  calculateFadeOpacity,
+  getSubtitleLayout,
+  wrapSubtitleWords,
+  getWordAnimationState,
+  getToneShake,
+  getElementMotion,
+  getCutTransitions,
+  getCrossTransitionStyle,
+} from '../src/lib/utils';
+import { TimelineSchema, TextElementSchema, BackgroundElementSchema, type Timeline } from '../src/lib/types';
 import { DEFAULT_ASPECT_RATIO } from '../src/lib/constants';
+import {
+  assignBackgroundMotions,
+  assignCutTransitions,
+  generateBackgroundMusicElements,
+  generateVideoClipElements,
+  generateSoundEffectElements,
+  getChapterStarts,
+  getTimelineBeats,
+  snapBackgroundsToBeats,
+} from '../cli/commands/build';
 
 // Test Timeline Normalization
 test('normalizeTimeline adds default aspect ratio', () => {
@@ -72,6 +93,7 @@ test('normalizeTimeline initializes optional arrays', () => {
   assert.ok(Array.isArray(normalized.backgroundMusic), 'Should have backgroundMusic array');
   assert.strictEqual(normalized.videoClips.length, 0, 'videoClips should be empty');
   assert.strictEqual(normalized.backgroundMusic.length, 0, 'backgroundMusic should be empty');
+  assert.deepStrictEqual(normalized.soundEffects, [], 'soundEffects should be empty');
 });
 
 test('normalizeTimeline handles undefined elements gracefully', () => {
@@ -568,4 +590,517 @@ test('TextElement emphasis tone is optional', () => {
   assert.ok(result.success, 'Emphasis without tone should validate');
 });
 
+test('calculateMusicVolume fades in and out at the edges', () => {
+  const base = { durationInFrames: 300, fps: 30, volume: 0.3, fadeInMs: 1000, fadeOutMs: 2000 };
+
+  assert.strictEqual(calculateMusicVolume({ ...base, frame: 0 }), 0);
+  assert.ok(Math.abs(calculateMusicVolume({ ...base, frame: 15 }) - 0.15) < 1e-9);
+  assert.strictEqual(calculateMusicVolume({ ...base, frame: 150 }), 0.3);
+  assert.ok(Math.abs(calculateMusicVolume({ ...base, frame: 270 }) - 0.15) < 1e-9);
+  assert.strictEqual(calculateMusicVolume({ ...base, frame: 300 }), 0);
+});
+
+test('calculateMusicVolume ducks during narration with ramps', () => {
+  const base = {
+    durationInFrames: 300,
+    fps: 30,
+    volume: 0.5,
+    ducking: { volume: 0.2, fadeMs: 500 },
+    speechRanges: [{ from: 60, to: 120 }, { from: 200, to: 240 }],
+  };
+
+  assert.strictEqual(calculateMusicVolume({ ...base, frame: 30 }), 0.5, 'full volume away from speech');
+  assert.ok(Math.abs(calculateMusicVolume({ ...base, frame: 90 }) - 0.1) < 1e-9, 'ducked during speech');
+  // Halfway through the 15-frame ramp before speech: 1 - 0.5 * 0.8 = 0.6
+  assert.ok(Math.abs(calculateMusicVolume({ ...base, frame: 52.5 }) - 0.3) < 1e-9);
+  assert.ok(Math.abs(calculateMusicVolume({ ...base, frame: 127.5 }) - 0.3) < 1e-9);
+  assert.strictEqual(
+    calculateMusicVolume({ ...base, frame: 90, ducking: undefined }),
+    0.5,
+    'no ducking without ducking settings'
+  );
+});
+
+test('generateBackgroundMusicElements emits schema-valid elements from music config', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const manifest = {
+    music: [{ id: 'track-1', path: '/projects/p/assets/music/background.mp3', source: 'pixabay', genre: 'ambient' }],
+  };
+
+  const [element] = generateBackgroundMusicElements(manifest, 60000, {
+    enabled: true,
+    selection: {
+      maxTracks: 1,
+      durationMatching: { enabled: true, allowLooping: true, fadeInMs: 2000, fadeOutMs: 3000, crossfadeMs: 3000 },
+    },
+    audio: { volumeDucking: { enabled: true, duckVolumePercent: 20, fadeMs: 500 }, defaultVolume: 0.3 },
+  }, toFrame)!;
+
+  assert.deepStrictEqual(element, {
+    musicUrl: 'background.mp3',
+    startMs: 0,
+    endMs: 60000,
+    startFrame: 0,
+    endFrame: 1800,
+    volume: 0.3,
+    fadeInMs: 2000,
+    fadeOutMs: 3000,
+    ducking: { volume: 0.2, fadeMs: 500 },
+  });
+  assert.ok(TimelineSchema.shape.backgroundMusic.safeParse([element]).success);
+
+  const [plain] = generateBackgroundMusicElements(manifest, 60000, undefined, toFrame)!;
+  assert.strictEqual(plain.volume, 0.15);
+  assert.strictEqual(plain.ducking, undefined);
+  assert.strictEqual(generateBackgroundMusicElements({ music: [] }, 60000, undefined, toFrame), undefined);
+});
+
+test('generateBackgroundMusicElements loops or chains short tracks with crossfades', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const manifest = {
+    music: [
+      { id: 'a', path: '/music/background.mp3', source: 'local', genre: 'calm', durationMs: 60000 },
+      { id: 'b', path: '/music/background-2.mp3', source: 'local', genre: 'calm', durationMs: 100000 },
+    ],
+  };
+  const musicConfig = (allowLooping: boolean) => ({
+    enabled: true,
+    selection: {
+      maxTracks: 2,
+      durationMatching: { enabled: true, allowLooping, fadeInMs: 2000, fadeOutMs: 3000, crossfadeMs: 4000 },
+    },
+    audio: { defaultVolume: 0.3 },
+  });
+
+  const looped = generateBackgroundMusicElements(manifest, 150000, musicConfig(true), toFrame)!;
+  assert.deepStrictEqual(
+    looped.map((e) => [e.musicUrl, e.startMs, e.endMs, e.fadeInMs, e.fadeOutMs]),
+    [
+      ['background.mp3', 0, 60000, 2000, 4000],
+      ['background.mp3', 56000, 116000, 4000, 4000],
+      ['background.mp3', 112000, 150000, 4000, 3000],
+    ]
+  );
+
+  const chained = generateBackgroundMusicElements(manifest, 150000, musicConfig(false), toFrame)!;
+  assert.deepStrictEqual(
+    chained.map((e) => [e.musicUrl, e.startMs, e.endMs]),
+    [
+      ['background.mp3', 0, 60000],
+      ['background-2.mp3', 56000, 150000],
+    ]
+  );
+});
+
+test('generateBackgroundMusicElements switches beds at chapter starts', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const manifest = {
+    music: [
+      { id: 'a', path: '/music/background.mp3', source: 'local', genre: 'calm' },
+      { id: 'b', path: '/music/background-2.mp3', source: 'local', genre: 'calm' },
+    ],
+  };
+  const musicConfig = {
+    enabled: true,
+    selection: {
+      maxTracks: 2,
+      durationMatching: { enabled: true, allowLooping: true, fadeInMs: 2000, fadeOutMs: 3000, crossfadeMs: 4000 },
+    },
+  };
+
+  const beds = generateBackgroundMusicElements(manifest, 300000, musicConfig, toFrame, [100000, 200000])!;
+  assert.deepStrictEqual(
+    beds.map((e) => [e.musicUrl, e.startMs, e.endMs, e.fadeInMs, e.fadeOutMs]),
+    [
+      ['background.mp3', 0, 102000, 2000, 4000],
+      ['background-2.mp3', 98000, 202000, 4000, 4000],
+      ['background.mp3', 198000, 300000, 4000, 3000],
+    ]
+  );
+
+  // A single track keeps one continuous bed
+  const single = generateBackgroundMusicElements({ music: [manifest.music[0]] }, 300000, musicConfig, toFrame, [100000])!;
+  assert.strictEqual(single.length, 1);
+});
+
+test('getChapterStarts finds chapter changes and skips short chapters', () => {
+  const segments = [
+    { chapter: 'Origins' },
+    { chapter: 'Origins' },
+    { chapter: 'The Trial' },
+    { chapter: 'Aftermath' },
+    { chapter: 'Legacy' },
+  ];
+  const audioElements = [0, 40000, 90000, 120000, 200000].map((startMs, i, all) => ({
+    audioUrl: `segment-${i + 1}`,
+    startMs,
+    endMs: all[i + 1] ?? 250000,
+  }));
+
+  // Aftermath starts 30s after The Trial; Legacy leaves only 50s before the end
+  assert.deepStrictEqual(getChapterStarts(segments, audioElements, 60000), [90000]);
+  assert.deepStrictEqual(getChapterStarts(segments, audioElements, 20000), [90000, 120000, 200000]);
+  assert.deepStrictEqual(getChapterStarts([{}, {}], audioElements.slice(0, 2), 0), []);
+});
+
+test('calculateFadeOpacity fades clips in and out', () => {
+  const item = { startMs: 1000, endMs: 5000, enterTransition: 'fade' as const, exitTransition: 'fade' as const };
+
+  assert.strictEqual(calculateFadeOpacity({ item, localMs: 0 }), 0);
+  assert.strictEqual(calculateFadeOpacity({ item, localMs: 250 }), 0.5);
+  assert.strictEqual(calculateFadeOpacity({ item, localMs: 2000 }), 1);
+  assert.strictEqual(calculateFadeOpacity({ item, localMs: 3750 }), 0.5);
+  assert.strictEqual(calculateFadeOpacity({ item: { ...item, enterTransition: 'blur' }, localMs: 0 }), 1);
+});
+
+test('getSubtitleLayout places subtitles by position and adapts to the aspect ratio', () => {
+  const textConfig = { maxCharactersPerLine: 40, maxLines: 2, padding: 20 };
+
+  const landscape = getSubtitleLayout('bottom', 1920, 1080, textConfig);
+  assert.deepStrictEqual(landscape, {
+    top: undefined,
+    bottom: 108,
+    centered: false,
+    maxWidth: 1440,
+    maxCharactersPerLine: 40,
+    maxLines: 2,
+    scale: 1,
+    padding: 20,
+  });
+
+  // Portrait sits higher, uses more of the width but fits fewer characters
+  const portrait = getSubtitleLayout('bottom', 1080, 1920, textConfig);
+  assert.strictEqual(portrait.bottom, 422);
+  assert.strictEqual(portrait.maxWidth, 972);
+  assert.strictEqual(portrait.maxCharactersPerLine, 27);
+
+  assert.strictEqual(getSubtitleLayout('top', 1080, 1920, textConfig).top, 288);
+  assert.strictEqual(getSubtitleLayout('center', 1920, 1080, textConfig).centered, true);
+  assert.strictEqual(getSubtitleLayout('bottom', 1280, 720, textConfig).scale, 720 / 1080);
+});
+
+test('wrapSubtitleWords wraps into at most maxLines lines and shrinks what overflows', () => {
+  const short = wrapSubtitleWords(['The', 'quick', 'brown', 'fox'], 12, 2);
+  assert.deepStrictEqual(short, { lines: [[0, 1], [2, 3]], fontScale: 1 });
+
+  // Three lines at 12 characters; wrapping into two makes lines longer and text smaller
+  const words = ['The', 'quick', 'brown', 'fox', 'jumps', 'over', 'it'];
+  const long = wrapSubtitleWords(words, 12, 2);
+  assert.strictEqual(long.lines.length, 2);
+  assert.deepStrictEqual(long.lines.flat(), [0, 1, 2, 3, 4, 5, 6]);
+  const longest = Math.max(...long.lines.map((line) => line.map((i) => words[i]).join(' ').length));
+  assert.strictEqual(long.fontScale, 12 / longest);
+  assert.ok(long.fontScale < 1);
+
+  // One word longer than a line still fits by shrinking
+  assert.deepStrictEqual(wrapSubtitleWords(['Supercalifragilistic'], 10, 2), { lines: [[0]], fontScale: 0.5 });
+});
+
+test('getWordAnimationState applies each text animation preset', () => {
+  const base = { startFrame: 30, endFrame: 45, fps: 30, durationMs: 200, scaleFrom: 0.8, scaleTo: 1 };
+
+  // Words are hidden before they start, except karaoke which dims them
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'pop', frame: 29 }).visible, false);
+  const upcoming = getWordAnimationState({ ...base, preset: 'karaoke', frame: 29, upcomingOpacity: 0.35 });
+  assert.deepStrictEqual([upcoming.visible, upcoming.opacity, upcoming.highlighted], [true, 0.35, false]);
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'karaoke', frame: 40 }).highlighted, true);
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'karaoke', frame: 45 }).highlighted, false);
+
+  // Pop grows from scaleFrom and settles at scaleTo
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'pop', frame: 30 }).scale, 0.8);
+  assert.ok(Math.abs(getWordAnimationState({ ...base, preset: 'pop', frame: 45 }).scale - 1) < 0.01);
+
+  // Typewriter reveals letters across the spoken word, capped at durationMs
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'typewriter', frame: 30 }).revealRatio, 1 / 6);
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'typewriter', frame: 36 }).revealRatio, 1);
+
+  const fadeStart = getWordAnimationState({ ...base, preset: 'fade-up', frame: 30 });
+  assert.deepStrictEqual([fadeStart.opacity, fadeStart.translateY], [0, 20]);
+  assert.strictEqual(getWordAnimationState({ ...base, preset: 'fade-up', frame: 40 }).opacity, 1);
+
+  // Bounce overshoots before settling
+  const bounceScales = Array.from({ length: 30 }, (_, i) => getWordAnimationState({ ...base, preset: 'bounce', frame: 30 + i }).scale);
+  assert.ok(Math.max(...bounceScales) > 1.01);
+});
+
+test('getToneShake jitters briefly after the word starts', () => {
+  assert.strictEqual(getToneShake(29, 30, 30, 6), 0);
+  assert.ok(Math.abs(getToneShake(31, 30, 30, 6)) > 0);
+  assert.ok(Math.abs(getToneShake(31, 30, 30, 6)) <= 6);
+  assert.strictEqual(getToneShake(42, 30, 30, 6), 0);
+  assert.strictEqual(getToneShake(31, 30, 30, 0), 0);
+});
+
+test('getElementMotion eases zooms and pans across the animation', () => {
+  const zoom = [{ type: 'scale' as const, startMs: 0, endMs: 1000, from: 1, to: 1.2, easing: 'easeInOut' as const }];
+  assert.deepStrictEqual(getElementMotion(undefined, 500), { scale: 1, translateX: 0, translateY: 0 });
+  assert.strictEqual(getElementMotion(zoom, 0).scale, 1);
+  assert.ok(Math.abs(getElementMotion(zoom, 500).scale - 1.1) < 1e-9);
+  assert.ok(getElementMotion(zoom, 250).scale < 1.05, 'easeInOut starts slowly');
+  assert.strictEqual(getElementMotion(zoom, 1500).scale, 1.2, 'holds the last pose');
+
+  const linear = [{ type: 'scale' as const, startMs: 0, endMs: 1000, from: 1.2, to: 1 }];
+  assert.ok(Math.abs(getElementMotion(linear, 250).scale - 1.15) < 1e-9);
+
+  // The camera pans left, so the media slides right; zooming in hides the edges
+  const panLeft = [{ type: 'pan' as const, startMs: 0, endMs: 1000, direction: 'left' as const, distance: 0.1 }];
+  assert.deepStrictEqual(getElementMotion(panLeft, 0), { scale: 1.1, translateX: -0.05, translateY: 0 });
+  assert.deepStrictEqual(getElementMotion(panLeft, 1000), { scale: 1.1, translateX: 0.05, translateY: 0 });
+
+  const panDown = [{ type: 'pan' as const, startMs: 0, endMs: 1000, direction: 'down' as const, distance: 0.2, scale: 1.3 }];
+  assert.deepStrictEqual(getElementMotion(panDown, 1000), { scale: 1.3, translateX: 0, translateY: -0.1 });
+});
+
+test('getCutTransitions finds cross transitions at touching cuts', () => {
+  const elements = [
+    { startMs: 0, endMs: 1000, enterTransition: 'fade' as const, exitTransition: 'slide' as const },
+    { startMs: 1000, endMs: 2000, enterTransition: 'slide' as const, exitTransition: 'wipe' as const },
+    { startMs: 2500, endMs: 3000, enterTransition: 'wipe' as const, exitTransition: 'fade' as const },
+    { startMs: 3000, endMs: 4000, enterTransition: 'blur' as const },
+  ];
+
+  assert.deepStrictEqual(getCutTransitions(elements, 0), { enter: undefined, exit: 'slide' });
+  assert.deepStrictEqual(getCutTransitions(elements, 1), { enter: 'slide', exit: undefined }, 'a gap is not a cut');
+  assert.deepStrictEqual(getCutTransitions(elements, 2), { enter: undefined, exit: undefined }, 'blur stays a solo transition');
+  assert.ok(BackgroundElementSchema.safeParse({ imageUrl: 'a.jpg', ...elements[1] }).success);
+});
+
+test('getCrossTransitionStyle poses the outgoing and incoming backgrounds', () => {
+  assert.deepStrictEqual(getCrossTransitionStyle('crossfade', 0, true), { opacity: 0, translateX: 0, scale: 1, clipRight: 0 });
+  assert.deepStrictEqual(getCrossTransitionStyle('crossfade', 0.5, false), { opacity: 1, translateX: 0, scale: 1, clipRight: 0 });
+  assert.strictEqual(getCrossTransitionStyle('slide', 0, true).translateX, 1);
+  assert.strictEqual(getCrossTransitionStyle('slide', 1, false).translateX, -1);
+  assert.strictEqual(getCrossTransitionStyle('wipe', 0.5, true).clipRight, 0.5);
+  assert.strictEqual(getCrossTransitionStyle('zoom', 1, false).scale, 1.5);
+  assert.deepStrictEqual(getCrossTransitionStyle('zoom', 2, true), { opacity: 1, translateX: 0, scale: 1, clipRight: 0 });
+});
+
+test('generateVideoClipElements places clips at sentence boundaries', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const segments = [{ text: 'First sentence here. Second one now. Third goes on. Fourth ends it.' }];
+  const wordTimestamps = segments[0].text.split(' ').map((word, i) => ({
+    word,
+    startMs: i * 1000,
+    endMs: i * 1000 + 900,
+  }));
+  const audioElements = [{ audioUrl: 'segment-1', startMs: 1000, endMs: 12000 }];
+  const videos = [
+    { path: 'public/projects/p/assets/videos/ocean.mp4', tags: ['ocean'], duration: 30 },
+    { path: 'public/projects/p/assets/videos/city.mp4', tags: ['city'], duration: 3 },
+  ];
+  const tags = [{ segmentId: 'segment-1', tag: 'City' }];
+  const backgroundElements = [{ videoUrl: 'ocean', startMs: 1000, endMs: 12000 }];
+  const videoConfig = {
+    transitions: { defaultEnter: 'fade', defaultExit: 'fade' },
+    videoClips: { enabled: true, everyNthSentence: 2, minDurationMs: 2000, maxDurationMs: 6000, scaleFrom: 1, scaleTo: 1.1 },
+  };
+
+  const clips = generateVideoClipElements(
+    segments, audioElements, [{ wordTimestamps }], videos, tags, backgroundElements, videoConfig, toFrame
+  );
+
+  // Second and fourth sentences start at words 3 and 9; the background video is never reused
+  assert.deepStrictEqual(clips.map((c) => [c.videoUrl, c.startMs, c.endMs]), [
+    ['city', 4000, 6900],
+    ['city', 10000, 12000],
+  ]);
+  assert.strictEqual(clips[0].startFrame, 120);
+  assert.deepStrictEqual(clips[0].animations, [{ type: 'scale', startMs: 0, endMs: 2900, from: 1, to: 1.1 }]);
+  assert.ok(TimelineSchema.shape.videoClips.safeParse(clips).success);
+
+  assert.deepStrictEqual(
+    generateVideoClipElements(
+      segments, audioElements, [{ wordTimestamps }], videos, tags, backgroundElements,
+      { videoClips: { enabled: false } }, toFrame
+    ),
+    []
+  );
+
+  // Every sentence still leaves the opening one to the background; untagged videos are fine
+  const everySentence = generateVideoClipElements(
+    segments, audioElements, [{ wordTimestamps }],
+    [{ path: 'public/projects/p/assets/videos/untagged.mp4', duration: 30 }], tags, backgroundElements,
+    { ...videoConfig, videoClips: { ...videoConfig.videoClips, everyNthSentence: 1 } }, toFrame
+  );
+  assert.deepStrictEqual(everySentence.map((c) => [c.videoUrl, c.startMs, c.endMs]), [
+    ['untagged', 4000, 6900],
+    ['untagged', 7000, 9900],
+    ['untagged', 10000, 12000],
+  ]);
+});
+
+test('generateSoundEffectElements places whooshes at cuts and pops or risers on high emphasis', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const library = {
+    effects: [
+      { file: 'whoosh-1.wav', tags: ['whoosh'], durationMs: 600, volume: 0.8 },
+      { file: 'whoosh-2.wav', tags: ['whoosh'], durationMs: 800, volume: 0.8 },
+      { file: 'pop-1.wav', tags: ['pop'], durationMs: 150, volume: 1 },
+      { file: 'riser-1.wav', tags: ['riser'], durationMs: 1500, volume: 0.5 },
+    ],
+  };
+  const backgroundElements = [
+    { imageUrl: 'a.jpg', startMs: 1000, endMs: 6000, enterTransition: 'fade' as const },
+    { imageUrl: 'b.jpg', startMs: 6000, endMs: 12000, enterTransition: 'fade' as const },
+    { imageUrl: 'c.jpg', startMs: 12000, endMs: 20000, enterTransition: 'none' as const },
+    { imageUrl: 'd.jpg', startMs: 20000, endMs: 30000, enterTransition: 'blur' as const },
+  ];
+  const high = (tone?: 'warm' | 'intense') => ({ level: 'high' as const, tone });
+  const textElements = [{
+    text: 'words',
+    position: 'bottom' as const,
+    startMs: 1000,
+    endMs: 30000,
+    words: [
+      { text: 'Boom', startMs: 2000, endMs: 2300, emphasis: high() },
+      { text: 'close', startMs: 4000, endMs: 4300, emphasis: high() },
+      { text: 'cut', startMs: 6500, endMs: 6800, emphasis: high() },
+      { text: 'quiet', startMs: 9000, endMs: 9300, emphasis: { level: 'med' as const } },
+      { text: 'Huge', startMs: 15000, endMs: 15400, emphasis: high('intense') },
+    ],
+  }];
+  const videoConfig = {
+    soundEffects: {
+      enabled: true,
+      volume: 0.5,
+      transitions: { enabled: true, tags: ['whoosh'], leadMs: 250 },
+      emphasis: { enabled: true, tags: ['pop'], intenseTags: ['riser'], minGapMs: 4000 },
+    },
+  };
+
+  const effects = generateSoundEffectElements(backgroundElements, textElements, library, videoConfig, toFrame);
+
+  // Cut at 12000 has no transition; 4000 is too close to 2000, 6500 too close to the 6000 cut
+  assert.deepStrictEqual(effects.map((e) => [e.sfxUrl, e.startMs, e.endMs, e.volume]), [
+    ['pop-1.wav', 2000, 2150, 0.5],
+    ['whoosh-1.wav', 5750, 6350, 0.4],
+    ['riser-1.wav', 13500, 15000, 0.25],
+    ['whoosh-2.wav', 19750, 20550, 0.4],
+  ]);
+  assert.strictEqual(effects[1].tag, 'whoosh');
+  assert.strictEqual(effects[1].startFrame, 173);
+  assert.ok(TimelineSchema.shape.soundEffects.safeParse(effects).success);
+
+  assert.deepStrictEqual(
+    generateSoundEffectElements(backgroundElements, textElements, library, { soundEffects: { enabled: false } }, toFrame),
+    []
+  );
+  assert.deepStrictEqual(
+    generateSoundEffectElements(backgroundElements, textElements, { effects: [] }, videoConfig, toFrame),
+    []
+  );
+});
+
+test('getTimelineBeats lays each music piece\'s beats onto the timeline', () => {
+  const tracks = [
+    { path: '/p/assets/music/background.mp3', beats: { bpm: 120, confidence: 0.5, beatsMs: [0, 500, 1000, 1500, 2000, 2500] } },
+    { path: '/p/assets/music/background-2.mp3' },
+  ];
+  const pieces = [
+    { musicUrl: 'background.mp3', startMs: 0, endMs: 3000 },
+    { musicUrl: 'background.mp3', startMs: 2200, endMs: 5000 },
+    { musicUrl: 'background-2.mp3', startMs: 4000, endMs: 8000 },
+  ];
+
+  // The first piece keeps the beat until the loop starts; the second track has no grid
+  assert.deepStrictEqual(getTimelineBeats(pieces, tracks), [0, 500, 1000, 1500, 2000, 2200, 2700, 3200, 3700]);
+});
+
+test('snapBackgroundsToBeats moves touching cuts onto nearby beats', () => {
+  const toFrame = (ms: number) => Math.round((ms / 1000) * 30);
+  const backgrounds = [
+    { imageUrl: 'a.jpg', startMs: 1000, endMs: 4100 },
+    { imageUrl: 'b.jpg', startMs: 4100, endMs: 7400 },
+    { imageUrl: 'c.jpg', startMs: 7400, endMs: 7600 },
+    { imageUrl: 'd.jpg', startMs: 8000, endMs: 9000 },
+  ];
+  const beatsMs = [900, 4000, 7500, 8100, 9100];
+
+  const snapped = snapBackgroundsToBeats(backgrounds, beatsMs, 250, toFrame);
+
+  // 7400 -> 7500 would leave c.jpg 100ms long; 8000 doesn't touch its neighbour; edges stay put
+  assert.deepStrictEqual(snapped.map((e) => [e.startMs, e.endMs]), [
+    [1000, 4000],
+    [4000, 7400],
+    [7400, 7600],
+    [8000, 9000],
+  ]);
+  assert.strictEqual(snapped[0].endFrame, 120);
+  assert.strictEqual(snapped[1].startFrame, 120);
+  assert.strictEqual(backgrounds[0].endMs, 4100, 'input elements are not mutated');
+  assert.strictEqual(snapBackgroundsToBeats(backgrounds, [], 250, toFrame), backgrounds);
+});
+
+test('assignBackgroundMotions cycles zooms and pans across the backgrounds', () => {
+  const backgrounds = [
+    { imageUrl: 'a.jpg', startMs: 0, endMs: 3000 },
+    { imageUrl: 'b.jpg', startMs: 3000, endMs: 5000 },
+    { videoUrl: 'c', startMs: 5000, endMs: 9000 },
+    { imageUrl: 'd.jpg', startMs: 9000, endMs: 10000 },
+    { imageUrl: 'e.jpg', startMs: 10000, endMs: 12000 },
+  ];
+  const background = {
+    defaultType: 'zoom',
+    alternateDirection: true,
+    types: {
+      zoom: { scaleFrom: 1, scaleTo: 1.2, easingFunction: 'easeInOut' },
+      pan: { enabled: true, directions: ['left', 'right'], distance: 0.1, easingFunction: 'linear' },
+    },
+  };
+
+  const assigned = assignBackgroundMotions(backgrounds, { animations: { background } });
+  assert.deepStrictEqual(assigned.map((e) => e.animations), [
+    [{ type: 'scale', startMs: 0, endMs: 3000, from: 1, to: 1.2, easing: 'easeInOut' }],
+    [{ type: 'pan', startMs: 0, endMs: 2000, direction: 'left', distance: 0.1, easing: 'linear' }],
+    [{ type: 'scale', startMs: 0, endMs: 4000, from: 1.2, to: 1, easing: 'easeInOut' }],
+    [{ type: 'pan', startMs: 0, endMs: 1000, direction: 'right', distance: 0.1, easing: 'linear' }],
+    [{ type: 'scale', startMs: 0, endMs: 2000, from: 1, to: 1.2, easing: 'easeInOut' }],
+  ]);
+  assert.strictEqual(backgrounds[0].hasOwnProperty('animations'), false, 'input elements are not mutated');
+
+  // Without alternation every element repeats its type's first motion
+  const panOnly = assignBackgroundMotions(backgrounds.slice(0, 2), {
+    animations: { background: { ...background, defaultType: 'pan', alternateDirection: false, types: { ...background.types, zoom: { enabled: false } } } },
+  });
+  assert.deepStrictEqual(panOnly.map((e) => e.animations?.[0]), [
+    { type: 'pan', startMs: 0, endMs: 3000, direction: 'left', distance: 0.1, easing: 'linear' },
+    { type: 'pan', startMs: 0, endMs: 2000, direction: 'left', distance: 0.1, easing: 'linear' },
+  ]);
+
+  // No motion configured leaves the elements alone
+  const still = { animations: { background: { types: { zoom: { enabled: false } } } } };
+  assert.strictEqual(assignBackgroundMotions(backgrounds, still), backgrounds);
+});
+
+test('assignCutTransitions picks a cross transition per cut or per segment', () => {
+  const backgrounds = [
+    { imageUrl: 'a.jpg', startMs: 0, endMs: 1000, enterTransition: 'fade' as const, exitTransition: 'fade' as const },
+    { imageUrl: 'b.jpg', startMs: 1000, endMs: 2000, enterTransition: 'fade' as const, exitTransition: 'fade' as const },
+    { imageUrl: 'c.jpg', startMs: 2000, endMs: 3000, enterTransition: 'fade' as const, exitTransition: 'fade' as const },
+    { imageUrl: 'd.jpg', startMs: 3000, endMs: 4000, enterTransition: 'fade' as const, exitTransition: 'fade' as const },
+    { imageUrl: 'e.jpg', startMs: 4500, endMs: 5000, enterTransition: 'fade' as const, exitTransition: 'fade' as const },
+  ];
+  const audio = [
+    { audioUrl: 'segment-1', startMs: 0, endMs: 2000 },
+    { audioUrl: 'segment-2', startMs: 2000, endMs: 5000 },
+  ];
+  const cuts = { enabled: true, mode: 'per-cut', types: ['crossfade', 'slide', 'wipe'] };
+
+  const perCut = assignCutTransitions(backgrounds, audio, { transitions: { cuts } });
+  assert.deepStrictEqual(perCut.map((e) => [e.enterTransition, e.exitTransition]), [
+    ['fade', 'crossfade'],
+    ['crossfade', 'slide'],
+    ['slide', 'wipe'],
+    ['wipe', 'fade'],
+    ['fade', 'fade'],
+  ]);
+  assert.strictEqual(backgrounds[0].exitTransition, 'fade', 'input elements are not mutated');
+
+  // Cuts into a segment's backgrounds share that segment's transition
+  const perSegment = assignCutTransitions(backgrounds, audio, { transitions: { cuts: { ...cuts, mode: 'per-segment' } } });
+  assert.deepStrictEqual(perSegment.map((e) => e.enterTransition), ['fade', 'crossfade', 'slide', 'slide', 'fade']);
+
+  assert.strictEqual(assignCutTransitions(backgrounds, audio, { transitions: {} }), backgrounds);
+});
+
 console.log('\n✅ All timeline tests passed!');
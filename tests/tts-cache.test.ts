@@ -0,0 +1,241 @@
+#!/usr/bin/env node
+/**
+ * TTS Cache Tests
+ * Tests cache keys (per provider), lookup in fallback order, round-tripping, TTL expiry, stats and pruning
+ */
+
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TTSCache, computeTTSCacheKey } from '../cli/services/tts/tts-cache';
+import { generateWithFallback, getTTSCacheKey, TTSProviderFactory } from '../cli/services/tts';
+import { ConfigManager } from '../cli/lib/config';
+import { TTSResult } from '../cli/lib/media-types';
+
+let cacheDir: string;
+
+const result: TTSResult = {
+  audioBuffer: Buffer.from('fake-mp3-audio'),
+  format: 'mp3',
+  durationMs: 900,
+  timestamps: [
+    { word: 'Hello', startMs: 0, endMs: 400 },
+    { word: 'world', startMs: 450, endMs: 900 },
+  ],
+};
+
+const baseKey = {
+  provider: 'google',
+  voice: { languageCode: 'en-US', name: 'en-US-Neural2-J' },
+  audioConfig: { audioEncoding: 'MP3', speakingRate: 1.0 },
+  text: 'Hello world',
+};
+
+/**
+ * Rewrite an entry's createdAt to simulate age
+ */
+async function ageEntry(key: string, seconds: number): Promise<void> {
+  const metadataPath = path.join(cacheDir, `${key}.json`);
+  const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8'));
+  metadata.createdAt = new Date(Date.now() - seconds * 1000).toISOString();
+  await fs.writeFile(metadataPath, JSON.stringify(metadata));
+}
+
+beforeEach(async () => {
+  if (cacheDir) {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  }
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tts-cache-test-'));
+});
+
+after(async () => {
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+test('computeTTSCacheKey is stable and sensitive to every input', () => {
+  const key = computeTTSCacheKey(baseKey);
+
+  assert.match(key, /^[0-9a-f]{64}$/);
+  assert.strictEqual(
+    computeTTSCacheKey({ ...baseKey, audioConfig: { speakingRate: 1.0, audioEncoding: 'MP3' } }),
+    key,
+    'key order must not matter'
+  );
+  assert.notStrictEqual(computeTTSCacheKey({ ...baseKey, provider: 'elevenlabs' }), key);
+  assert.notStrictEqual(computeTTSCacheKey({ ...baseKey, voice: { languageCode: 'en-US', name: 'en-US-Neural2-F' } }), key);
+  assert.notStrictEqual(computeTTSCacheKey({ ...baseKey, audioConfig: { audioEncoding: 'MP3', speakingRate: 1.1 } }), key);
+  assert.notStrictEqual(computeTTSCacheKey({ ...baseKey, text: 'Hello world!' }), key);
+});
+
+test('getTTSCacheKey only keys SSML hints for providers that render them', () => {
+  const lexicon = [{ term: 'GIF', alias: 'jif', alphabet: 'ipa' as const, caseSensitive: true }];
+  const plain = { lexicon };
+  const hinted = {
+    lexicon,
+    speakingNotes: 'slow, serious',
+    emphasis: [{ wordIndex: 1, level: 'high' as const }],
+  };
+
+  // ElevenLabs and local never see speaking notes or emphasis
+  for (const name of ['elevenlabs', 'local']) {
+    assert.strictEqual(getTTSCacheKey(name, {}, 'Say GIF', hinted), getTTSCacheKey(name, {}, 'Say GIF', plain));
+    // Keyed on the substituted text they receive
+    assert.strictEqual(getTTSCacheKey(name, {}, 'Say GIF', plain), getTTSCacheKey(name, {}, 'Say jif'));
+  }
+
+  assert.notStrictEqual(getTTSCacheKey('google', {}, 'Say GIF', hinted), getTTSCacheKey('google', {}, 'Say GIF', plain));
+  assert.notStrictEqual(getTTSCacheKey('google', {}, 'Say GIF', plain), getTTSCacheKey('google', {}, 'Say jif'));
+  assert.notStrictEqual(getTTSCacheKey('local', {}, 'Say GIF', { speed: 1.2 }), getTTSCacheKey('local', {}, 'Say GIF'));
+});
+
+test('generateWithFallback prefers the primary provider over a fallback\'s cached audio', async () => {
+  // Stand-in local engine (writes a short silent WAV) and ffmpeg (copies it)
+  const binDir = path.join(cacheDir, 'bin');
+  await fs.mkdir(binDir);
+  const wav = Buffer.alloc(44 + 4410);
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + 4410, 4);
+  wav.write('WAVEfmt ', 8, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(22050, 24);
+  wav.writeUInt32LE(44100, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(4410, 40);
+  await fs.writeFile(path.join(binDir, 'speech.wav'), wav);
+  await fs.writeFile(
+    path.join(binDir, 'espeak-ng'),
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.copyFileSync(${JSON.stringify(path.join(binDir, 'speech.wav'))}, args[args.indexOf('-w') + 1]);
+`,
+    { mode: 0o755 }
+  );
+  await fs.writeFile(
+    path.join(binDir, 'ffmpeg'),
+    `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+fs.copyFileSync(args[args.indexOf('-i') + 1], args[args.length - 1]);
+`,
+    { mode: 0o755 }
+  );
+
+  const providers = {
+    local: { enabled: true, engine: 'espeak-ng', binaryPath: path.join(binDir, 'espeak-ng'), ffmpegPath: path.join(binDir, 'ffmpeg') },
+    elevenlabs: { enabled: true, apiKey: 'unused' },
+  };
+  await fs.mkdir(path.join(cacheDir, 'config'));
+  await fs.writeFile(path.join(cacheDir, 'config', 'tts.config.json'), JSON.stringify({
+    defaultProvider: 'local',
+    fallbackOrder: ['local', 'elevenlabs'],
+    providers,
+    retryConfig: { maxRetries: 0, retryDelayMs: 0, backoffMultiplier: 1 },
+    caching: { enabled: true, directory: path.join(cacheDir, 'tts') },
+  }));
+
+  // A fallback provider produced this text on an earlier run
+  await new TTSCache(path.join(cacheDir, 'tts')).set(
+    getTTSCacheKey('elevenlabs', providers.elevenlabs, 'Hello world'), result, { provider: 'elevenlabs', text: 'Hello world' }
+  );
+
+  const cwd = process.cwd();
+  process.chdir(cacheDir);
+  ConfigManager.clearCache();
+  TTSProviderFactory.clearCache();
+  try {
+    const first = await generateWithFallback('Hello world');
+    assert.strictEqual(first.provider, 'local');
+    assert.strictEqual(first.cached, undefined);
+    assert.strictEqual(first.audio.durationMs, 100);
+
+    const second = await generateWithFallback('Hello world');
+    assert.deepStrictEqual([second.provider, second.cached], ['local', true]);
+  } finally {
+    process.chdir(cwd);
+    ConfigManager.clearCache();
+    TTSProviderFactory.clearCache();
+  }
+});
+
+test('set then get round-trips audio and timestamps', async () => {
+  const cache = new TTSCache(cacheDir, 3600);
+  const key = computeTTSCacheKey(baseKey);
+
+  assert.strictEqual(await cache.get(key), undefined);
+  await cache.set(key, result, { provider: 'google', text: baseKey.text });
+
+  const cached = await cache.get(key);
+  assert.ok(cached);
+  assert.strictEqual(cached.audioBuffer.toString(), 'fake-mp3-audio');
+  assert.strictEqual(cached.durationMs, 900);
+  assert.deepStrictEqual(cached.timestamps, result.timestamps);
+
+  const files = (await fs.readdir(cacheDir)).sort();
+  assert.deepStrictEqual(files, [`${key}.json`, `${key}.mp3`]);
+});
+
+test('expired entries are treated as misses and removed', async () => {
+  const cache = new TTSCache(cacheDir, 60);
+  const key = computeTTSCacheKey(baseKey);
+  await cache.set(key, result, { provider: 'google', text: baseKey.text });
+  await ageEntry(key, 120);
+
+  assert.strictEqual(await cache.get(key), undefined);
+  assert.deepStrictEqual(await fs.readdir(cacheDir), []);
+});
+
+test('stats counts entries, bytes, expiry and providers', async () => {
+  const cache = new TTSCache(cacheDir, 60);
+  const fresh = computeTTSCacheKey(baseKey);
+  const stale = computeTTSCacheKey({ ...baseKey, provider: 'local' });
+  await cache.set(fresh, result, { provider: 'google', text: baseKey.text });
+  await cache.set(stale, result, { provider: 'local', text: baseKey.text });
+  await ageEntry(stale, 120);
+
+  const stats = await cache.stats();
+  assert.strictEqual(stats.entries, 2);
+  assert.strictEqual(stats.expired, 1);
+  assert.ok(stats.totalBytes > 0);
+  assert.deepStrictEqual(Object.keys(stats.byProvider).sort(), ['google', 'local']);
+  assert.ok(stats.oldest! < stats.newest!);
+});
+
+test('prune removes expired entries and interrupted writes only', async () => {
+  const cache = new TTSCache(cacheDir, 60);
+  const fresh = computeTTSCacheKey(baseKey);
+  const stale = computeTTSCacheKey({ ...baseKey, text: 'Old text' });
+  await cache.set(fresh, result, { provider: 'google', text: baseKey.text });
+  await cache.set(stale, result, { provider: 'google', text: 'Old text' });
+  await ageEntry(stale, 120);
+  await fs.writeFile(path.join(cacheDir, `${'a'.repeat(64)}.mp3`), 'orphan');
+  await fs.writeFile(path.join(cacheDir, `${fresh}.json.tmp-1-2`), 'partial');
+
+  const dryRun = await cache.prune({ dryRun: true });
+  assert.strictEqual(dryRun.removed, 1);
+  assert.strictEqual((await fs.readdir(cacheDir)).length, 6);
+
+  const pruned = await cache.prune();
+  assert.strictEqual(pruned.removed, 1);
+  assert.ok(pruned.freedBytes > 0);
+  assert.deepStrictEqual((await fs.readdir(cacheDir)).sort(), [`${fresh}.json`, `${fresh}.mp3`]);
+
+  const cleared = await cache.prune({ all: true });
+  assert.strictEqual(cleared.removed, 1);
+  assert.deepStrictEqual(await fs.readdir(cacheDir), []);
+});
+
+test('missing cache directory reports empty stats and prunes nothing', async () => {
+  const cache = new TTSCache(path.join(cacheDir, 'does-not-exist'), 60);
+
+  assert.strictEqual((await cache.stats()).entries, 0);
+  assert.deepStrictEqual(await cache.prune(), { removed: 0, freedBytes: 0 });
+});
+
+console.log('\n✅ All TTS cache tests passed!');